@@ -0,0 +1,71 @@
+// =============================================================================
+// events.ts – Typed domain events emitted by the GameEngine
+// Every event names its audience; the Socket.io adapter in server.ts maps
+// audiences onto rooms / sockets and the event type onto the wire event name.
+// =============================================================================
+
+import type { ServerEventPayloads } from '../../protocol/index.js';
+import type { Faction } from './gameState.js';
+
+/** Who receives an event */
+export type Audience =
+  /** Everyone in the room */
+  | { kind: 'room' }
+  /** A single player */
+  | { kind: 'player'; playerId: string }
+  /** Every member of a faction, alive or dead */
+  | { kind: 'faction'; faction: Faction }
+  /** Every spectator (never seated players) */
+  | { kind: 'spectators' }
+  /** Eliminated players and spectators — never the living */
+  | { kind: 'dead' }
+  /** The hosting process only — never forwarded to clients */
+  | { kind: 'server' };
+
+/** A player or spectator left the room for good (explicit leave or grace expiry) */
+export interface PlayerRemovedPayload {
+  playerId: string;
+  sessionId: string;
+}
+
+/**
+ * Event type → payload. Client-facing events are exactly the protocol's
+ * server → client events of the same name; `player_removed` stays on the server.
+ */
+export interface EngineEventMap
+  extends Pick<
+    ServerEventPayloads,
+    | 'room_updated'
+    | 'room_reset'
+    | 'reconnected'
+    | 'game_started'
+    | 'phase_changed'
+    | 'deadline_updated'
+    | 'player_eliminated'
+    | 'cutscene'
+    | 'narrate'
+    | 'vote_updated'
+    | 'mafia_votes_updated'
+    | 'detective_result'
+    | 'roleblocked'
+    | 'visit_report'
+    | 'chat'
+    | 'game_ended'
+  > {
+  player_removed: PlayerRemovedPayload;
+}
+
+export type EngineEventType = keyof EngineEventMap;
+
+/** A single domain event, discriminated by `type` */
+export type EngineEvent = {
+  [K in EngineEventType]: { type: K; audience: Audience; payload: EngineEventMap[K] };
+}[EngineEventType];
+
+/** Shorthand audiences */
+export const toRoom: Audience = { kind: 'room' };
+export const toServer: Audience = { kind: 'server' };
+export const toPlayer = (playerId: string): Audience => ({ kind: 'player', playerId });
+export const toFaction = (faction: Faction): Audience => ({ kind: 'faction', faction });
+export const toSpectators: Audience = { kind: 'spectators' };
+export const toDead: Audience = { kind: 'dead' };
@@ -0,0 +1,506 @@
+// =============================================================================
+// gameEngine.test.ts – Whole-game tests for the GameEngine
+// Games run on an injected clock and a pinned seed, so every deal, tiebreak
+// and narration line is reproducible without sockets or real timers.
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameEngine, type Clock } from './gameEngine.js';
+import type { EngineEvent } from './events.js';
+import { designatedShooter } from './gameLogic.js';
+import { createMemoryRepository } from './memoryRepository.js';
+import { buildRecap } from './recap.js';
+import { recordGameResult } from './repository.js';
+import { NO_WINNER, factionOf, type Role } from './roles.js';
+import { DEFAULT_RULES } from './settings.js';
+import type { GameSetup, MafiaKillRule, Phase, Player, RoomRules } from './gameState.js';
+
+/** A clock that only moves when the test moves it */
+function manualClock(start = 1_000): Clock & { set(ms: number): void } {
+  let now = start;
+  return { now: () => now, set: (ms) => { now = ms; } };
+}
+
+/** An engine with `players` seated in a lobby and a preset (by name) or imported setup selected */
+function seatedGame(players: number, setup: string | GameSetup, seed = 42) {
+  const clock = manualClock();
+  const game = GameEngine.create('TESTER', 'p0', { clock, seed: () => seed });
+  for (let i = 0; i < players; i++) {
+    assert.equal(game.join(`p${i}`, `Player${i}`, { url: '' }).ok, true);
+  }
+  const selected = typeof setup === 'string' ? game.selectSetup('p0', setup) : game.importSetup('p0', setup);
+  assert.equal(selected.ok, true);
+
+  const events: EngineEvent[] = [];
+  /** Run scheduled steps until the room reaches `phase` with its actions open */
+  const advanceTo = (phase: Phase) => {
+    for (let guard = 0; guard < 20; guard++) {
+      events.push(...game.drainEvents());
+      const open = phase === 'night' ? game.room.pendingStep === 'resolve_night' : true;
+      if (game.room.phase === phase && open) return;
+      const deadline = game.nextDeadline();
+      assert.notEqual(deadline, null, `stuck before ${phase}`);
+      clock.set(deadline!);
+      game.tick();
+    }
+    assert.fail(`never reached ${phase}`);
+  };
+  const drain = () => {
+    events.push(...game.drainEvents());
+    return events;
+  };
+  const alive = (filter: (p: Player) => boolean = () => true) =>
+    [...game.room.players.values()].filter((p) => p.alive && filter(p));
+  /** The first living holder of `role` */
+  const seatOf = (role: Role) => alive((p) => p.role === role)[0];
+  /** Vote `target` out: everyone votes for them, they vote for someone else */
+  const lynch = (target: Player) => {
+    advanceTo('vote');
+    const other = alive((p) => p.id !== target.id)[0];
+    for (const voter of alive()) game.vote(voter.id, voter.id === target.id ? other.id : target.id);
+  };
+  return { game, events, advanceTo, drain, alive, seatOf, lynch };
+}
+
+/** Play Classic 7 with the town hunting the mafia down; returns every event emitted */
+function playTownWin(seed: number): { events: EngineEvent[]; game: GameEngine } {
+  const { game, events, advanceTo, drain, alive } = seatedGame(7, 'Classic 7', seed);
+  assert.deepEqual(game.start('p0'), { ok: true });
+
+  for (let round = 1; game.room.phase !== 'ended'; round++) {
+    assert.ok(round <= 3, 'game should end by round 3');
+    advanceTo('night');
+    const mafia = alive((p) => factionOf(p.role) === 'mafia');
+    const citizen = alive((p) => p.role === 'citizen')[0];
+    for (const m of mafia) game.nightAction(m.id, 'kill', citizen.id);
+    const doctor = alive((p) => p.role === 'doctor')[0];
+    if (doctor) game.nightAction(doctor.id, 'save', doctor.id);
+    const detective = alive((p) => p.role === 'detective')[0];
+    if (detective) game.nightAction(detective.id, 'investigate', mafia[0].id);
+
+    advanceTo('vote');
+    // Everyone but the accused votes for the first gangster; the accused votes for a citizen
+    const accused = alive((p) => factionOf(p.role) === 'mafia')[0];
+    const scapegoat = alive((p) => factionOf(p.role) === 'town')[0];
+    for (const voter of alive()) game.vote(voter.id, voter.id === accused.id ? scapegoat.id : accused.id);
+    drain();
+  }
+  return { events: drain(), game };
+}
+
+test('a full Classic 7 game ends in a town win', () => {
+  const { events, game } = playTownWin(42);
+  const roles = new Map([...game.room.players.values()].map((p) => [p.id, p.role]));
+
+  // Each player is privately dealt their own role
+  const starts = events.filter((e) => e.type === 'game_started');
+  for (const e of starts) {
+    if (e.type !== 'game_started' || e.audience.kind !== 'player') continue;
+    assert.equal(e.payload.role, roles.get(e.audience.playerId));
+  }
+  assert.equal(starts.filter((e) => e.audience.kind === 'player').length, 7);
+
+  // Two night kills, two lynches of the two gangsters
+  const eliminated = events.flatMap((e) => (e.type === 'player_eliminated' ? [e.payload] : []));
+  assert.deepEqual(eliminated.map((e) => e.cause), ['night_kill', 'lynch', 'night_kill', 'lynch']);
+  assert.deepEqual(
+    eliminated.filter((e) => e.cause === 'lynch').map((e) => roles.get(e.playerId)),
+    ['mafia', 'mafia']
+  );
+
+  // The detective alone hears that their suspect is mafia
+  const detectiveId = [...roles].find(([, role]) => role === 'detective')![0];
+  const results = events.filter((e) => e.type === 'detective_result');
+  assert.ok(results.length > 0);
+  for (const e of results) {
+    assert.deepEqual(e.audience, { kind: 'player', playerId: detectiveId });
+    if (e.type === 'detective_result') assert.equal(e.payload.isMafia, true);
+  }
+
+  const ended = events.filter((e) => e.type === 'game_ended');
+  assert.equal(ended.length, 1);
+  assert.equal(ended[0].type === 'game_ended' && ended[0].payload.winner, 'town');
+  assert.equal(game.room.phase, 'ended');
+});
+
+test('the same seed and clock replay the same game', () => {
+  assert.equal(JSON.stringify(playTownWin(7).events), JSON.stringify(playTownWin(7).events));
+});
+
+test('play again compacts the log to the lobby it rebuilds', () => {
+  const { game } = playTownWin(42);
+  const lastSeq = game.room.log.at(-1)!.seq;
+  assert.deepEqual(game.playAgain('p0'), { ok: true });
+
+  const { log } = game.room;
+  assert.equal(log[0].type, 'room_created');
+  assert.ok(log.every((e) => e.type !== 'roles_assigned' && e.type !== 'night_resolved'), 'the old game is gone');
+  assert.ok(log.length <= 10, `log still holds ${log.length} entries`);
+  // Seqs keep counting up, so "did the log change" checks keep working
+  assert.ok(log.every((e, i) => e.seq > lastSeq && (i === 0 || e.seq === log[i - 1].seq + 1)));
+
+  const restored = GameEngine.restore(game.toSnapshot());
+  assert.deepEqual([...restored.room.players.values()], [...game.room.players.values()]);
+  assert.deepEqual(restored.room.settings, game.room.settings);
+  assert.equal(restored.room.hostId, game.room.hostId);
+  assert.equal(restored.room.phase, 'lobby');
+  assert.deepEqual(restored.start('p0'), { ok: true });
+});
+
+// ---------------------------------------------------------------------------
+// Neutrals
+// ---------------------------------------------------------------------------
+
+test('a lynched Jester and an Executioner whose mark hangs share the town win and its points', async () => {
+  const setup = customSetup('Neutrals', ['mafia', 'jester', 'executioner', 'doctor', 'detective', 'citizen', 'citizen']);
+  const { game, advanceTo, drain, alive, seatOf, lynch } = seatedGame(7, setup);
+  assert.deepEqual(game.start('p0'), { ok: true });
+  const [gangster, jester, executioner] = [seatOf('mafia'), seatOf('jester'), seatOf('executioner')];
+  const mark = game.room.players.get(executioner.lynchTarget!)!;
+  assert.equal(factionOf(mark.role), 'town');
+
+  // Hang the Jester, then the Executioner's mark, then the gangster. Each night the doctor (while alive)
+  // saves the gangster's victim, never the mark
+  for (const target of [jester, mark, gangster]) {
+    advanceTo('night');
+    const victim = alive((p) => factionOf(p.role) === 'town' && p.id !== mark.id)[0];
+    game.nightAction(gangster.id, 'kill', victim.id);
+    const doctor = seatOf('doctor');
+    if (doctor) game.nightAction(doctor.id, 'save', victim.id);
+    lynch(target);
+    assert.equal(target.alive, false);
+  }
+
+  const events = drain();
+  assert.deepEqual(
+    events.flatMap((e) => (e.type === 'player_eliminated' && e.payload.cause === 'lynch' ? [e.payload.playerId] : [])),
+    [jester.id, mark.id, gangster.id]
+  );
+  const ended = events.filter((e) => e.type === 'game_ended');
+  assert.equal(ended.length, 1);
+  const end = ended[0].type === 'game_ended' ? ended[0].payload : null;
+  assert.equal(end?.winner, 'town');
+  for (const r of end!.roles) assert.equal(r.won, r.role !== 'mafia', r.role);
+
+  // Each winner scores by their own faction: neutrals their solo points, town its share, mafia nothing
+  const repo = createMemoryRepository();
+  await recordGameResult(repo, game.room, 'town');
+  const scores = new Map((await repo.getLeaderboard({ limit: 10 })).map((row) => [row.player_name, row.total_score]));
+  for (const p of game.room.players.values()) {
+    const expected = p.role === 'mafia' ? 0 : factionOf(p.role) === 'neutral' ? 8 : 5;
+    assert.equal(scores.get(p.name), expected, p.role);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Mixed kill teams
+// ---------------------------------------------------------------------------
+
+/** A fixed setup dealing `roles` under default rules */
+function customSetup(name: string, roles: Role[], rules: Partial<RoomRules> = {}): GameSetup {
+  return {
+    name,
+    roles,
+    timings: { nightDurationMs: 60_000, dayDurationMs: 90_000, voteDurationMs: 30_000 },
+    rules: { ...DEFAULT_RULES, ...rules },
+  };
+}
+
+/** Seven seats with a Godfather and a Gangster sharing the hit under `rule` */
+function familyGame(rule: MafiaKillRule): GameSetup {
+  return customSetup(
+    `Family ${rule}`,
+    ['godfather', 'mafia', 'doctor', 'detective', 'citizen', 'citizen', 'citizen'],
+    { mafiaKillRule: rule }
+  );
+}
+
+/** Play the first night with the Godfather and Gangster picking the given citizens */
+function familyNight(rule: MafiaKillRule, godfatherPick: number, gangsterPick: number) {
+  const { game, advanceTo, alive } = seatedGame(7, familyGame(rule));
+  assert.deepEqual(game.start('p0'), { ok: true });
+  advanceTo('night');
+
+  const citizens = alive((p) => p.role === 'citizen');
+  const godfather = alive((p) => p.role === 'godfather')[0];
+  const gangster = alive((p) => p.role === 'mafia')[0];
+  const picks = new Map([
+    [godfather.id, citizens[godfatherPick].id],
+    [gangster.id, citizens[gangsterPick].id],
+  ]);
+  for (const [actorId, targetId] of picks) assert.deepEqual(game.nightAction(actorId, 'kill', targetId), { ok: true });
+  // The shooter is read before the night resolves (it has to be alive to be the shooter)
+  const shooter = designatedShooter(game.room);
+
+  advanceTo('day');
+  return { dead: citizens.filter((p) => !p.alive), shooterPick: shooter && picks.get(shooter.id) };
+}
+
+test('a Godfather and a Gangster agreeing kill their target under every kill rule', () => {
+  for (const rule of ['majority', 'unanimous', 'shooter'] as const) {
+    assert.equal(familyNight(rule, 0, 0).dead.length, 1, rule);
+  }
+});
+
+test('a Godfather and a Gangster split between two targets kill at most one', () => {
+  // Majority: a 1–1 tie is settled at random — still a single hit
+  assert.equal(familyNight('majority', 0, 1).dead.length, 1);
+  // Unanimous: no agreement, no kill
+  assert.equal(familyNight('unanimous', 0, 1).dead.length, 0);
+  // Shooter: the first-seated team member's pick is final, whichever role they hold
+  const { dead, shooterPick } = familyNight('shooter', 0, 1);
+  assert.deepEqual(dead.map((p) => p.id), [shooterPick]);
+});
+
+// ---------------------------------------------------------------------------
+// Investigations
+// ---------------------------------------------------------------------------
+
+test('a framed citizen reads as mafia for one night and the Godfather always reads innocent', () => {
+  const setup = customSetup('Frame job', ['godfather', 'framer', 'detective', 'doctor', 'citizen', 'citizen', 'citizen']);
+  const { game, advanceTo, drain, seatOf } = seatedGame(7, setup);
+  assert.deepEqual(game.start('p0'), { ok: true });
+  const [godfather, framer, detective, doctor, patsy] = (['godfather', 'framer', 'detective', 'doctor', 'citizen'] as const).map(seatOf);
+
+  /** One night with the detective checking `suspect`; the doctor saves the family's victim. Returns the verdicts */
+  const investigate = (suspect: Player, framed?: Player) => {
+    advanceTo('night');
+    const seen = drain().length;
+    if (framed) game.nightAction(framer.id, 'frame', framed.id);
+    game.nightAction(detective.id, 'investigate', suspect.id);
+    // Nothing is learned until the night resolves
+    assert.ok(!drain().slice(seen).some((e) => e.type === 'detective_result'));
+    game.nightAction(godfather.id, 'kill', doctor.id);
+    game.nightAction(doctor.id, 'save', doctor.id);
+    advanceTo('day');
+    return drain()
+      .slice(seen)
+      .flatMap((e) => (e.type === 'detective_result' ? [[e.audience, e.payload.targetId, e.payload.isMafia]] : []));
+  };
+
+  const toDetective = { kind: 'player', playerId: detective.id };
+  assert.deepEqual(investigate(patsy, patsy), [[toDetective, patsy.id, true]]);
+  assert.deepEqual(investigate(godfather), [[toDetective, godfather.id, false]]);
+  // The planted evidence is gone the next night
+  assert.deepEqual(investigate(patsy), [[toDetective, patsy.id, false]]);
+});
+
+// ---------------------------------------------------------------------------
+// Serial killer
+// ---------------------------------------------------------------------------
+
+test('the gangster and the serial killer each claim a victim, with one cutscene per death', () => {
+  const setup = customSetup('Two knives', ['mafia', 'serial_killer', 'doctor', 'detective', 'citizen', 'citizen', 'citizen']);
+  const { game, advanceTo, drain, alive, seatOf } = seatedGame(7, setup);
+  assert.deepEqual(game.start('p0'), { ok: true });
+  advanceTo('night');
+
+  const [gangster, killer, doctor, detective] = [seatOf('mafia'), seatOf('serial_killer'), seatOf('doctor'), seatOf('detective')];
+  const [first, second] = alive((p) => p.role === 'citizen');
+  game.nightAction(gangster.id, 'kill', first.id);
+  game.nightAction(killer.id, 'kill', second.id);
+  game.nightAction(doctor.id, 'save', doctor.id);
+  game.nightAction(detective.id, 'investigate', killer.id);
+  advanceTo('day');
+
+  const events = drain();
+  // The mafia's hit lands first (lower priority number), then the killer's
+  assert.deepEqual(
+    events.flatMap((e) => (e.type === 'player_eliminated' ? [e.payload.playerId] : [])),
+    [first.id, second.id]
+  );
+  const cutscenes = events.flatMap((e) => (e.type === 'cutscene' ? [e.payload] : []));
+  assert.deepEqual(cutscenes.map((c) => [c.victimId, c.saved]), [[first.id, false], [second.id, false]]);
+  const narration = events.flatMap((e) => (e.type === 'narrate' ? [e.payload] : []));
+  assert.equal(narration.length, 1);
+  assert.equal(narration[0].outcome, 'killed');
+  for (const victim of [first, second]) assert.ok(narration[0].text.includes(victim.name), 'both deaths are narrated');
+
+  // A side of one, not mafia
+  const results = events.flatMap((e) => (e.type === 'detective_result' ? [e.payload] : []));
+  assert.deepEqual(results.map((r) => [r.targetId, r.isMafia]), [[killer.id, false]]);
+
+  // Night two: the doctor stops the killer's knife like any other hit
+  const seen = events.length;
+  advanceTo('night');
+  const third = alive((p) => p.role === 'citizen')[0];
+  game.nightAction(killer.id, 'kill', third.id);
+  game.nightAction(doctor.id, 'save', third.id);
+  game.nightAction(gangster.id, 'kill', detective.id);
+  advanceTo('day');
+  const night2 = drain().slice(seen);
+  assert.deepEqual(
+    night2.flatMap((e) => (e.type === 'cutscene' ? [[e.payload.victimId, e.payload.saved]] : [])),
+    [[detective.id, false], [third.id, true]]
+  );
+  assert.equal(third.alive, true);
+});
+
+/** Four to seven seats where the Gangster and the Serial Killer kill each other on night one */
+function mutualKill(roles: Role[]) {
+  const { game, advanceTo, drain, alive } = seatedGame(roles.length, customSetup('Standoff', roles));
+  assert.deepEqual(game.start('p0'), { ok: true });
+  advanceTo('night');
+
+  const gangster = alive((p) => p.role === 'mafia')[0];
+  const killer = alive((p) => p.role === 'serial_killer')[0];
+  assert.deepEqual(game.nightAction(gangster.id, 'kill', killer.id), { ok: true });
+  assert.deepEqual(game.nightAction(killer.id, 'kill', gangster.id), { ok: true });
+  advanceTo('ended');
+
+  const ended = drain().filter((e) => e.type === 'game_ended');
+  assert.equal(ended.length, 1);
+  return { game, end: ended[0].type === 'game_ended' ? ended[0].payload : null };
+}
+
+const livingPlayers = (game: GameEngine) => [...game.room.players.values()].filter((p) => p.alive).length;
+
+test('the last gangster and the serial killer dying together hand town the win', () => {
+  const { game, end } = mutualKill(['mafia', 'serial_killer', 'doctor', 'citizen', 'citizen']);
+  assert.equal(end?.winner, 'town');
+  for (const r of end!.roles) assert.equal(r.won, factionOf(r.role) === 'town', r.role);
+  assert.equal(livingPlayers(game), 3);
+});
+
+test('nobody wins when the gangster and the serial killer take each other down with no town left', () => {
+  const { game, end } = mutualKill(['mafia', 'serial_killer', 'jester', 'jester']);
+  assert.equal(end?.winner, NO_WINNER);
+  assert.ok(end!.roles.every((r) => !r.won), 'the surviving jesters did not win');
+  assert.equal(livingPlayers(game), 2);
+});
+
+// ---------------------------------------------------------------------------
+// Roleblocks
+// ---------------------------------------------------------------------------
+
+test('an Escort block cancels the blocked action and tells only the blocked player', () => {
+  const setup = customSetup('Escorted', ['mafia', 'escort', 'detective', 'doctor', 'citizen', 'citizen', 'citizen']);
+  const { game, advanceTo, drain, seatOf } = seatedGame(7, setup);
+  assert.deepEqual(game.start('p0'), { ok: true });
+  const [gangster, escort, detective, citizen] = (['mafia', 'escort', 'detective', 'citizen'] as const).map(seatOf);
+
+  /** One night: the escort blocks `blocked`, the gangster hits the citizen, the detective checks the gangster */
+  const blockedNight = (blocked: Player) => {
+    advanceTo('night');
+    const seen = drain().length;
+    game.nightAction(escort.id, 'block', blocked.id);
+    game.nightAction(gangster.id, 'kill', citizen.id);
+    game.nightAction(detective.id, 'investigate', gangster.id);
+    advanceTo('day');
+    return drain().slice(seen);
+  };
+
+  // Blocking the gangster: no hit tonight
+  let night = blockedNight(gangster);
+  assert.deepEqual(
+    night.flatMap((e) => (e.type === 'roleblocked' ? [[e.audience, e.payload.round]] : [])),
+    [[{ kind: 'player', playerId: gangster.id }, 1]]
+  );
+  assert.ok(!night.some((e) => e.type === 'player_eliminated'));
+  assert.equal(citizen.alive, true);
+  assert.equal(night.filter((e) => e.type === 'detective_result').length, 1);
+
+  // Blocking the detective: no result tonight, while the hit lands
+  night = blockedNight(detective);
+  assert.deepEqual(
+    night.flatMap((e) => (e.type === 'roleblocked' ? [[e.audience, e.payload.round]] : [])),
+    [[{ kind: 'player', playerId: detective.id }, 2]]
+  );
+  assert.ok(!night.some((e) => e.type === 'detective_result'));
+  assert.equal(citizen.alive, false);
+});
+
+// ---------------------------------------------------------------------------
+// Visits
+// ---------------------------------------------------------------------------
+
+test('the Lookout sees who visited their target and the Tracker sees where theirs went', () => {
+  const setup = customSetup('Night watch', ['mafia', 'lookout', 'tracker', 'doctor', 'citizen', 'citizen', 'citizen']);
+  const { game, advanceTo, drain, seatOf } = seatedGame(7, setup);
+  assert.deepEqual(game.start('p0'), { ok: true });
+  const [gangster, lookout, tracker, doctor, citizen] = (['mafia', 'lookout', 'tracker', 'doctor', 'citizen'] as const).map(seatOf);
+
+  advanceTo('night');
+  const seen = drain().length;
+  game.nightAction(gangster.id, 'kill', citizen.id);
+  game.nightAction(doctor.id, 'save', citizen.id);
+  game.nightAction(lookout.id, 'watch', citizen.id);
+  game.nightAction(tracker.id, 'track', gangster.id);
+  advanceTo('day');
+
+  const reports = drain()
+    .slice(seen)
+    .flatMap((e) => (e.type === 'visit_report' ? [{ audience: e.audience, ...e.payload }] : []));
+  const reportTo = (player: Player) =>
+    reports.filter((r) => r.audience.kind === 'player' && r.audience.playerId === player.id);
+
+  const [watched] = reportTo(lookout);
+  assert.equal(reportTo(lookout).length, 1);
+  assert.deepEqual([watched.action, watched.round, watched.targetId], ['watch', 1, citizen.id]);
+  assert.deepEqual(watched.seen.map((p) => p.id).sort(), [gangster.id, doctor.id].sort());
+
+  assert.deepEqual(reportTo(tracker), [
+    {
+      audience: { kind: 'player', playerId: tracker.id },
+      round: 1,
+      action: 'track',
+      targetId: gangster.id,
+      targetName: gangster.name,
+      seen: [{ id: citizen.id, name: citizen.name }],
+    },
+  ]);
+  assert.equal(reports.length, 2, 'nobody else gets a report');
+});
+
+// ---------------------------------------------------------------------------
+// Recap
+// ---------------------------------------------------------------------------
+
+/**
+ * One night where the escort blocks the doctor and the detective checks the
+ * gangster — and both the detective and the doctor drop and come back on new
+ * sockets before the night resolves, the detective picking again.
+ */
+function reconnectingNight() {
+  const setup = customSetup('Reconnects', ['mafia', 'escort', 'detective', 'doctor', 'citizen', 'citizen', 'citizen']);
+  const { game, advanceTo, alive } = seatedGame(7, setup);
+  assert.deepEqual(game.start('p0'), { ok: true });
+  advanceTo('night');
+
+  const [gangster, escort, detective, doctor] = ['mafia', 'escort', 'detective', 'doctor'].map(
+    (role) => alive((p) => p.role === role)[0]
+  );
+  const citizen = alive((p) => p.role === 'citizen')[0];
+  const oldIds = [detective.id, doctor.id];
+  game.nightAction(escort.id, 'block', doctor.id);
+  game.nightAction(doctor.id, 'save', citizen.id);
+  game.nightAction(detective.id, 'investigate', gangster.id);
+
+  for (const [player, newId] of [[detective, 'detective-2'], [doctor, 'doctor-2']] as const) {
+    game.disconnect(player.id);
+    assert.equal(game.reconnect(player.sessionId, newId).ok, true);
+  }
+  game.nightAction('detective-2', 'investigate', gangster.id);
+  game.nightAction(gangster.id, 'kill', citizen.id);
+  advanceTo('day');
+
+  const [night] = buildRecap(game.room.log);
+  const byActor = (id: string) => night.nightActions.filter((a) => a.actorId === id);
+  assert.equal(oldIds.flatMap(byActor).length, 0, 'no entries left under the old socket ids');
+  return { night, byActor, gangster, citizen };
+}
+
+test('the recap keeps the result of a detective who reconnected mid-night', () => {
+  const { byActor, gangster } = reconnectingNight();
+  assert.deepEqual(byActor('detective-2'), [
+    { actorId: 'detective-2', action: 'investigate', targetId: gangster.id, isMafia: true },
+  ]);
+});
+
+test('the recap keeps the block on a player who reconnected mid-night', () => {
+  const { night, byActor, citizen } = reconnectingNight();
+  assert.deepEqual(byActor('doctor-2'), [{ actorId: 'doctor-2', action: 'save', targetId: citizen.id, blocked: true }]);
+  // The block went through, so the save did not
+  assert.deepEqual(night.eliminations, [{ playerId: citizen.id, cause: 'night_kill' }]);
+});
@@ -0,0 +1,949 @@
+// =============================================================================
+// gameEngine.ts – Transport-free game state machine for Who Lies Tonight (WLT)
+// One GameEngine per room. Commands (join, start, night action, vote, tick…)
+// validate input, record state changes to the room log (gameLog.ts) and queue
+// typed domain events; the caller drains the queue and delivers it. Time and
+// the per-game random seed are injected, so a full game can run (and be
+// reproduced) without sockets or real timers.
+// =============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Avatar,
+  ChatChannel,
+  ChatMessage,
+  ErrorCode,
+  ErrorPayload,
+  Faction,
+  NightActionType,
+  Player,
+  PhaseStep,
+  Room,
+  RoomUpdatePayload,
+  CutscenePayload,
+  Spectator,
+} from './gameState.js';
+import { ERROR_CATALOG } from '../../protocol/index.js';
+import {
+  assignRoles,
+  assignLynchTargets,
+  resolveNight,
+  resolveDayVote,
+  checkWinCondition,
+  soloWinnersOfLynch,
+  getAlivePlayers,
+  getAliveMafia,
+  validateNightAction,
+  allNightActionsSubmitted,
+  sanitizeUsername,
+  toPublicPlayers,
+  toPublicSpectators,
+  revealedWill,
+  revealedIdentity,
+  identityToReveal,
+} from './gameLogic.js';
+import { createRng, randomSeed, type SeededRng } from './rng.js';
+import { DEFAULT_SETTINGS, DEFAULT_RULES, validateSettings } from './settings.js';
+import {
+  findPreset,
+  validateSetup,
+  describeSetup,
+  settingsForSetup,
+  settingsWithoutSetup,
+} from './setups.js';
+import { appendLogEntry, blankRoom, compactLog, replayLog, type GameLogEntry, type GameLogEvent } from './gameLog.js';
+import {
+  buildSnapshot,
+  detectiveResultView,
+  gameEndView,
+  lynchTargetView,
+  mafiaTeamView,
+  mafiaVotesView,
+  visitReportView,
+  voteTallyView,
+} from './snapshot.js';
+import { getNarratorText, getRevealText } from './narrator.js';
+import { ROLES, factionOf, nightAbilityOf } from './roles.js';
+import {
+  toRoom,
+  toServer,
+  toPlayer,
+  toFaction,
+  toSpectators,
+  toDead,
+  type Audience,
+  type EngineEvent,
+  type EngineEventMap,
+  type EngineEventType,
+} from './events.js';
+
+// ---------------------------------------------------------------------------
+// Dependencies
+// ---------------------------------------------------------------------------
+
+/** Time source — epoch milliseconds */
+export interface Clock {
+  now(): number;
+}
+
+/** Wall-clock time */
+export const systemClock: Clock = { now: () => Date.now() };
+
+/** Injectable collaborators (defaults: wall clock + crypto-random seeds) */
+export interface EngineDeps {
+  clock: Clock;
+  /** Draws the seed for each new game's PRNG; pin it to replay a game exactly */
+  seed: () => number;
+}
+
+/** Everything needed to rebuild an engine: the room log + the game PRNG's position */
+export interface EngineSnapshot {
+  rngState: number;
+  log: GameLogEntry[];
+}
+
+/** Outcome of a command: ok (with optional extra data) or a coded, user-facing error */
+export type CommandResult<T extends object = object> =
+  | ({ ok: true } & T)
+  | { ok: false; error: ErrorPayload };
+
+// ---------------------------------------------------------------------------
+// Timings
+// ---------------------------------------------------------------------------
+
+/** Countdown between start_game and the first night */
+const START_COUNTDOWN_MS = 3_000;
+/** Closing announcement for the side whose win ends the game */
+const WIN_MESSAGES: Record<Faction, string> = {
+  mafia: 'The syndicate wins! The city falls to the mob.',
+  town: 'The townspeople win! Justice prevails... for now.',
+  killer: 'The serial killer wins! Nobody is left to stop the knife.',
+  neutral: 'Nobody is left to claim the city. Nobody wins.',
+};
+
+/** Pause after the night for each cutscene that plays */
+const CUTSCENE_DELAY_MS = 12_000;
+/** Pause after a quiet night */
+const QUIET_DAWN_DELAY_MS = 2_000;
+/** Pause between the vote result and the next night */
+const NEXT_NIGHT_DELAY_MS = 3_000;
+/** Reconnect grace in the lobby (covers navigation blips) */
+const LOBBY_GRACE_MS = 15_000;
+/** Reconnect grace mid-game */
+const GAME_GRACE_MS = 30_000;
+/** Chat rate limit: CHAT_MAX_MESSAGES per CHAT_WINDOW_MS */
+const CHAT_WINDOW_MS = 5_000;
+const CHAT_MAX_MESSAGES = 10;
+/** Spectators a room admits at once */
+const MAX_SPECTATORS = 20;
+/** Longest last will, in characters */
+const WILL_MAX_LENGTH = 500;
+
+/**
+ * Who hears each chat channel. Mafia chat reaches alive and eliminated mafia
+ * (dead mafia can watch); the graveyard never reaches the living.
+ */
+const CHAT_AUDIENCE: Record<ChatChannel, Audience> = {
+  global: toRoom,
+  mafia: toFaction('mafia'),
+  spectator: toSpectators,
+  dead: toDead,
+};
+
+/** Reject a command; the message defaults to the catalog's */
+const fail = (code: ErrorCode, message: string = ERROR_CATALOG[code]): { ok: false; error: ErrorPayload } => ({
+  ok: false,
+  error: { code, message },
+});
+
+// ---------------------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------------------
+
+export class GameEngine {
+  readonly room: Room;
+  private readonly clock: Clock;
+  private readonly nextSeed: () => number;
+  /** The current game's PRNG — reseeded from the logged seed at every start */
+  private rng: SeededRng;
+  private events: EngineEvent[] = [];
+  /** Deadline clients last heard about (see drainEvents) */
+  private announcedDeadline: { step: PhaseStep | null; endsAt: number | null } = { step: null, endsAt: null };
+
+  constructor(room: Room, deps: Partial<EngineDeps> = {}) {
+    this.room = room;
+    this.clock = deps.clock ?? systemClock;
+    this.nextSeed = deps.seed ?? randomSeed;
+    this.rng = createRng(room.seed ?? 0);
+  }
+
+  /** Open a fresh lobby room; its log starts with `room_created` */
+  static create(code: string, hostId: string, deps: Partial<EngineDeps> = {}): GameEngine {
+    const game = new GameEngine(blankRoom(code, hostId), deps);
+    game.record({
+      type: 'room_created',
+      code,
+      hostId,
+      settings: { ...DEFAULT_SETTINGS, rules: { ...DEFAULT_RULES } },
+    });
+    return game;
+  }
+
+  /** Rebuild an engine from a snapshot (see toSnapshot) */
+  static restore(snapshot: EngineSnapshot, deps: Partial<EngineDeps> = {}): GameEngine {
+    const game = new GameEngine(replayLog(snapshot.log), deps);
+    game.rng = createRng(snapshot.rngState);
+    return game;
+  }
+
+  /** Serializable copy of the engine's state */
+  toSnapshot(): EngineSnapshot {
+    return { rngState: this.rng.state(), log: [...this.room.log] };
+  }
+
+  // ── Event queue ────────────────────────────────────────────────────────────
+
+  /**
+   * Take every event queued since the last drain. If the scheduled step or its
+   * deadline moved since the last drain, a single `deadline_updated` is appended.
+   */
+  drainEvents(): EngineEvent[] {
+    const { pendingStep: step, deadline: endsAt } = this.room;
+    if (step !== this.announcedDeadline.step || endsAt !== this.announcedDeadline.endsAt) {
+      this.announcedDeadline = { step, endsAt };
+      this.emit('deadline_updated', toRoom, { step, endsAt });
+    }
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  /** Earliest moment tick() has work to do (phase step or reconnect grace), or null */
+  nextDeadline(): number | null {
+    let next = this.room.deadline;
+    for (const p of [...this.room.players.values(), ...this.room.spectators.values()]) {
+      if (p.connected || p.reconnectDeadline === null) continue;
+      if (next === null || p.reconnectDeadline < next) next = p.reconnectDeadline;
+    }
+    return next;
+  }
+
+  /** Whether the last player has left (the room can be discarded; spectators don't keep it) */
+  isEmpty(): boolean {
+    return this.room.players.size === 0;
+  }
+
+  // ── Lobby commands ─────────────────────────────────────────────────────────
+
+  /** Seat a new player. The first player to join an empty room is its host. */
+  join(playerId: string, username: string, avatar: Avatar): CommandResult<{ player: Player }> {
+    const { room } = this;
+    if (room.started) return fail('GAME_IN_PROGRESS');
+    if (room.players.size >= room.settings.maxPlayers) {
+      return fail('ROOM_FULL', `Room is full (max ${room.settings.maxPlayers} players).`);
+    }
+
+    const name = sanitizeUsername(username);
+    if (!name) return fail('INVALID_NAME');
+
+    if (this.isNameTaken(name)) return fail('NAME_TAKEN');
+
+    const isFirst = room.players.size === 0;
+    this.record({ type: 'player_joined', playerId, sessionId: uuidv4(), name, avatar });
+    const player = room.players.get(playerId)!;
+
+    this.emitRoomUpdate();
+    if (!isFirst) this.systemMessage(`${name} joined the room.`);
+    return { ok: true, player };
+  }
+
+  /**
+   * Admit a spectator — allowed in the lobby or mid-game if the host permits.
+   * They are sent a snapshot of the public state straight away.
+   */
+  spectate(spectatorId: string, username: string, avatar: Avatar): CommandResult<{ spectator: Spectator }> {
+    const { room } = this;
+    if (!room.settings.allowSpectators) return fail('SPECTATORS_DISABLED');
+    if (room.spectators.size >= MAX_SPECTATORS) {
+      return fail('ROOM_FULL', `Too many spectators (max ${MAX_SPECTATORS}).`);
+    }
+
+    const name = sanitizeUsername(username);
+    if (!name) return fail('INVALID_NAME');
+    if (this.isNameTaken(name)) return fail('NAME_TAKEN');
+
+    this.record({ type: 'spectator_joined', spectatorId, sessionId: uuidv4(), name, avatar });
+    const spectator = room.spectators.get(spectatorId)!;
+
+    this.emit('reconnected', toPlayer(spectatorId), buildSnapshot(room, spectatorId));
+    this.emitRoomUpdate();
+    this.systemMessage(`${name} is now watching.`);
+    return { ok: true, spectator };
+  }
+
+  /** Host-only: change lobby settings */
+  updateSettings(actorId: string, patch: Record<string, unknown>): CommandResult {
+    const { room } = this;
+    if (room.hostId !== actorId) return fail('NOT_HOST', 'Only the host can change settings.');
+    if (room.started) return fail('GAME_IN_PROGRESS', 'Settings are locked once the game starts.');
+    if (room.setup && ('minPlayers' in patch || 'maxPlayers' in patch)) {
+      return fail('INVALID_SETTINGS', 'Player limits follow the selected setup.');
+    }
+
+    const result = validateSettings(room.settings, patch, room.players.size);
+    if (!result.ok) return fail('INVALID_SETTINGS', result.error);
+
+    this.record({ type: 'settings_changed', settings: result.settings });
+    this.emitRoomUpdate();
+    return { ok: true };
+  }
+
+  /** Host-only: pick a preset by name, or null to return to auto-deal */
+  selectSetup(actorId: string, name: string | null): CommandResult {
+    const { room } = this;
+    if (room.hostId !== actorId) return fail('NOT_HOST', 'Only the host can change the setup.');
+    if (room.started) return fail('GAME_IN_PROGRESS', 'Setup is locked once the game starts.');
+
+    if (name === null) {
+      this.record({ type: 'setup_changed', setup: null, settings: settingsWithoutSetup(room.settings) });
+    } else {
+      const preset = typeof name === 'string' ? findPreset(name) : undefined;
+      if (!preset) return fail('INVALID_SETUP', 'Unknown setup.');
+      const next = settingsForSetup(room, preset);
+      if (!next.ok) return fail('INVALID_SETUP', next.error);
+      this.record({ type: 'setup_changed', setup: preset, settings: next.settings });
+    }
+
+    this.emitRoomUpdate();
+    return { ok: true };
+  }
+
+  /** Host-only: apply pasted setup JSON after validation */
+  importSetup(actorId: string, raw: unknown): CommandResult<{ name: string }> {
+    const { room } = this;
+    if (room.hostId !== actorId) return fail('NOT_HOST', 'Only the host can change the setup.');
+    if (room.started) return fail('GAME_IN_PROGRESS', 'Setup is locked once the game starts.');
+
+    const result = validateSetup(raw);
+    if (!result.ok) return fail('INVALID_SETUP', result.error);
+
+    const next = settingsForSetup(room, result.setup);
+    if (!next.ok) return fail('INVALID_SETUP', next.error);
+
+    this.record({ type: 'setup_changed', setup: result.setup, settings: next.settings });
+    this.emitRoomUpdate();
+    return { ok: true, name: result.setup.name };
+  }
+
+  /** Host-only: deal roles and schedule the first night */
+  start(actorId: string): CommandResult {
+    const { room } = this;
+    if (room.hostId !== actorId) return fail('NOT_HOST', 'Only the host can start.');
+    if (room.started) return fail('GAME_IN_PROGRESS', 'Game already started.');
+    if (room.players.size < room.settings.minPlayers) {
+      return fail('WRONG_PLAYER_COUNT', `Need at least ${room.settings.minPlayers} players to start.`);
+    }
+    if (room.setup && room.players.size !== room.setup.roles.length) {
+      return fail('WRONG_PLAYER_COUNT', `"${room.setup.name}" needs exactly ${room.setup.roles.length} players.`);
+    }
+
+    // Every random draw of this game (seats, tiebreaks, cutscenes, narration) comes from the seed
+    const seed = this.nextSeed() >>> 0;
+    this.rng = createRng(seed);
+    const playerIds = Array.from(room.players.keys());
+    const roleMap = assignRoles(playerIds, room.settings, room.setup?.roles, this.rng);
+    const lynchTargets = assignLynchTargets(roleMap, this.rng);
+    this.record({
+      type: 'roles_assigned',
+      seed,
+      roles: Object.fromEntries(roleMap),
+      lynchTargets: Object.fromEntries(lynchTargets),
+    });
+
+    // Mafia players learn their teammates; others get an empty array
+    const mafiaTeam = mafiaTeamView(room);
+
+    const players = toPublicPlayers(room);
+    for (const player of room.players.values()) {
+      this.emit('game_started', toPlayer(player.id), {
+        role: player.role,
+        mafiaTeam: factionOf(player.role) === 'mafia' ? mafiaTeam : [],
+        lynchTarget: lynchTargetView(room, player),
+        players,
+        phase: 'night',
+      });
+    }
+    // Spectators see the table, never the roles
+    this.emit('game_started', toSpectators, { role: null, mafiaTeam: [], lynchTarget: null, players, phase: 'night' });
+
+    this.schedule('start_night', START_COUNTDOWN_MS);
+    return { ok: true };
+  }
+
+  /** Host-only: reset an ended game back to the lobby (setup and settings are kept) */
+  playAgain(actorId: string): CommandResult {
+    const { room } = this;
+    if (room.hostId !== actorId) return fail('NOT_HOST', 'Only the host can restart.');
+    if (room.phase !== 'ended') return fail('WRONG_PHASE', 'Game is still in progress.');
+
+    this.record({ type: 'game_reset' });
+    // The finished game is over for good: keep only what rebuilds this lobby
+    room.log = compactLog(room, this.clock.now());
+    this.emit('room_reset', toRoom, { code: room.code, players: toPublicPlayers(room) });
+    this.emitRoomUpdate();
+    this.systemMessage('The host started a new round! Waiting for players...');
+    return { ok: true };
+  }
+
+  // ── In-game commands ───────────────────────────────────────────────────────
+
+  /**
+   * Submit a night ability; resolves the night early once everyone has acted.
+   * Shared (team) abilities can be changed until the night resolves.
+   */
+  nightAction(actorId: string, action: NightActionType, targetId: string): CommandResult {
+    const { room } = this;
+    if (room.phase !== 'night') return fail('WRONG_PHASE', 'Not night phase.');
+    // The phase stays 'night' through the cutscene; once resolved, actions are closed
+    if (room.pendingStep !== 'resolve_night') return fail('WRONG_PHASE', 'The night is already over.');
+
+    const player = room.players.get(actorId);
+    if (!player || !player.alive) return fail('NOT_ALIVE');
+    const shared = nightAbilityOf(player.role)?.shared ?? false;
+    if (room.nightActions.has(actorId) && !shared) return fail('ALREADY_ACTED');
+
+    const target = room.players.get(targetId);
+    if (!target) return fail('INVALID_TARGET');
+
+    // Role registry decides whether this actor may use this action on this target
+    const invalid = validateNightAction(player, action, target, room.settings.rules);
+    if (invalid) return { ok: false, error: invalid };
+
+    this.record({ type: 'night_action', entry: { actorId, action, targetId: target.id } });
+    if (shared) this.emitMafiaVotes();
+
+    if (allNightActionsSubmitted(room)) this.resolveNightPhase();
+    return { ok: true };
+  }
+
+  /** Cast (or change) a lynch vote; resolves early once every living player voted */
+  vote(voterId: string, targetId: string): CommandResult {
+    const { room } = this;
+    if (room.phase !== 'vote') return fail('WRONG_PHASE', 'Not voting phase.');
+
+    const voter = room.players.get(voterId);
+    if (!voter || !voter.alive || !ROLES[voter.role].day.canVote) return fail('ACTION_NOT_ALLOWED', 'You cannot vote.');
+
+    const target = room.players.get(targetId);
+    if (!target || !target.alive) return fail('INVALID_TARGET', 'Invalid vote target.');
+    if (targetId === voterId) return fail('INVALID_TARGET', 'Cannot vote for yourself.');
+
+    this.record({ type: 'vote_cast', voterId, targetId });
+    this.emitVoteTally();
+
+    if (room.votes.size >= getAlivePlayers(room).length) this.resolveVotePhase();
+    return { ok: true };
+  }
+
+  /** Host-only: end discussion and open the vote */
+  skipDiscussion(actorId: string): CommandResult {
+    const { room } = this;
+    if (room.hostId !== actorId) return fail('NOT_HOST', 'Only the host can skip discussion.');
+    if (room.phase !== 'day') return fail('WRONG_PHASE', 'Can only skip during discussion phase.');
+    if (!room.settings.rules.hostCanSkipDiscussion) {
+      return fail('ACTION_NOT_ALLOWED', 'Skipping discussion is disabled in this room.');
+    }
+
+    this.systemMessage('Host skipped discussion — voting begins now!');
+    this.startVotePhase();
+    return { ok: true };
+  }
+
+  /** Send a chat message to the room, or the mafia, spectator or graveyard channel */
+  chat(senderId: string, rawText: string, channel: ChatChannel): CommandResult {
+    const { room } = this;
+    const player = room.players.get(senderId);
+    const spectator = room.spectators.get(senderId);
+    const sender = player ?? spectator;
+    if (!sender) return fail('NOT_IN_ROOM');
+
+    if (spectator) {
+      // Spectators only talk among themselves and to the dead
+      if (channel !== 'spectator' && channel !== 'dead') {
+        return fail('ACTION_NOT_ALLOWED', 'Spectators can only use the spectator and graveyard chats.');
+      }
+    } else if (player) {
+      if (channel === 'spectator') return fail('ACTION_NOT_ALLOWED', 'Only spectators can use the spectator chat.');
+      if (channel === 'dead' && player.alive) return fail('ACTION_NOT_ALLOWED', 'Only the eliminated can use the graveyard chat.');
+
+      // Dead players can't speak in global
+      if (!player.alive && channel === 'global') return fail('ACTION_NOT_ALLOWED', 'Eliminated players cannot send messages.');
+
+      // Mafia chat: only if player is mafia and >1 mafia alive
+      if (channel === 'mafia') {
+        if (factionOf(player.role) !== 'mafia') return fail('ACTION_NOT_ALLOWED', 'Only mafia can use mafia chat.');
+        if (getAliveMafia(room).length <= 1) return fail('ACTION_NOT_ALLOWED', 'Mafia chat disabled (only 1 mafia left).');
+      }
+    }
+
+    // Rate-limit counters are transient — not part of the log
+    const now = this.clock.now();
+    if (now - sender.chatWindowStart > CHAT_WINDOW_MS) {
+      sender.chatCount = 0;
+      sender.chatWindowStart = now;
+    }
+    sender.chatCount++;
+    if (sender.chatCount > CHAT_MAX_MESSAGES) return fail('RATE_LIMITED', 'Slow down! (rate limit)');
+
+    const text = String(rawText ?? '').replace(/[<>]/g, '').trim().slice(0, 300);
+    if (!text) return { ok: true };
+
+    const msg: ChatMessage = { senderId, senderName: sender.name, text, channel, timestamp: now };
+    this.record({ type: 'chat', message: msg });
+    this.emit('chat', CHAT_AUDIENCE[channel], msg);
+    return { ok: true };
+  }
+
+  /** Write (or clear) the player's last will — any phase, while they are alive */
+  setWill(playerId: string, rawText: string): CommandResult {
+    const { room } = this;
+    if (!room.settings.rules.lastWills) return fail('ACTION_NOT_ALLOWED', 'Last wills are disabled in this room.');
+    const player = room.players.get(playerId);
+    if (!player) return fail('NOT_IN_ROOM');
+    if (!player.alive) return fail('NOT_ALIVE');
+
+    const text = rawText.replace(/[<>]/g, '').trim().slice(0, WILL_MAX_LENGTH);
+    if (text !== player.will) this.record({ type: 'will_written', playerId, text });
+    return { ok: true };
+  }
+
+  // ── Connection commands ────────────────────────────────────────────────────
+
+  /** Explicit leave — the player or spectator is removed immediately */
+  leave(playerId: string): CommandResult {
+    const spectator = this.room.spectators.get(playerId);
+    if (spectator) {
+      this.removeSpectator(spectator);
+      return { ok: true };
+    }
+
+    const player = this.room.players.get(playerId);
+    if (!player) return fail('NOT_IN_ROOM');
+
+    this.removePlayer(player);
+    if (this.isEmpty()) return { ok: true };
+
+    this.systemMessage(`${player.name} left the room.`);
+    this.emitRoomUpdate();
+    return { ok: true };
+  }
+
+  /**
+   * Unintentional disconnect — start a grace window. When it runs out, tick()
+   * drops the player from the lobby or eliminates them mid-game.
+   */
+  disconnect(playerId: string): CommandResult {
+    const { room } = this;
+    if (room.spectators.has(playerId)) {
+      // Spectators leave quietly; tick() drops them once the grace runs out
+      const reconnectDeadline = this.clock.now() + GAME_GRACE_MS;
+      this.record({ type: 'spectator_disconnected', spectatorId: playerId, reconnectDeadline });
+      this.emitRoomUpdate();
+      return { ok: true };
+    }
+
+    const player = room.players.get(playerId);
+    if (!player) return fail('NOT_IN_ROOM');
+
+    const graceMs = room.phase === 'lobby' ? LOBBY_GRACE_MS : GAME_GRACE_MS;
+    this.record({ type: 'player_disconnected', playerId, reconnectDeadline: this.clock.now() + graceMs });
+
+    // In the lobby we stay silent — avoids alarming others over a navigation blip
+    if (room.phase !== 'lobby') {
+      this.systemMessage(`${player.name} disconnected. ${graceMs / 1000}s to reconnect...`);
+      this.emitRoomUpdate();
+    }
+    return { ok: true };
+  }
+
+  /** Move a returning session (player or spectator) onto a new id (socket) */
+  reconnect(sessionId: string, newId: string): CommandResult<{ player: Player | Spectator; oldId: string }> {
+    const { room } = this;
+    const seated = Array.from(room.players.values()).find((p) => p.sessionId === sessionId);
+    const player = seated ?? Array.from(room.spectators.values()).find((s) => s.sessionId === sessionId);
+    if (!player) return fail('SESSION_NOT_FOUND');
+    if (player.reconnectDeadline !== null && this.clock.now() > player.reconnectDeadline) {
+      return fail('RECONNECT_EXPIRED');
+    }
+
+    const oldId = player.id;
+    this.record({ type: seated ? 'player_reconnected' : 'spectator_reconnected', oldId, newId });
+
+    this.emit('reconnected', toPlayer(newId), buildSnapshot(room, newId));
+    this.emitRoomUpdate();
+    return { ok: true, player, oldId };
+  }
+
+  /**
+   * After a restore every socket is gone: start each player's reconnect grace,
+   * and push any phase deadline that passed during the downtime past it so
+   * players can return before the phase resolves.
+   */
+  resumeAfterRestart(): void {
+    const { room } = this;
+    const resumeBy = this.clock.now() + (room.phase === 'lobby' ? LOBBY_GRACE_MS : GAME_GRACE_MS);
+
+    for (const player of room.players.values()) {
+      // Connected players, plus anyone whose grace would lapse during the downtime
+      const waiting = player.connected || (player.reconnectDeadline !== null && player.reconnectDeadline < resumeBy);
+      if (!waiting) continue;
+      this.record({ type: 'player_disconnected', playerId: player.id, reconnectDeadline: resumeBy });
+    }
+    for (const spectator of room.spectators.values()) {
+      if (!spectator.connected) continue;
+      this.record({ type: 'spectator_disconnected', spectatorId: spectator.id, reconnectDeadline: resumeBy });
+    }
+    if (room.pendingStep !== null && room.deadline !== null && room.deadline < resumeBy) {
+      this.record({ type: 'step_scheduled', step: room.pendingStep, deadline: resumeBy });
+    }
+    this.systemMessage('The server restarted. Waiting for everyone to reconnect...');
+  }
+
+  // ── Time ───────────────────────────────────────────────────────────────────
+
+  /** Run every phase step and reconnect grace expiry that is due */
+  tick(): void {
+    this.expireGracePeriods();
+    while (
+      this.room.pendingStep !== null &&
+      this.room.deadline !== null &&
+      this.room.deadline <= this.clock.now()
+    ) {
+      const step = this.room.pendingStep;
+      this.clearSchedule();
+      this.runStep(step);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Phase state machine
+  // ---------------------------------------------------------------------------
+
+  private runStep(step: PhaseStep): void {
+    switch (step) {
+      case 'start_night': return this.startNightPhase();
+      case 'resolve_night': return this.resolveNightPhase();
+      case 'start_day': return this.startDayPhase();
+      case 'start_vote': return this.startVotePhase();
+      case 'resolve_vote': return this.resolveVotePhase();
+    }
+  }
+
+  /** Start the night phase */
+  private startNightPhase(): void {
+    const { room } = this;
+    this.record({ type: 'phase_changed', phase: 'night', round: room.round + 1 });
+
+    this.schedule('resolve_night', room.settings.nightDurationMs);
+    this.emit('phase_changed', toRoom, {
+      phase: 'night',
+      round: room.round,
+      endsAt: room.deadline,
+    });
+    this.systemMessage(`Night ${room.round} begins. The city goes dark...`);
+    this.emitMafiaVotes();
+  }
+
+  /** Resolve the night – apply kills/saves, emit narrate + cutscene, then dawn or game over */
+  private resolveNightPhase(): void {
+    const { room } = this;
+    if (room.phase !== 'night') return;
+    this.clearSchedule();
+
+    const result = resolveNight(room, this.rng);
+    const attacks = result.attacks.map((a) => ({ ...a, target: room.players.get(a.targetId)! }));
+    const victims = attacks.filter((a) => !a.saved).map((a) => a.target);
+    // The narrator names the dead, or the spared when nobody died
+    const named = victims.length > 0 ? victims : attacks.map((a) => a.target);
+    const reveals = victims.map((v) => this.revealText(v)).filter((r): r is string => r !== null);
+    const narration = getNarratorText(result.outcome, named.map((p) => p.name), this.rng, reveals);
+    this.record({
+      type: 'night_resolved',
+      attacks: result.attacks.map(({ targetId, saved }) => ({ targetId, saved })),
+      investigations: result.investigations,
+      blockedIds: result.blockedIds,
+      visitReports: result.visitReports,
+      outcome: result.outcome,
+      narration,
+    });
+
+    for (const blockedId of result.blockedIds) {
+      this.emit('roleblocked', toPlayer(blockedId), { round: room.round });
+    }
+
+    // Investigators and observers learn their results only now, once every action has landed
+    for (const { actorId, targetId, isMafia } of result.investigations) {
+      this.emit('detective_result', toPlayer(actorId), detectiveResultView(room, targetId, isMafia));
+    }
+    for (const report of result.visitReports) {
+      this.emit('visit_report', toPlayer(report.actorId), visitReportView(room, room.round, report));
+    }
+
+    for (const victim of victims) {
+      this.record({ type: 'player_eliminated', playerId: victim.id, cause: 'night_kill' });
+      this.emit('player_eliminated', toRoom, {
+        playerId: victim.id,
+        playerName: victim.name,
+        cause: 'night_kill',
+        will: revealedWill(room, victim),
+        ...revealedIdentity(room, victim),
+      });
+      this.publishWill(victim);
+    }
+
+    // One cutscene per attack; clients play them back to back
+    for (const { cutsceneVariant, target, saved } of attacks) {
+      const cutscene: CutscenePayload = {
+        variant: cutsceneVariant,
+        victimId: target.id,
+        victimName: target.name,
+        victimAvatar: target.avatar,
+        saved,
+      };
+      this.emit('cutscene', toRoom, cutscene);
+    }
+
+    this.emit('narrate', toRoom, { text: narration, outcome: result.outcome });
+
+    const winner = checkWinCondition(room);
+    if (winner) return this.endGame(winner);
+
+    // Let the cutscenes play before dawn
+    this.schedule('start_day', attacks.length > 0 ? CUTSCENE_DELAY_MS * attacks.length : QUIET_DAWN_DELAY_MS);
+  }
+
+  /** Start the day discussion phase */
+  private startDayPhase(): void {
+    const { room } = this;
+    this.record({ type: 'phase_changed', phase: 'day', round: room.round });
+
+    this.schedule('start_vote', room.settings.dayDurationMs);
+    this.emit('phase_changed', toRoom, {
+      phase: 'day',
+      round: room.round,
+      endsAt: room.deadline,
+    });
+    this.systemMessage('Dawn breaks. Discuss and find the traitors among you.');
+  }
+
+  /** Start the voting sub-phase */
+  private startVotePhase(): void {
+    const { room } = this;
+    this.record({ type: 'phase_changed', phase: 'vote', round: room.round });
+
+    this.schedule('resolve_vote', room.settings.voteDurationMs);
+    this.emit('phase_changed', toRoom, {
+      phase: 'vote',
+      round: room.round,
+      endsAt: room.deadline,
+    });
+    this.systemMessage('Vote now! The player with the most votes will be eliminated.');
+    this.emitVoteTally();
+  }
+
+  /** Resolve the day vote – lynch the top candidate, then game over or next night */
+  private resolveVotePhase(): void {
+    const { room } = this;
+    if (room.phase !== 'vote') return;
+    this.clearSchedule();
+
+    const result = resolveDayVote(room);
+    const lynched = result.lynchedPlayerId ? room.players.get(result.lynchedPlayerId) : undefined;
+
+    if (lynched) {
+      this.record({ type: 'player_eliminated', playerId: lynched.id, cause: 'lynch' });
+      this.emit('player_eliminated', toRoom, {
+        playerId: lynched.id,
+        playerName: lynched.name,
+        cause: 'lynch',
+        will: revealedWill(room, lynched),
+        ...revealedIdentity(room, lynched),
+      });
+      this.systemMessage(this.withReveal(`${lynched.name} has been eliminated by vote.`, lynched));
+      this.publishWill(lynched);
+      this.creditSoloWins(lynched);
+    } else {
+      this.systemMessage('No majority reached. No one is eliminated today.');
+    }
+
+    this.emitRoomUpdate();
+
+    const winner = checkWinCondition(room);
+    if (winner) return this.endGame(winner);
+
+    this.schedule('start_night', NEXT_NIGHT_DELAY_MS);
+  }
+
+  /** End the game and reveal every role */
+  private endGame(winner: Faction): void {
+    const { room } = this;
+    this.record({ type: 'game_ended', winner });
+
+    this.emit('game_ended', toRoom, gameEndView(room, winner));
+    this.systemMessage(WIN_MESSAGES[winner]);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  /** Drop or eliminate disconnected players (and drop spectators) whose grace window has run out */
+  private expireGracePeriods(): void {
+    const { room } = this;
+    const now = this.clock.now();
+
+    for (const spectator of Array.from(room.spectators.values())) {
+      if (spectator.connected || spectator.reconnectDeadline === null || spectator.reconnectDeadline > now) {
+        continue;
+      }
+      this.removeSpectator(spectator);
+    }
+
+    for (const player of Array.from(room.players.values())) {
+      if (player.connected || player.reconnectDeadline === null || player.reconnectDeadline > now) {
+        continue;
+      }
+      if (room.phase === 'lobby') {
+        this.removePlayer(player);
+        if (this.isEmpty()) return;
+        this.systemMessage(`${player.name} left the lobby.`);
+        this.emitRoomUpdate();
+        continue;
+      }
+
+      // Mid-game: treat as eliminated
+      this.record({ type: 'player_eliminated', playerId: player.id, cause: 'disconnect' });
+      this.systemMessage(this.withReveal(`${player.name} failed to reconnect.`, player));
+      this.publishWill(player);
+      this.emitRoomUpdate();
+
+      if (room.phase !== 'ended') {
+        const winner = checkWinCondition(room);
+        if (winner) this.endGame(winner);
+      }
+    }
+  }
+
+  /** Remove a player from the room, handing host to the next player if needed */
+  private removePlayer(player: Player): void {
+    const { room } = this;
+    this.record({ type: 'player_removed', playerId: player.id });
+    this.emit('player_removed', toServer, { playerId: player.id, sessionId: player.sessionId });
+
+    if (room.hostId === player.id && room.players.size > 0) {
+      this.record({ type: 'host_changed', hostId: room.players.keys().next().value as string });
+      this.systemMessage(`${room.players.get(room.hostId)?.name} is now the host.`);
+    }
+  }
+
+  /** Remove a spectator from the room */
+  private removeSpectator(spectator: Spectator): void {
+    this.record({ type: 'spectator_removed', spectatorId: spectator.id });
+    this.emit('player_removed', toServer, { playerId: spectator.id, sessionId: spectator.sessionId });
+    this.emitRoomUpdate();
+  }
+
+  /** Whether a player or spectator already goes by `name` (case-insensitive) */
+  private isNameTaken(name: string): boolean {
+    const { room } = this;
+    return [...room.players.values(), ...room.spectators.values()].some(
+      (p) => p.name.toLowerCase() === name.toLowerCase()
+    );
+  }
+
+  /** Append a state change to the room log and apply it */
+  private record(event: GameLogEvent): void {
+    appendLogEntry(this.room, this.clock.now(), event);
+  }
+
+  private schedule(step: PhaseStep, delayMs: number): void {
+    this.record({ type: 'step_scheduled', step, deadline: this.clock.now() + delayMs });
+  }
+
+  private clearSchedule(): void {
+    if (this.room.pendingStep === null) return;
+    this.record({ type: 'step_scheduled', step: null, deadline: null });
+  }
+
+  private emit<K extends EngineEventType>(type: K, audience: Audience, payload: EngineEventMap[K]): void {
+    this.events.push({ type, audience, payload } as EngineEvent);
+  }
+
+  private emitRoomUpdate(): void {
+    const { room } = this;
+    const payload: RoomUpdatePayload = {
+      code: room.code,
+      phase: room.phase,
+      round: room.round,
+      players: toPublicPlayers(room),
+      spectators: toPublicSpectators(room),
+      started: room.started,
+      settings: room.settings,
+      setup: describeSetup(room),
+      setupFixed: room.setup !== null,
+    };
+    this.emit('room_updated', toRoom, payload);
+  }
+
+  private emitVoteTally(): void {
+    this.emit('vote_updated', toRoom, voteTallyView(this.room));
+  }
+
+  /** Stream the kill team's current picks to the mafia */
+  private emitMafiaVotes(): void {
+    this.emit('mafia_votes_updated', toFaction('mafia'), mafiaVotesView(this.room));
+  }
+
+  /** The line identifying an eliminated player under the roleReveal rule (null = nothing revealed) */
+  private revealText(player: Player): string | null {
+    const { role, faction } = identityToReveal(this.room.settings.rules, player.role);
+    return getRevealText(player.name, role, faction);
+  }
+
+  /** `text` followed by the player's identification, if the room reveals one */
+  private withReveal(text: string, player: Player): string {
+    const reveal = this.revealText(player);
+    return reveal ? `${text} ${reveal}` : text;
+  }
+
+  /** Record and announce every neutral whose own goal this lynch fulfils (the game goes on) */
+  private creditSoloWins(lynched: Player): void {
+    for (const winner of soloWinnersOfLynch(this.room, lynched)) {
+      this.record({ type: 'solo_won', playerId: winner.id });
+      this.systemMessage(
+        winner.role === 'jester'
+          ? `🃏 ${winner.name} wanted the noose all along. The Jester has the last laugh!`
+          : `⚖️ ${lynched.name} was an Executioner's mark. Somebody at this table just got what they came for.`
+      );
+    }
+  }
+
+  /** Read out an eliminated player's last will, if they left one */
+  private publishWill(player: Player): void {
+    const will = revealedWill(this.room, player);
+    if (will) this.systemMessage(`📜 ${player.name}'s last will: ${will}`);
+  }
+
+  /** Announce to the room; logged so reconnecting players get it in their history */
+  private systemMessage(text: string): void {
+    const msg: ChatMessage = {
+      senderId: 'system',
+      senderName: 'System',
+      text,
+      channel: 'global',
+      timestamp: this.clock.now(),
+    };
+    this.record({ type: 'chat', message: msg });
+    this.emit('chat', toRoom, msg);
+  }
+}
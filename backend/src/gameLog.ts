@@ -0,0 +1,385 @@
+// =============================================================================
+// gameLog.ts – Event-sourced room log for Who Lies Tonight (WLT)
+// Every state change the GameEngine makes is appended to `room.log` as an
+// entry and applied through `applyLogEntry` — the only reducer for room state.
+// Folding a room's log from its first entry (`replayLog`) rebuilds the room,
+// which is what replays, audits and crash recovery build on. Resetting a game
+// compacts the log down to the lobby, so it only ever spans the current game.
+// =============================================================================
+
+import type {
+  Avatar,
+  ChatMessage,
+  EliminationCause,
+  GameSetup,
+  NightActionEntry,
+  NightOutcome,
+  Phase,
+  PhaseStep,
+  Room,
+  RoomSettings,
+  VisitReportAction,
+} from './gameState.js';
+import type { Faction, Role } from './roles.js';
+import { createPlayer } from './gameLogic.js';
+import { DEFAULT_SETTINGS, DEFAULT_RULES } from './settings.js';
+
+/** State-changing events, discriminated by `type` */
+export type GameLogEvent =
+  | { type: 'room_created'; code: string; hostId: string; settings: RoomSettings }
+  | { type: 'player_joined'; playerId: string; sessionId: string; name: string; avatar: Avatar }
+  | { type: 'player_removed'; playerId: string }
+  | { type: 'host_changed'; hostId: string }
+  | { type: 'player_disconnected'; playerId: string; reconnectDeadline: number }
+  | { type: 'player_reconnected'; oldId: string; newId: string }
+  | { type: 'spectator_joined'; spectatorId: string; sessionId: string; name: string; avatar: Avatar }
+  | { type: 'spectator_removed'; spectatorId: string }
+  | { type: 'spectator_disconnected'; spectatorId: string; reconnectDeadline: number }
+  | { type: 'spectator_reconnected'; oldId: string; newId: string }
+  | { type: 'settings_changed'; settings: RoomSettings }
+  | { type: 'setup_changed'; setup: GameSetup | null; settings: RoomSettings }
+  /** Roles dealt at start, with the seed every random draw of the game derives from */
+  | { type: 'roles_assigned'; seed: number; roles: Record<string, Role>; lynchTargets: Record<string, string> }
+  | { type: 'phase_changed'; phase: Phase; round: number }
+  | { type: 'step_scheduled'; step: PhaseStep | null; deadline: number | null }
+  | { type: 'night_action'; entry: NightActionEntry }
+  /** Outcome of the night's attacks, recorded before any elimination they cause */
+  | {
+      type: 'night_resolved';
+      attacks: Array<{ targetId: string; saved: boolean }>;
+      /** What each investigator was told (private; replayed into their snapshot) */
+      investigations: Array<{ actorId: string; targetId: string; isMafia: boolean }>;
+      /** Players roleblocked that night (each is told privately) */
+      blockedIds: string[];
+      /** What each lookout and tracker saw (private; replayed into their snapshot) */
+      visitReports: Array<{ actorId: string; action: VisitReportAction; targetId: string; seenIds: string[] }>;
+      outcome: NightOutcome;
+      narration: string;
+    }
+  | { type: 'vote_cast'; voterId: string; targetId: string }
+  | { type: 'player_eliminated'; playerId: string; cause: EliminationCause }
+  | { type: 'will_written'; playerId: string; text: string }
+  /** A neutral reached their own goal (the game goes on; credited at the end) */
+  | { type: 'solo_won'; playerId: string }
+  /** Player and system chat lines (history for reconnecting players) */
+  | { type: 'chat'; message: ChatMessage }
+  | { type: 'game_ended'; winner: Faction }
+  | { type: 'game_reset' };
+
+/** A logged event: position in the log + epoch ms it happened at */
+export type GameLogEntry = { seq: number; at: number } & GameLogEvent;
+
+// ---------------------------------------------------------------------------
+// Reducer
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply one log entry to a room. This is the only place room state changes;
+ * the engine appends an entry and calls this, replay calls it for every entry.
+ * (Chat rate-limit counters are transient and deliberately not logged.)
+ */
+export function applyLogEntry(room: Room, entry: GameLogEntry): void {
+  room.lastActivity = entry.at;
+
+  switch (entry.type) {
+    case 'room_created':
+      room.code = entry.code;
+      room.hostId = entry.hostId;
+      room.settings = entry.settings;
+      return;
+
+    case 'player_joined': {
+      const player = createPlayer(entry.playerId, entry.name, entry.avatar, entry.at);
+      player.sessionId = entry.sessionId;
+      room.players.set(entry.playerId, player);
+      return;
+    }
+
+    case 'player_removed':
+      room.players.delete(entry.playerId);
+      return;
+
+    case 'host_changed':
+      room.hostId = entry.hostId;
+      return;
+
+    case 'player_disconnected': {
+      const player = room.players.get(entry.playerId);
+      if (!player) return;
+      player.connected = false;
+      player.disconnectedAt = entry.at;
+      player.reconnectDeadline = entry.reconnectDeadline;
+      return;
+    }
+
+    case 'player_reconnected':
+      rekeyPlayer(room, entry.oldId, entry.newId);
+      return;
+
+    case 'spectator_joined':
+      room.spectators.set(entry.spectatorId, {
+        id: entry.spectatorId,
+        sessionId: entry.sessionId,
+        name: entry.name,
+        avatar: entry.avatar,
+        connected: true,
+        reconnectDeadline: null,
+        chatCount: 0,
+        chatWindowStart: entry.at,
+      });
+      return;
+
+    case 'spectator_removed':
+      room.spectators.delete(entry.spectatorId);
+      return;
+
+    case 'spectator_disconnected': {
+      const spectator = room.spectators.get(entry.spectatorId);
+      if (!spectator) return;
+      spectator.connected = false;
+      spectator.reconnectDeadline = entry.reconnectDeadline;
+      return;
+    }
+
+    case 'spectator_reconnected': {
+      const spectator = room.spectators.get(entry.oldId);
+      if (!spectator) return;
+      room.spectators.delete(entry.oldId);
+      spectator.id = entry.newId;
+      spectator.connected = true;
+      spectator.reconnectDeadline = null;
+      room.spectators.set(entry.newId, spectator);
+      return;
+    }
+
+    case 'settings_changed':
+      room.settings = entry.settings;
+      return;
+
+    case 'setup_changed':
+      room.setup = entry.setup;
+      room.settings = entry.settings;
+      return;
+
+    case 'roles_assigned':
+      room.started = true;
+      room.gameStartedAt = new Date(entry.at).toISOString();
+      room.seed = entry.seed;
+      for (const [id, role] of Object.entries(entry.roles)) {
+        const player = room.players.get(id);
+        if (player) player.role = role;
+      }
+      for (const [id, targetId] of Object.entries(entry.lynchTargets)) {
+        const player = room.players.get(id);
+        if (player) player.lynchTarget = targetId;
+      }
+      return;
+
+    case 'phase_changed':
+      room.phase = entry.phase;
+      room.round = entry.round;
+      if (entry.phase === 'night') room.nightActions = new Map();
+      if (entry.phase === 'day') room.votes = new Map();
+      return;
+
+    case 'step_scheduled':
+      room.pendingStep = entry.step;
+      room.deadline = entry.deadline;
+      return;
+
+    case 'night_action':
+      room.nightActions.set(entry.entry.actorId, entry.entry);
+      return;
+
+    case 'night_resolved':
+      return;
+
+    case 'vote_cast':
+      room.votes.set(entry.voterId, entry.targetId);
+      return;
+
+    case 'player_eliminated': {
+      const player = room.players.get(entry.playerId);
+      if (!player) return;
+      player.alive = false;
+      if (entry.cause === 'disconnect') player.reconnectDeadline = null;
+      return;
+    }
+
+    case 'will_written': {
+      const player = room.players.get(entry.playerId);
+      if (player) player.will = entry.text;
+      return;
+    }
+
+    case 'solo_won': {
+      const player = room.players.get(entry.playerId);
+      if (player) player.soloWon = true;
+      return;
+    }
+
+    case 'chat':
+      return;
+
+    case 'game_ended':
+      room.phase = 'ended';
+      room.pendingStep = null;
+      room.deadline = null;
+      return;
+
+    case 'game_reset':
+      room.phase = 'lobby';
+      room.round = 0;
+      room.started = false;
+      room.nightActions = new Map();
+      room.votes = new Map();
+      room.gameStartedAt = undefined;
+      room.seed = null;
+      room.pendingStep = null;
+      room.deadline = null;
+      for (const player of room.players.values()) {
+        player.alive = true;
+        player.role = 'citizen'; // Reset role — will be reassigned on next start
+        player.connected = true;
+        player.disconnectedAt = null;
+        player.reconnectDeadline = null;
+        player.chatCount = 0;
+        player.chatWindowStart = entry.at;
+        player.will = '';
+        player.lynchTarget = null;
+        player.soloWon = false;
+      }
+      return;
+  }
+}
+
+/** Move a player (and everything keyed by their id) to a new id */
+function rekeyPlayer(room: Room, oldId: string, newId: string): void {
+  const player = room.players.get(oldId);
+  if (!player) return;
+
+  room.players.delete(oldId);
+  player.id = newId;
+  player.connected = true;
+  player.disconnectedAt = null;
+  player.reconnectDeadline = null;
+  room.players.set(newId, player);
+  if (room.hostId === oldId) room.hostId = newId;
+  for (const other of room.players.values()) {
+    if (other.lynchTarget === oldId) other.lynchTarget = newId;
+  }
+
+  const action = room.nightActions.get(oldId);
+  if (action) {
+    room.nightActions.delete(oldId);
+    room.nightActions.set(newId, { ...action, actorId: newId });
+  }
+  for (const [actorId, entry] of room.nightActions) {
+    if (entry.targetId === oldId) room.nightActions.set(actorId, { ...entry, targetId: newId });
+  }
+
+  const votes = new Map<string, string>();
+  for (const [voterId, targetId] of room.votes) {
+    votes.set(voterId === oldId ? newId : voterId, targetId === oldId ? newId : targetId);
+  }
+  room.votes = votes;
+}
+
+// ---------------------------------------------------------------------------
+// Building rooms
+// ---------------------------------------------------------------------------
+
+/** An empty lobby room; `room_created` fills in the rest */
+export function blankRoom(code: string, hostId: string): Room {
+  return {
+    code,
+    hostId,
+    players: new Map(),
+    spectators: new Map(),
+    phase: 'lobby',
+    round: 0,
+    nightActions: new Map(),
+    votes: new Map(),
+    pendingStep: null,
+    deadline: null,
+    lastActivity: 0,
+    started: false,
+    settings: { ...DEFAULT_SETTINGS, rules: { ...DEFAULT_RULES } },
+    setup: null,
+    seed: null,
+    log: [],
+  };
+}
+
+/** Seq of the room's next log entry; keeps counting up when the log is compacted */
+export function nextSeq(room: Room): number {
+  return (room.log.at(-1)?.seq ?? -1) + 1;
+}
+
+/** Append an event to the room's log and apply it */
+export function appendLogEntry(room: Room, at: number, event: GameLogEvent): GameLogEntry {
+  const entry = { ...event, seq: nextSeq(room), at } as GameLogEntry;
+  room.log.push(entry);
+  applyLogEntry(room, entry);
+  return entry;
+}
+
+/**
+ * Map any player ID seen in the log to that player's latest ID.
+ * Reconnects move a player onto a new socket ID; entries keep the old one.
+ */
+export function latestIdResolver(entries: readonly GameLogEntry[]): (id: string) => string {
+  const renamed = new Map<string, string>();
+  for (const entry of entries) {
+    if (entry.type === 'player_reconnected' || entry.type === 'spectator_reconnected') {
+      renamed.set(entry.oldId, entry.newId);
+    }
+  }
+  return (id) => {
+    let next = id;
+    while (renamed.has(next)) next = renamed.get(next)!;
+    return next;
+  };
+}
+
+/**
+ * The shortest log that rebuilds a lobby: the room, its seats, spectators and
+ * setup as they are now, with seqs continuing from the current log. Called once
+ * a game is reset so a room's log never outgrows the game being played.
+ */
+export function compactLog(room: Room, at: number): GameLogEntry[] {
+  if (room.started) throw new Error('Only a lobby log can be compacted.');
+
+  const events: GameLogEvent[] = [{ type: 'room_created', code: room.code, hostId: room.hostId, settings: room.settings }];
+  for (const p of room.players.values()) {
+    events.push({ type: 'player_joined', playerId: p.id, sessionId: p.sessionId, name: p.name, avatar: p.avatar });
+  }
+  for (const s of room.spectators.values()) {
+    events.push({ type: 'spectator_joined', spectatorId: s.id, sessionId: s.sessionId, name: s.name, avatar: s.avatar });
+    if (!s.connected && s.reconnectDeadline !== null) {
+      events.push({ type: 'spectator_disconnected', spectatorId: s.id, reconnectDeadline: s.reconnectDeadline });
+    }
+  }
+  if (room.setup) events.push({ type: 'setup_changed', setup: room.setup, settings: room.settings });
+
+  const first = nextSeq(room);
+  return events.map((event, i) => ({ ...event, seq: first + i, at }) as GameLogEntry);
+}
+
+/**
+ * Rebuild a room by folding its log from the beginning.
+ * The log must start with `room_created`.
+ */
+export function replayLog(entries: readonly GameLogEntry[]): Room {
+  const first = entries[0];
+  if (!first || first.type !== 'room_created') {
+    throw new Error('Game log must start with room_created.');
+  }
+
+  const room = blankRoom(first.code, first.hostId);
+  for (const entry of entries) {
+    room.log.push(entry);
+    applyLogEntry(room, entry);
+  }
+  return room;
+}
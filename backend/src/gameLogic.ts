@@ -4,144 +4,428 @@
 // =============================================================================
 
 import { v4 as uuidv4 } from 'uuid';
-import type { Room, Player, Role, Avatar, CutsceneVariant } from './gameState.js';
-
-/** Minimum players required to start (host-configurable, min 4) */
-export const MIN_PLAYERS = 4;
-/** Maximum players allowed in a room */
-export const MAX_PLAYERS = 12;
-/** Night phase duration in milliseconds */
-export const NIGHT_DURATION_MS = 60_000;
-/** Day discussion phase duration in milliseconds */
-export const DAY_DISCUSS_MS = 90_000;
-/** Day voting phase duration in milliseconds */
-export const VOTE_DURATION_MS = 30_000;
+import type {
+  Room,
+  Player,
+  Avatar,
+  PublicPlayer,
+  PublicSpectator,
+  CutsceneVariant,
+  RoomSettings,
+  RoomRules,
+  NightActionEntry,
+  NightOutcome,
+  ErrorPayload,
+  VisitReportAction,
+} from './gameState.js';
+import {
+  ROLES,
+  ROLE_IDS,
+  FILLER_ROLE,
+  NO_WINNER,
+  WIN_CHECK_ORDER,
+  factionOf,
+  nightAbilityOf,
+  type Role,
+  type Faction,
+  type NightAbility,
+  type NightActionType,
+  type WinContext,
+} from './roles.js';
+import { pick, randomIndex, shuffle, type Rng } from './rng.js';
 
 // ---------------------------------------------------------------------------
 // Role assignment
 // ---------------------------------------------------------------------------
 
+/**
+ * Build the auto-deal role list for a player count.
+ * Each registered role with a `count` rule is dealt first (in ROLE_IDS order),
+ * then everyone left over receives the filler role (citizen).
+ */
+export function buildRoleList(playerCount: number, settings: RoomSettings): Role[] {
+  const roles: Role[] = [];
+  for (const role of ROLE_IDS) {
+    const count = ROLES[role].count?.(playerCount, settings) ?? 0;
+    for (let i = 0; i < count && roles.length < playerCount; i++) roles.push(role);
+  }
+  while (roles.length < playerCount) roles.push(FILLER_ROLE);
+  return roles;
+}
+
 /**
  * Assign roles to all players in the room.
- * Mafia = ~33% (min 1), Doctor = always 1, Detective = only if >4 players,
- * remainder = citizens.
+ * Uses the fixed setup role list when one is given (its length must match the
+ * player count), otherwise the auto-deal from buildRoleList.
  *
  * @param players - Array of player socket IDs to assign roles to
+ * @param settings - Room settings (mafia ratio)
+ * @param fixedRoles - Exact role list from a selected setup, if any
+ * @param rng - the game's seeded random source, used to shuffle seats
  * @returns Map of socketId → Role
  */
-export function assignRoles(playerIds: string[]): Map<string, Role> {
-  const n = playerIds.length;
-  const shuffled = [...playerIds].sort(() => Math.random() - 0.5);
+export function assignRoles(
+  playerIds: string[],
+  settings: RoomSettings,
+  fixedRoles: Role[] | undefined,
+  rng: Rng
+): Map<string, Role> {
+  const shuffled = shuffle(rng, playerIds);
+  const roles = fixedRoles ?? buildRoleList(playerIds.length, settings);
   const roleMap = new Map<string, Role>();
 
-  // Calculate mafia count: 33% rounded down, min 1
-  const mafiaCount = Math.max(1, Math.floor(n * 0.33));
-  // Detective only when player count > 4
-  const hasDetective = n > 4;
-  // Doctor always present
-  const hasDoctor = true;
+  shuffled.forEach((id, i) => roleMap.set(id, roles[i] ?? FILLER_ROLE));
 
-  let idx = 0;
+  return roleMap;
+}
 
-  // Assign mafia
-  for (let i = 0; i < mafiaCount; i++) {
-    roleMap.set(shuffled[idx++], 'mafia');
+/**
+ * Deal every role with a `lynchTargetFaction` (executioner) a random other
+ * player from that faction. Roles with no possible target get none.
+ * @returns Map of socketId → target socketId
+ */
+export function assignLynchTargets(roleMap: Map<string, Role>, rng: Rng): Map<string, string> {
+  const targets = new Map<string, string>();
+  for (const [id, role] of roleMap) {
+    const faction = ROLES[role].lynchTargetFaction;
+    if (!faction) continue;
+    const candidates = Array.from(roleMap)
+      .filter(([otherId, otherRole]) => otherId !== id && factionOf(otherRole) === faction)
+      .map(([otherId]) => otherId);
+    if (candidates.length > 0) targets.set(id, pick(rng, candidates));
   }
+  return targets;
+}
+
+// ---------------------------------------------------------------------------
+// Night actions
+// ---------------------------------------------------------------------------
 
-  // Assign doctor
-  if (hasDoctor && idx < n) {
-    roleMap.set(shuffled[idx++], 'doctor');
+/**
+ * Validate a night action against the actor's role definition and room rules.
+ * Returns the error to report, or null if the action is allowed.
+ */
+export function validateNightAction(
+  actor: Player,
+  action: NightActionType,
+  target: Player,
+  rules: RoomRules
+): ErrorPayload | null {
+  const ability = nightAbilityOf(actor.role);
+  if (!ability || ability.action !== action) {
+    return { code: 'ACTION_NOT_ALLOWED', message: 'Your role cannot do that tonight.' };
+  }
+  if (!target.alive) return { code: 'INVALID_TARGET', message: 'Invalid target.' };
+  const allowSelf = ability.targets.allowSelf && rules.selfTargeting;
+  if (!allowSelf && target.id === actor.id) return { code: 'INVALID_TARGET', message: 'Cannot target yourself.' };
+  if (
+    !ability.targets.allowTeammates &&
+    target.id !== actor.id &&
+    factionOf(target.role) === factionOf(actor.role)
+  ) {
+    return { code: 'INVALID_TARGET', message: 'Cannot target a teammate.' };
   }
+  return null;
+}
+
+/** Mutable state threaded through the night resolver */
+interface NightContext {
+  room: Room;
+  rng: Rng;
+  /** Player IDs shielded from kills this night */
+  protectedIds: Set<string>;
+  /** Player IDs made to look guilty to tonight's investigations */
+  framedIds: Set<string>;
+  /** Player IDs whose later actions tonight are cancelled */
+  blockedIds: Set<string>;
+  result: NightResolutionResult;
+}
+
+/** Per-action behaviour plugged into the night resolver */
+interface NightActionHandler {
+  /** Apply every submitted entry of one role's ability during resolution */
+  resolve: (ctx: NightContext, entries: NightActionEntry[], ability: NightAbility) => void;
+  /** Gather information once every action has resolved and every visit is known (optional) */
+  report?: (ctx: NightContext, entries: NightActionEntry[]) => void;
+}
 
-  // Assign detective (only if >4 players)
-  if (hasDetective && idx < n) {
-    roleMap.set(shuffled[idx++], 'detective');
+/** Record an attack on a player; protection makes it a save. Nobody is attacked twice in a night. */
+function attack(ctx: NightContext, targetId: string): void {
+  if (ctx.result.attacks.some((a) => a.targetId === targetId)) return;
+  const target = ctx.room.players.get(targetId);
+  // Target already dead (edge case) – no attack
+  if (!target || !target.alive) return;
+  ctx.result.attacks.push({
+    targetId,
+    saved: ctx.protectedIds.has(targetId),
+    cutsceneVariant: randomCutscene(ctx.rng),
+  });
+}
+
+const NIGHT_ACTION_HANDLERS: Record<NightActionType, NightActionHandler> = {
+  block: {
+    resolve: (ctx, entries) => {
+      for (const { targetId } of entries) {
+        if (ctx.blockedIds.has(targetId)) continue;
+        ctx.blockedIds.add(targetId);
+        ctx.result.blockedIds.push(targetId);
+      }
+    },
+  },
+  save: {
+    resolve: (ctx, entries) => {
+      for (const { targetId } of entries) ctx.protectedIds.add(targetId);
+    },
+  },
+  kill: {
+    resolve: (ctx, entries, ability) => {
+      // A lone killer strikes on their own
+      if (!ability.shared) {
+        for (const { targetId } of entries) attack(ctx, targetId);
+        return;
+      }
+      // The room's kill rule narrows the team's votes (a roleblocked gangster's is void); ties are broken at random
+      const candidates = killCandidates(ctx.room, entries);
+      if (candidates.length === 0) return;
+      const targetId = pick(ctx.rng, candidates);
+      attack(ctx, targetId);
+      // Everyone who picked the hit goes along for it
+      for (const entry of entries) {
+        if (entry.targetId === targetId) ctx.result.visits.push({ actorId: entry.actorId, targetId });
+      }
+    },
+  },
+  frame: {
+    resolve: (ctx, entries) => {
+      for (const { targetId } of entries) ctx.framedIds.add(targetId);
+    },
+  },
+  investigate: {
+    // Read once every earlier action (framing) has landed
+    resolve: (ctx, entries) => {
+      for (const { actorId, targetId } of entries) {
+        const target = ctx.room.players.get(targetId);
+        if (!target) continue;
+        ctx.result.investigations.push({ actorId, targetId, isMafia: appearsMafia(ctx, target) });
+      }
+    },
+  },
+  watch: {
+    resolve: () => {},
+    // Everyone but the lookout who visited the watched player
+    report: (ctx, entries) => {
+      for (const { actorId, targetId } of entries) {
+        const seenIds = ctx.result.visits.filter((v) => v.targetId === targetId && v.actorId !== actorId).map((v) => v.actorId);
+        ctx.result.visitReports.push({ actorId, action: 'watch', targetId, seenIds });
+      }
+    },
+  },
+  track: {
+    resolve: () => {},
+    // Wherever the tracked player went
+    report: (ctx, entries) => {
+      for (const { actorId, targetId } of entries) {
+        const seenIds = ctx.result.visits.filter((v) => v.actorId === targetId).map((v) => v.targetId);
+        ctx.result.visitReports.push({ actorId, action: 'track', targetId, seenIds });
+      }
+    },
+  },
+};
+
+/** What an investigation reports: framed players look guilty, a godfather looks innocent */
+function appearsMafia(ctx: NightContext, target: Player): boolean {
+  if (ctx.framedIds.has(target.id)) return true;
+  return factionOf(target.role) === 'mafia' && !ROLES[target.role].appearsInnocent;
+}
+
+/**
+ * Whether every alive player with a solo night ability has submitted an action
+ * and the kill team has settled on its target. Used to resolve the night early.
+ */
+export function allNightActionsSubmitted(room: Room): boolean {
+  const actors = getAlivePlayers(room).filter((p) => nightAbilityOf(p.role));
+  if (actors.length === 0) return false;
+  const solo = actors.filter((p) => !nightAbilityOf(p.role)?.shared);
+  return solo.every((p) => room.nightActions.has(p.id)) && killTeamDecided(room);
+}
+
+// ---------------------------------------------------------------------------
+// Mafia kill votes
+// ---------------------------------------------------------------------------
+
+/** Living holders of the shared (team) kill ability, in seat order */
+function killTeam(room: Room): Player[] {
+  return getAlivePlayers(room).filter((p) => {
+    const ability = nightAbilityOf(p.role);
+    return ability?.action === 'kill' && ability.shared;
+  });
+}
+
+/** The designated shooter: the living kill-team member seated first */
+export function designatedShooter(room: Room): Player | null {
+  return killTeam(room)[0] ?? null;
+}
+
+/** The kill team's current votes (actorId → targetId) */
+export function mafiaKillVotes(room: Room): Record<string, string> {
+  const votes: Record<string, string> = {};
+  for (const member of killTeam(room)) {
+    const entry = room.nightActions.get(member.id);
+    if (entry?.action === 'kill') votes[member.id] = entry.targetId;
   }
+  return votes;
+}
 
-  // Remaining players are citizens
-  while (idx < n) {
-    roleMap.set(shuffled[idx++], 'citizen');
+/**
+ * Apply the room's mafia kill rule to the team's votes.
+ * Returns every target still in contention (several only on a tied majority),
+ * or an empty array when the rule yields no kill.
+ */
+export function killCandidates(room: Room, votes: NightActionEntry[]): string[] {
+  switch (room.settings.rules.mafiaKillRule) {
+    case 'shooter': {
+      const shooter = designatedShooter(room);
+      const shot = votes.find((v) => v.actorId === shooter?.id);
+      return shot ? [shot.targetId] : [];
+    }
+    case 'unanimous': {
+      const targets = new Set(votes.map((v) => v.targetId));
+      return votes.length === killTeam(room).length && targets.size === 1 ? [...targets] : [];
+    }
+    case 'majority': {
+      const tally: Record<string, number> = {};
+      for (const { targetId } of votes) tally[targetId] = (tally[targetId] ?? 0) + 1;
+      if (votes.length === 0) return [];
+      const maxVotes = Math.max(...Object.values(tally));
+      return Object.keys(tally).filter((k) => tally[k] === maxVotes);
+    }
   }
+}
 
-  return roleMap;
+/** Whether the kill team's votes are final under the room's kill rule */
+function killTeamDecided(room: Room): boolean {
+  const team = killTeam(room);
+  if (team.length === 0) return true;
+  const votes = Object.entries(mafiaKillVotes(room)).map(
+    ([actorId, targetId]): NightActionEntry => ({ actorId, action: 'kill', targetId })
+  );
+
+  switch (room.settings.rules.mafiaKillRule) {
+    case 'shooter':
+      return votes.some((v) => v.actorId === team[0].id);
+    case 'unanimous':
+      return killCandidates(room, votes).length > 0;
+    case 'majority':
+      return votes.length === team.length;
+  }
 }
 
 // ---------------------------------------------------------------------------
 // Night resolution
 // ---------------------------------------------------------------------------
 
+/** One kill attempt made during the night */
+export interface NightAttack {
+  targetId: string;
+  /** Whether a protector shielded the target */
+  saved: boolean;
+  /** Cutscene variant played for this attack */
+  cutsceneVariant: CutsceneVariant;
+}
+
+/** One investigation made during the night, with the result its investigator is told */
+export interface NightInvestigation {
+  actorId: string;
+  targetId: string;
+  isMafia: boolean;
+}
+
+/** One player going to another's door during the night */
+export interface NightVisit {
+  actorId: string;
+  targetId: string;
+}
+
+/** What a lookout (visitors of the target) or tracker (the target's destinations) saw */
+export interface NightVisitReport {
+  actorId: string;
+  action: VisitReportAction;
+  targetId: string;
+  seenIds: string[];
+}
+
 /** Result of resolving a night phase */
 export interface NightResolutionResult {
-  /** Player who was killed (null if no kill or saved) */
-  killedPlayerId: string | null;
-  /** Whether the kill was prevented by doctor */
-  saved: boolean;
-  /** Outcome category for narrator selection */
-  outcome: 'killed' | 'saved' | 'no_kill';
-  /** Cutscene variant to play (null if no cutscene needed) */
-  cutsceneVariant: CutsceneVariant | null;
+  /** Every attack in resolution order (one per target — a second attacker adds nothing) */
+  attacks: NightAttack[];
+  /** Every investigation, in submission order */
+  investigations: NightInvestigation[];
+  /** Every roleblocked player, in block order */
+  blockedIds: string[];
+  /** Every action that went through, in resolution order */
+  visits: NightVisit[];
+  /** Every lookout and tracker report */
+  visitReports: NightVisitReport[];
+  /** Outcome category for narrator selection: killed if anyone died, saved if every attack was stopped */
+  outcome: NightOutcome;
 }
 
 /** Pick a random cutscene variant */
-function randomCutscene(): CutsceneVariant {
+function randomCutscene(rng: Rng): CutsceneVariant {
   const variants: CutsceneVariant[] = [
     'back_alley',
     'rooftop',
     'car_ambush',
     'neon_club',
   ];
-  return variants[Math.floor(Math.random() * variants.length)];
+  return pick(rng, variants);
 }
 
 /**
  * Resolve all night actions and return what happened.
- * Mafia vote is tallied; majority target (or random tiebreak) is the kill target.
+ * Submitted actions are grouped by the role ability behind them and applied
+ * in ability priority order (block → protect → frame → kill → investigate →
+ * observe), each through its action's registered handler. A roleblocked
+ * actor's entry is dropped from every group that resolves after the block;
+ * blocks all land together, so one escort can't cancel another's. Every action
+ * that goes through is recorded as a visit, and observers report on the full
+ * set of visits once everything has resolved.
  */
-export function resolveNight(room: Room): NightResolutionResult {
-  const { mafiaVotes, doctorSave, players } = room;
-
-  // ── Tally mafia votes ──────────────────────────────────────────────────────
-  const tally: Record<string, number> = {};
-  for (const { targetId } of mafiaVotes) {
-    tally[targetId] = (tally[targetId] ?? 0) + 1;
-  }
-
-  // Find target with most votes (or random among tied)
-  let mafiaTarget: string | null = null;
-  if (Object.keys(tally).length > 0) {
-    const maxVotes = Math.max(...Object.values(tally));
-    const candidates = Object.keys(tally).filter((k) => tally[k] === maxVotes);
-    mafiaTarget = candidates[Math.floor(Math.random() * candidates.length)];
-  }
-
-  // ── Resolve against doctor save ────────────────────────────────────────────
-  if (!mafiaTarget) {
-    return { killedPlayerId: null, saved: false, outcome: 'no_kill', cutsceneVariant: null };
-  }
+export function resolveNight(room: Room, rng: Rng): NightResolutionResult {
+  const ctx: NightContext = {
+    room,
+    rng,
+    protectedIds: new Set(),
+    framedIds: new Set(),
+    blockedIds: new Set(),
+    result: { attacks: [], investigations: [], blockedIds: [], visits: [], visitReports: [], outcome: 'no_kill' },
+  };
 
-  if (mafiaTarget === doctorSave) {
-    // Saved!
-    return {
-      killedPlayerId: mafiaTarget,
-      saved: true,
-      outcome: 'saved',
-      cutsceneVariant: randomCutscene(),
-    };
+  // Group surviving actors' entries by the ability they used
+  const groups = new Map<NightAbility, NightActionEntry[]>();
+  for (const entry of room.nightActions.values()) {
+    const actor = room.players.get(entry.actorId);
+    const ability = actor?.alive ? nightAbilityOf(actor.role) : null;
+    if (!ability || ability.action !== entry.action) continue;
+    groups.set(ability, [...(groups.get(ability) ?? []), entry]);
   }
 
-  // Kill successful
-  const target = players.get(mafiaTarget);
-  if (!target || !target.alive) {
-    // Target already dead (edge case) – no kill
-    return { killedPlayerId: null, saved: false, outcome: 'no_kill', cutsceneVariant: null };
+  const ordered = [...groups.entries()].sort(([a], [b]) => a.priority - b.priority);
+  const resolved: Array<[NightAbility, NightActionEntry[]]> = [];
+  for (const [ability, entries] of ordered) {
+    const active = entries.filter((e) => !ctx.blockedIds.has(e.actorId));
+    if (active.length === 0) continue;
+    NIGHT_ACTION_HANDLERS[ability.action].resolve(ctx, active, ability);
+    // Solo actions visit their target; a team records only the members who carried out its pick
+    if (!ability.shared) ctx.result.visits.push(...active.map(({ actorId, targetId }) => ({ actorId, targetId })));
+    resolved.push([ability, active]);
   }
+  // Observers report once every visit is known
+  for (const [ability, active] of resolved) NIGHT_ACTION_HANDLERS[ability.action].report?.(ctx, active);
 
-  return {
-    killedPlayerId: mafiaTarget,
-    saved: false,
-    outcome: 'killed',
-    cutsceneVariant: randomCutscene(),
-  };
+  const { attacks } = ctx.result;
+  ctx.result.outcome = attacks.some((a) => !a.saved) ? 'killed' : attacks.length > 0 ? 'saved' : 'no_kill';
+  return ctx.result;
 }
 
 // ---------------------------------------------------------------------------
@@ -155,13 +439,15 @@ export interface LynchResult {
 }
 
 /**
- * Resolve day votes. A player is lynched if they have a strict majority of votes
- * among all alive voters. On tie → no elimination.
+ * Resolve day votes. Each ballot counts for the voter's role vote weight.
+ * The top candidate is lynched; on tie → no elimination.
  */
 export function resolveDayVote(room: Room): LynchResult {
   const tally: Record<string, number> = {};
-  for (const [, targetId] of room.votes) {
-    tally[targetId] = (tally[targetId] ?? 0) + 1;
+  for (const [voterId, targetId] of room.votes) {
+    const voter = room.players.get(voterId);
+    const weight = voter ? ROLES[voter.role].day.voteWeight : 1;
+    tally[targetId] = (tally[targetId] ?? 0) + weight;
   }
 
   let topCandidate: string | null = null;
@@ -193,21 +479,42 @@ export function resolveDayVote(room: Room): LynchResult {
 // ---------------------------------------------------------------------------
 
 /** Possible game winners */
-export type WinResult = 'mafia' | 'town' | null;
+export type WinResult = Faction | null;
+
+/** Neutral players (not already winners) whose own goal `lynched` hanging fulfils */
+export function soloWinnersOfLynch(room: Room, lynched: Player): Player[] {
+  return Array.from(room.players.values()).filter(
+    (p) => !p.soloWon && (ROLES[p.role].soloWin?.(p, lynched) ?? false)
+  );
+}
+
+/** Whether a player shares in a finished game's win: on the winning side, or a neutral who won alone */
+export function hasWon(player: Player, winner: Faction): boolean {
+  return player.soloWon || (winner !== NO_WINNER && factionOf(player.role) === winner);
+}
 
 /**
  * Check if there is a winner after an elimination.
- * - Mafia wins when alive mafia ≥ alive town
- * - Town wins when all mafia are dead
+ * Each role in play declares its own win condition; factions are checked in
+ * WIN_CHECK_ORDER and the first satisfied one wins. Neutral roles never end
+ * the game — their wins come from soloWinnersOfLynch. Once no side has anyone
+ * left, the game ends with NO_WINNER.
  * Returns null if the game continues.
  */
 export function checkWinCondition(room: Room): WinResult {
   const alive = getAlivePlayers(room);
-  const aliveMafia = alive.filter((p) => p.role === 'mafia');
-  const aliveTown = alive.filter((p) => p.role !== 'mafia');
-
-  if (aliveMafia.length === 0) return 'town';
-  if (aliveMafia.length >= aliveTown.length) return 'mafia';
+  const aliveByFaction: Record<Faction, number> = { town: 0, mafia: 0, neutral: 0, killer: 0 };
+  for (const p of alive) aliveByFaction[factionOf(p.role)]++;
+  const ctx: WinContext = { alive, aliveByFaction };
+
+  const rolesInPlay = new Set(Array.from(room.players.values()).map((p) => p.role));
+  for (const faction of WIN_CHECK_ORDER) {
+    for (const role of rolesInPlay) {
+      const def = ROLES[role];
+      if (def.faction === faction && def.winCondition?.(ctx)) return faction;
+    }
+  }
+  if (WIN_CHECK_ORDER.every((faction) => aliveByFaction[faction] === 0)) return NO_WINNER;
   return null;
 }
 
@@ -220,17 +527,69 @@ export function getAlivePlayers(room: Room): Player[] {
   return Array.from(room.players.values()).filter((p) => p.alive);
 }
 
-/** Get alive mafia players */
+/** Convert a room's players Map to a public players array (role hidden) */
+export function toPublicPlayers(room: Room): PublicPlayer[] {
+  return Array.from(room.players.values()).map((p) => ({
+    id: p.id,
+    name: p.name,
+    avatar: p.avatar,
+    alive: p.alive,
+    connected: p.connected,
+    isHost: p.id === room.hostId,
+    will: revealedWill(room, p),
+    ...revealedIdentity(room, p),
+  }));
+}
+
+/** A player's will as everyone may see it: only after death, and only if the room allows wills */
+export function revealedWill(room: Room, player: Player): string | null {
+  return room.settings.rules.lastWills && !player.alive && player.will ? player.will : null;
+}
+
+/** The part of a role the room's roleReveal rule makes public */
+export interface RevealedIdentity {
+  role: Role | null;
+  faction: Faction | null;
+}
+
+/** What the roleReveal rule discloses about a role once its holder is eliminated */
+export function identityToReveal(rules: RoomRules, role: Role): RevealedIdentity {
+  switch (rules.roleReveal) {
+    case 'full':
+      return { role, faction: factionOf(role) };
+    case 'faction':
+      return { role: null, faction: factionOf(role) };
+    case 'hidden':
+      return { role: null, faction: null };
+  }
+}
+
+/** A player's role as everyone may see it: only after death, and only as far as roleReveal allows */
+export function revealedIdentity(room: Room, player: Player): RevealedIdentity {
+  return player.alive ? { role: null, faction: null } : identityToReveal(room.settings.rules, player.role);
+}
+
+/** Public view of the room's spectators */
+export function toPublicSpectators(room: Room): PublicSpectator[] {
+  return Array.from(room.spectators.values()).map((s) => ({
+    id: s.id,
+    name: s.name,
+    avatar: s.avatar,
+    connected: s.connected,
+  }));
+}
+
+/** Get alive members of the mafia faction */
 export function getAliveMafia(room: Room): Player[] {
-  return getAlivePlayers(room).filter((p) => p.role === 'mafia');
+  return getAlivePlayers(room).filter((p) => factionOf(p.role) === 'mafia');
 }
 
-/** Generate a cryptographically-adequate 6-char alphanumeric room code */
-export function generateRoomCode(): string {
+/** Generate a 6-char alphanumeric room code */
+export function generateRoomCode(rng: Rng): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Unambiguous chars
   let code = '';
   for (let i = 0; i < 6; i++) {
-    code += chars[Math.floor(Math.random() * chars.length)];
+    code += chars[randomIndex(rng, chars.length)];
   }
   return code;
 }
@@ -246,7 +605,12 @@ export function sanitizeUsername(raw: string): string | null {
 }
 
 /** Create a blank player object */
-export function createPlayer(socketId: string, name: string, avatar: Avatar): Player {
+export function createPlayer(
+  socketId: string,
+  name: string,
+  avatar: Avatar,
+  now: number = Date.now()
+): Player {
   return {
     id: socketId,
     sessionId: uuidv4(),
@@ -256,7 +620,11 @@ export function createPlayer(socketId: string, name: string, avatar: Avatar): Pl
     alive: true,
     connected: true,
     disconnectedAt: null,
+    reconnectDeadline: null,
     chatCount: 0,
-    chatWindowStart: Date.now(),
+    chatWindowStart: now,
+    will: '',
+    lynchTarget: null,
+    soloWon: false,
   };
 }
@@ -1,27 +1,64 @@
 // =============================================================================
 // gameState.ts – TypeScript interfaces for Who Lies Tonight (WLT)
+// Server-side room state. Everything that crosses the wire is defined once in
+// the shared protocol module and re-exported here.
 // =============================================================================
 
-/** Available player roles in WLT */
-export type Role = 'mafia' | 'doctor' | 'detective' | 'citizen';
-
-/** Game phases */
-export type Phase = 'lobby' | 'night' | 'day' | 'vote' | 'ended';
-
-/** Cutscene type identifiers */
-export type CutsceneVariant =
-  | 'back_alley'
-  | 'rooftop'
-  | 'car_ambush'
-  | 'neon_club';
-
-/** Night outcome types used for narrator selection */
-export type NightOutcome = 'killed' | 'saved' | 'no_kill';
-
-/** Modular avatar definition */
-export interface Avatar {
-  url: string; // Ready Player Me GLB URL
-}
+import type {
+  Avatar,
+  GameSetup,
+  NightActionType,
+  Phase,
+  PhaseStep,
+  Role,
+  RoomSettings,
+} from '../../protocol/index.js';
+import type { GameLogEntry } from './gameLog.js';
+
+export type {
+  Avatar,
+  ChatChannel,
+  ChatMessage,
+  CutscenePayload,
+  CutsceneVariant,
+  DeadlinePayload,
+  DetectiveResultPayload,
+  EliminationCause,
+  ErrorCode,
+  ErrorPayload,
+  Faction,
+  GameEndPayload,
+  GameSetup,
+  GameStartPayload,
+  LynchTarget,
+  MafiaKillRule,
+  MafiaTeammate,
+  MafiaVotesPayload,
+  NarratePayload,
+  NightActionType,
+  NightOutcome,
+  Phase,
+  PhaseChangedPayload,
+  PhaseStep,
+  PlayerEliminatedPayload,
+  PublicPlayer,
+  PublicSpectator,
+  RecapNightAction,
+  RecapRound,
+  ReconnectedPayload,
+  Role,
+  RoleReveal,
+  RoleblockedPayload,
+  RoomResetPayload,
+  RoomRules,
+  RoomSettings,
+  RoomSettingsUpdate,
+  RoomUpdatePayload,
+  SetupTimings,
+  VisitReportAction,
+  VisitReportPayload,
+  VoteUpdatePayload,
+} from '../../protocol/index.js';
 
 /** Single player state */
 export interface Player {
@@ -41,15 +78,43 @@ export interface Player {
   connected: boolean;
   /** Timestamp of disconnect (for 30s grace window) */
   disconnectedAt: number | null;
+  /** Epoch ms after which a disconnected player is dropped / eliminated */
+  reconnectDeadline: number | null;
   /** Per-night chat rate limit counter */
   chatCount: number;
   /** Timestamp when chat rate window started */
   chatWindowStart: number;
+  /** Last will ('' = none); public once the player dies */
+  will: string;
+  /** Player this role must get lynched to win (executioner only) */
+  lynchTarget: string | null;
+  /** A neutral who reached their own goal this game (credited at game end) */
+  soloWon: boolean;
 }
 
-/** Night vote entry: who the mafia member wants to kill */
-export interface MafiaVote {
-  voterId: string;
+/** Someone watching the room without a seat (no role, no vote, public info only) */
+export interface Spectator {
+  /** Socket ID (reconnectable) */
+  id: string;
+  /** Stable session ID stored in localStorage for reconnect */
+  sessionId: string;
+  /** Display name (sanitized, unique across players and spectators) */
+  name: string;
+  avatar: Avatar;
+  /** Whether the socket is currently connected */
+  connected: boolean;
+  /** Epoch ms after which a disconnected spectator is dropped */
+  reconnectDeadline: number | null;
+  /** Chat rate limit counter */
+  chatCount: number;
+  /** Timestamp when chat rate window started */
+  chatWindowStart: number;
+}
+
+/** A submitted night action: who used which ability on whom */
+export interface NightActionEntry {
+  actorId: string;
+  action: NightActionType;
   targetId: string;
 }
 
@@ -61,89 +126,32 @@ export interface Room {
   hostId: string;
   /** All players keyed by socket ID */
   players: Map<string, Player>;
+  /** Spectators keyed by socket ID (never in `players`) */
+  spectators: Map<string, Spectator>;
   /** Current game phase */
   phase: Phase;
   /** Current round number (increments each Night) */
   round: number;
-  /** Individual mafia member votes (for majority) */
-  mafiaVotes: MafiaVote[];
-  /** Socket ID of player Doctor chose to protect */
-  doctorSave: string | null;
-  /** Detective result (private, only sent to detective) */
-  detectiveTarget: string | null;
+  /** Night actions submitted this round: actorSocketId → action */
+  nightActions: Map<string, NightActionEntry>;
   /** Day-phase lynch votes: voterSocketId → targetSocketId */
   votes: Map<string, string>;
-  /** Active phase timer reference */
-  timer: ReturnType<typeof setTimeout> | null;
+  /** Next scheduled phase transition (null = none pending) */
+  pendingStep: PhaseStep | null;
+  /** Epoch ms at which `pendingStep` runs */
+  deadline: number | null;
   /** Epoch ms of last activity (for cleanup) */
   lastActivity: number;
-  /** Set of player socket IDs who have submitted a night action */
-  nightActionsSubmitted: Set<string>;
   /** Whether the game has started */
   started: boolean;
+  /** Host-configurable settings */
+  settings: RoomSettings;
+  /** Fixed setup selected or imported by the host (null = auto-deal by ratio) */
+  setup: GameSetup | null;
   /** ISO timestamp of when the game started (for Supabase insert at end) */
   gameStartedAt?: string;
-}
-
-/** Payload sent to clients when a room is updated */
-export interface RoomUpdatePayload {
-  code: string;
-  phase: Phase;
-  round: number;
-  players: PublicPlayer[];
-  started: boolean;
-}
-
-/** Public (role-hidden) player info for broadcasts */
-export interface PublicPlayer {
-  id: string;
-  name: string;
-  avatar: Avatar;
-  alive: boolean;
-  connected: boolean;
-  isHost: boolean;
-}
-
-/** Game-start payload sent privately to each player */
-export interface GameStartPayload {
-  role: Role;
-  mafiaTeam: string[]; // only populated for mafia players
-  players: PublicPlayer[];
-  phase: Phase;
-}
-
-/** Chat message payload */
-export interface ChatMessage {
-  senderId: string;
-  senderName: string;
-  text: string;
-  channel: 'global' | 'mafia';
-  timestamp: number;
-}
-
-/** Narrator event payload */
-export interface NarratePayload {
-  text: string;
-  outcome: NightOutcome;
-}
-
-/** Cutscene trigger payload */
-export interface CutscenePayload {
-  variant: CutsceneVariant;
-  victimId: string | null;
-  victimName: string | null;
-  victimAvatar: Avatar | null;
-  saved: boolean;
-}
-
-/** Vote update payload */
-export interface VoteUpdatePayload {
-  votes: Record<string, string>; // voterSocketId → targetSocketId
-  tally: Record<string, number>; // targetSocketId → count
-}
-
-/** Game-end payload */
-export interface GameEndPayload {
-  winner: 'mafia' | 'town';
-  roles: Array<{ id: string; name: string; role: Role }>;
+  /** Seed of the current game's PRNG (null until roles are dealt) */
+  seed: number | null;
+  /** Ordered log of every state change; folding it rebuilds this room */
+  log: GameLogEntry[];
 }
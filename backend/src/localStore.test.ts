@@ -0,0 +1,52 @@
+// =============================================================================
+// localStore.test.ts – A locally hosted SharedStore seen from two "processes"
+// The host and its client run in one test process but only talk over the
+// loopback socket, exactly as two server processes would.
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { createServer } from 'http';
+import { Server } from 'socket.io';
+import { connectLocalStore, hostLocalStore } from './localStore.js';
+
+const PORT = 47_400;
+
+test('a client and the host share keys, locks, sets and emits', async () => {
+  const host = hostLocalStore(PORT);
+  const client = connectLocalStore(`tcp://127.0.0.1:${PORT}`);
+  // Never listening: the test only needs each server's adapter
+  const hostIo = new Server(createServer());
+  const clientIo = new Server(createServer());
+  try {
+    // Rooms written by one process are read by the other
+    await client.set('room:ABCDEF', '{"phase":"lobby"}');
+    assert.equal(await host.get('room:ABCDEF'), '{"phase":"lobby"}');
+
+    // A lock taken on one side holds on the other
+    assert.equal(await host.set('lock:ABCDEF', 'host', { ttlMs: 5_000, onlyIfAbsent: true }), true);
+    assert.equal(await client.set('lock:ABCDEF', 'client', { ttlMs: 5_000, onlyIfAbsent: true }), false);
+    assert.equal(await client.delIfEquals('lock:ABCDEF', 'client'), false);
+    assert.equal(await client.delIfEquals('lock:ABCDEF', 'host'), true);
+
+    await host.sadd('rtc:ABCDEF:alive', 'socket-1');
+    await client.sadd('rtc:ABCDEF:alive', 'socket-2');
+    assert.deepEqual((await client.smembers('rtc:ABCDEF:alive')).sort(), ['socket-1', 'socket-2']);
+
+    await client.zadd('deadlines', 2_000, 'B');
+    await host.zadd('deadlines', 1_000, 'A');
+    assert.deepEqual(await client.zrangeByScore('deadlines', 1_500), ['A']);
+
+    // Emits made on one process reach the other
+    hostIo.adapter(host.socketAdapter!());
+    clientIo.adapter(client.socketAdapter!());
+    const received = once(hostIo, 'ping');
+    clientIo.serverSideEmit('ping', 'from the client');
+    assert.deepEqual(await received, ['from the client']);
+  } finally {
+    await Promise.all([hostIo.close(), clientIo.close()]);
+    await client.close();
+    await host.close();
+  }
+});
@@ -0,0 +1,253 @@
+// =============================================================================
+// localStore.ts – SharedStore one local process hosts for the others
+// Runs several server processes on one machine without Redis: the hosting
+// process keeps the in-process store and serves it on a loopback TCP port, the
+// others connect to it. The same connection carries Socket.io cluster messages,
+// so room / player emits reach every process. Meant for local testing only —
+// no auth, and rooms are gone once the hosting process stops.
+// =============================================================================
+
+import net from 'net';
+import { createInterface } from 'readline';
+import type { Namespace } from 'socket.io';
+import {
+  ClusterAdapterWithHeartbeat,
+  type ClusterMessage,
+  type ClusterResponse,
+} from 'socket.io-adapter';
+import { createMemoryStore } from './memoryStore.js';
+import type { SharedStore, SocketAdapter } from './sharedStore.js';
+
+/** SharedStore methods a client may call on the host */
+const STORE_METHODS = [
+  'get', 'set', 'del', 'delIfEquals',
+  'sadd', 'srem', 'smembers',
+  'zadd', 'zrem', 'zrangeByScore',
+] as const satisfies readonly (keyof SharedStore)[];
+type StoreMethod = (typeof STORE_METHODS)[number];
+
+/** Wait before reconnecting to a host that went away (or is not up yet) */
+const RECONNECT_MS = 1_000;
+
+/** Socket.io cluster traffic between processes */
+type ClusterPacket =
+  | { kind: 'message'; message: ClusterMessage }
+  | { kind: 'response'; to: string; response: ClusterResponse };
+
+/** One JSON object per line, both ways */
+type Frame =
+  | { t: 'call'; id: number; method: StoreMethod; args: unknown[] }
+  | { t: 'reply'; id: number; result?: unknown; error?: string }
+  | { t: 'cluster'; packet: ClusterPacket };
+
+// ---------------------------------------------------------------------------
+// Wire helpers
+// ---------------------------------------------------------------------------
+
+function send(socket: net.Socket, frame: Frame): void {
+  socket.write(JSON.stringify(frame) + '\n');
+}
+
+function onFrames(socket: net.Socket, handle: (frame: Frame) => void): void {
+  createInterface({ input: socket, crlfDelay: Infinity }).on('line', (line) => {
+    if (!line) return;
+    let frame: Frame;
+    try {
+      frame = JSON.parse(line) as Frame;
+    } catch {
+      console.error('[LocalStore] Dropped a malformed frame');
+      return;
+    }
+    handle(frame);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Socket.io adapter
+// ---------------------------------------------------------------------------
+
+/** Delivers cluster packets to this process's adapters (one per namespace) */
+function createClusterBus() {
+  const listeners = new Set<(packet: ClusterPacket) => void>();
+  return {
+    deliver(packet: ClusterPacket) {
+      for (const listener of listeners) listener(packet);
+    },
+    subscribe(listener: (packet: ClusterPacket) => void) {
+      listeners.add(listener);
+      return () => void listeners.delete(listener);
+    },
+  };
+}
+type ClusterBus = ReturnType<typeof createClusterBus>;
+
+/** Payloads travel as JSON, which is all WLT ever emits (no binary attachments) */
+class LocalClusterAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly unsubscribe: () => void;
+
+  constructor(nsp: Namespace, bus: ClusterBus, private readonly publishPacket: (packet: ClusterPacket) => void) {
+    super(nsp, {});
+    this.unsubscribe = bus.subscribe((packet) => {
+      if (packet.kind === 'message') {
+        if (packet.message.nsp === this.nsp.name) this.onMessage(packet.message);
+      } else if (packet.to === this.uid) {
+        this.onResponse(packet.response);
+      }
+    });
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<string> {
+    this.publishPacket({ kind: 'message', message });
+    return '';
+  }
+
+  protected async doPublishResponse(requesterUid: string, response: ClusterResponse): Promise<void> {
+    this.publishPacket({ kind: 'response', to: requesterUid, response });
+  }
+
+  close(): void {
+    super.close();
+    this.unsubscribe();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Host
+// ---------------------------------------------------------------------------
+
+/**
+ * Keep rooms in this process and serve them to other processes on
+ * 127.0.0.1:`port`.
+ */
+export function hostLocalStore(port: number): SharedStore {
+  const store = createMemoryStore();
+  const bus = createClusterBus();
+  const clients = new Set<net.Socket>();
+
+  /** Fan a packet out to this process and every client but the one it came from */
+  const publish = (packet: ClusterPacket, from?: net.Socket) => {
+    bus.deliver(packet);
+    for (const client of clients) if (client !== from) send(client, { t: 'cluster', packet });
+  };
+
+  const serve = async (client: net.Socket, frame: Extract<Frame, { t: 'call' }>) => {
+    try {
+      if (!STORE_METHODS.includes(frame.method)) throw new Error(`Unknown store method: ${frame.method}`);
+      const method = store[frame.method] as (...args: unknown[]) => Promise<unknown>;
+      // JSON turns omitted arguments into null; give defaults back their undefined
+      const args = frame.args.map((arg) => arg ?? undefined);
+      send(client, { t: 'reply', id: frame.id, result: await method.apply(store, args) });
+    } catch (err) {
+      send(client, { t: 'reply', id: frame.id, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const server = net.createServer((client) => {
+    clients.add(client);
+    client.on('error', (err) => console.error('[LocalStore] Client error:', err.message));
+    client.on('close', () => clients.delete(client));
+    onFrames(client, (frame) => {
+      if (frame.t === 'call') void serve(client, frame);
+      else if (frame.t === 'cluster') publish(frame.packet, client);
+    });
+  });
+  server.on('error', (err) => {
+    console.error(`[LocalStore] Cannot host the room store on port ${port}:`, err.message);
+    process.exit(1);
+  });
+  server.listen(port, '127.0.0.1', () => {
+    console.log(`[LocalStore] Hosting the room store on 127.0.0.1:${port}`);
+  });
+
+  return {
+    ...store,
+    kind: 'local',
+
+    socketAdapter(): SocketAdapter {
+      // Socket.io calls the factory with `new`, so no arrow function here
+      return function (nsp: Namespace) {
+        return new LocalClusterAdapter(nsp, bus, (packet) => publish(packet));
+      };
+    },
+
+    async close() {
+      for (const client of clients) client.destroy();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await store.close();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+/** Use the store another process hosts, e.g. `tcp://127.0.0.1:7400` */
+export function connectLocalStore(url: string): SharedStore {
+  const { hostname, port } = new URL(url);
+  const bus = createClusterBus();
+  const pending = new Map<number, { resolve(value: unknown): void; reject(err: Error): void }>();
+  let nextId = 1;
+  let closing = false;
+  let socket: net.Socket;
+
+  const connect = () => {
+    socket = net.connect(Number(port), hostname);
+    socket.on('connect', () => console.log(`[LocalStore] Using the room store at ${url}`));
+    socket.on('error', (err) => console.error('[LocalStore]', err.message));
+    socket.on('close', () => {
+      for (const call of pending.values()) call.reject(new Error('Lost the connection to the room store host'));
+      pending.clear();
+      if (!closing) setTimeout(connect, RECONNECT_MS);
+    });
+    onFrames(socket, (frame) => {
+      if (frame.t === 'cluster') {
+        bus.deliver(frame.packet);
+      } else if (frame.t === 'reply') {
+        const call = pending.get(frame.id);
+        pending.delete(frame.id);
+        if (frame.error !== undefined) call?.reject(new Error(frame.error));
+        else call?.resolve(frame.result);
+      }
+    });
+  };
+  connect();
+
+  const call = <T>(method: StoreMethod, ...args: unknown[]) =>
+    new Promise<T>((resolve, reject) => {
+      if (socket.destroyed) return reject(new Error('Not connected to the room store host'));
+      const id = nextId++;
+      pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      send(socket, { t: 'call', id, method, args });
+    });
+
+  return {
+    kind: 'local',
+
+    get: (key) => call('get', key),
+    set: (key, value, options) => call('set', key, value, options),
+    del: (...keys) => call('del', ...keys),
+    delIfEquals: (key, value) => call('delIfEquals', key, value),
+
+    sadd: (key, member) => call('sadd', key, member),
+    srem: (key, member) => call('srem', key, member),
+    smembers: (key) => call('smembers', key),
+
+    zadd: (key, score, member) => call('zadd', key, score, member),
+    zrem: (key, member) => call('zrem', key, member),
+    zrangeByScore: (key, max) => call('zrangeByScore', key, max),
+
+    socketAdapter(): SocketAdapter {
+      return function (nsp: Namespace) {
+        return new LocalClusterAdapter(nsp, bus, (packet) => {
+          if (!socket.destroyed) send(socket, { t: 'cluster', packet });
+        });
+      };
+    },
+
+    async close() {
+      closing = true;
+      socket.end();
+    },
+  };
+}
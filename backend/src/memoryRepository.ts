@@ -0,0 +1,48 @@
+// =============================================================================
+// memoryRepository.ts – In-process GameRepository for WLT
+// Nothing survives a restart. Used for local development and whenever no
+// database is configured.
+// =============================================================================
+
+import type {
+  GameRepository,
+  GameSessionRecord,
+  LeaderboardRow,
+} from './repository.js';
+
+interface ScoreRow extends LeaderboardRow {
+  last_room_code: string;
+}
+
+export function createMemoryRepository(): GameRepository {
+  const sessions: GameSessionRecord[] = [];
+  /** session ID → running totals */
+  const scores = new Map<string, ScoreRow>();
+
+  return {
+    kind: 'memory',
+
+    async saveGameSession(session) {
+      sessions.push({ ...session });
+    },
+
+    async recordPlayerResult(result) {
+      const row = scores.get(result.sessionId);
+      scores.set(result.sessionId, {
+        player_name: result.name,
+        total_score: (row?.total_score ?? 0) + result.scoreGain,
+        games_won: (row?.games_won ?? 0) + (result.won ? 1 : 0),
+        games_played: (row?.games_played ?? 0) + 1,
+        last_room_code: result.roomCode,
+      });
+    },
+
+    async getLeaderboard({ roomCode, limit }) {
+      return Array.from(scores.values())
+        .filter((row) => !roomCode || row.last_room_code === roomCode)
+        .sort((a, b) => b.total_score - a.total_score)
+        .slice(0, limit)
+        .map(({ last_room_code: _, ...row }) => row);
+    },
+  };
+}
@@ -0,0 +1,89 @@
+// =============================================================================
+// memoryStore.ts – In-process SharedStore for WLT
+// Stand-in for Redis when a single server process owns every room (local
+// development, LAN games, tests). Same semantics, including key expiry.
+// localStore.ts serves one to other local processes when several should share it.
+// =============================================================================
+
+import type { SharedStore } from './sharedStore.js';
+
+export function createMemoryStore(): SharedStore {
+  /** key → value + optional expiry (epoch ms) */
+  const strings = new Map<string, { value: string; expiresAt: number | null }>();
+  const sets = new Map<string, Set<string>>();
+  const sortedSets = new Map<string, Map<string, number>>();
+
+  const live = (key: string) => {
+    const entry = strings.get(key);
+    if (entry?.expiresAt != null && entry.expiresAt <= Date.now()) {
+      strings.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    kind: 'memory',
+
+    async get(key) {
+      return live(key)?.value ?? null;
+    },
+
+    async set(key, value, options = {}) {
+      if (options.onlyIfAbsent && live(key)) return false;
+      strings.set(key, { value, expiresAt: options.ttlMs ? Date.now() + options.ttlMs : null });
+      return true;
+    },
+
+    async del(...keys) {
+      for (const key of keys) {
+        strings.delete(key);
+        sets.delete(key);
+        sortedSets.delete(key);
+      }
+    },
+
+    async delIfEquals(key, value) {
+      if (live(key)?.value !== value) return false;
+      strings.delete(key);
+      return true;
+    },
+
+    async sadd(key, member) {
+      if (!sets.has(key)) sets.set(key, new Set());
+      sets.get(key)!.add(member);
+    },
+
+    async srem(key, member) {
+      const set = sets.get(key);
+      set?.delete(member);
+      if (set?.size === 0) sets.delete(key);
+    },
+
+    async smembers(key) {
+      return Array.from(sets.get(key) ?? []);
+    },
+
+    async zadd(key, score, member) {
+      if (!sortedSets.has(key)) sortedSets.set(key, new Map());
+      sortedSets.get(key)!.set(member, score);
+    },
+
+    async zrem(key, member) {
+      sortedSets.get(key)?.delete(member);
+    },
+
+    async zrangeByScore(key, max) {
+      return Array.from(sortedSets.get(key) ?? [])
+        .filter(([, score]) => score <= max)
+        .sort((a, b) => a[1] - b[1])
+        .map(([member]) => member);
+    },
+
+    async close() {
+      strings.clear();
+      sets.clear();
+      sortedSets.clear();
+    },
+  };
+}
@@ -5,6 +5,9 @@
 // {victim} with the actual player name before broadcasting.
 // =============================================================================
 
+import { pick, type Rng } from './rng.js';
+import type { Faction, Role } from './roles.js';
+
 /** Templates for when a kill succeeded (no save) */
 export const KILL_TEMPLATES: string[] = [
   "Rain hammered the pavement last night... and it washed away more than just the grime. {victim} caught a one-way ticket to the morgue. A single shot — clean, professional. The city doesn't mourn its own.",
@@ -13,6 +16,13 @@ export const KILL_TEMPLATES: string[] = [
   "The night took its toll. {victim} paid the price for knowing too much... or too little. Another ghost for the city to forget.",
 ];
 
+/** Templates for a night with more than one body ({victims} lists them all) */
+export const MULTI_KILL_TEMPLATES: string[] = [
+  "The sirens couldn't keep up last night. {victims} — found blocks apart, cut down by different hands. The syndicate isn't the only predator working these streets.",
+  "Two jobs, two styles. One clean and professional, one slow and personal. By dawn the morgue had a waiting list: {victims}. Somebody in this town kills for the pleasure of it.",
+  "The city counted its dead twice over this morning. {victims} won't see another sunrise. Whoever did the second job, it wasn't family business.",
+];
+
 /** Templates for when a kill was attempted but the Doctor saved the target */
 export const SAVE_TEMPLATES: string[] = [
   "The trigger was pulled, the blade flashed... but fate had other plans. {victim} should be cold by now — yet here they stand, breathing, courtesy of a shadow with a syringe. The medic moves quietly in this town.",
@@ -33,21 +43,64 @@ export const DAY_START_TEMPLATES: string[] = [
   "Sun cuts through the haze. Secrets don't die easy in this town. Speak now — or let the noose decide.",
 ];
 
+/** How each role is named when a body is identified */
+const ROLE_REVEAL_NAMES: Record<Role, string> = {
+  mafia: 'a made man of the Mafia',
+  doctor: 'the Doctor',
+  detective: 'the Detective',
+  citizen: 'an honest Citizen',
+  jester: 'the Jester',
+  executioner: 'the Executioner',
+  serial_killer: 'the Serial Killer',
+  godfather: 'the Godfather',
+  framer: "the Mafia's Framer",
+  escort: 'the Escort',
+  lookout: 'the Lookout',
+  tracker: 'the Tracker',
+};
+
+/** How each faction is named when only the side is identified */
+const FACTION_REVEAL_NAMES: Record<Faction, string> = {
+  town: 'the Town',
+  mafia: 'the Mafia',
+  neutral: 'nobody but themselves',
+  killer: 'nobody but their knife',
+};
+
+/**
+ * The line identifying an eliminated player, as far as the room's roleReveal
+ * rule allows. Returns null when nothing is revealed.
+ */
+export function getRevealText(name: string, role: Role | null, faction: Faction | null): string | null {
+  if (role) return `${name} was ${ROLE_REVEAL_NAMES[role]}.`;
+  if (faction) return `${name} ran with ${FACTION_REVEAL_NAMES[faction]}.`;
+  return null;
+}
+
+/** "A", "A and B", "A, B and C" */
+function listNames(names: string[]): string {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0] ?? '';
+}
+
 /**
  * Pick a random narrator string for the given night outcome.
  * Returns the main narration + day-start transition joined with a newline.
  * @param outcome - type of what happened during the night
- * @param victimName - name to substitute for {victim} placeholder
+ * @param victimNames - the dead (killed) or the spared (saved), for the {victim} / {victims} placeholders
+ * @param rng - the game's seeded random source
+ * @param reveals - identification of each dead victim appended to a kill (see getRevealText)
  */
 export function getNarratorText(
   outcome: 'killed' | 'saved' | 'no_kill',
-  victimName: string | null
+  victimNames: string[],
+  rng: Rng,
+  reveals: string[] = []
 ): string {
   let templates: string[];
 
   switch (outcome) {
     case 'killed':
-      templates = KILL_TEMPLATES;
+      templates = victimNames.length > 1 ? MULTI_KILL_TEMPLATES : KILL_TEMPLATES;
       break;
     case 'saved':
       templates = SAVE_TEMPLATES;
@@ -58,14 +111,16 @@ export function getNarratorText(
       break;
   }
 
-  const mainText = templates[Math.floor(Math.random() * templates.length)];
-  const dayText =
-    DAY_START_TEMPLATES[Math.floor(Math.random() * DAY_START_TEMPLATES.length)];
+  const mainText = pick(rng, templates);
+  const dayText = pick(rng, DAY_START_TEMPLATES);
 
-  // Replace {victim} placeholder with actual player name
-  const resolvedMain = victimName
-    ? mainText.replace(/{victim}/g, victimName)
+  // Replace {victim} / {victims} placeholders with the actual player names
+  const names = listNames(victimNames);
+  const resolvedMain = names
+    ? mainText.replace(/{victims?}/g, names)
     : mainText;
 
-  return `${resolvedMain}\n\n${dayText}`;
+  const identified = outcome === 'killed' && reveals.length > 0 ? `${resolvedMain} ${reveals.join(' ')}` : resolvedMain;
+
+  return `${identified}\n\n${dayText}`;
 }
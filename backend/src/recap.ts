@@ -0,0 +1,83 @@
+// =============================================================================
+// recap.ts – Post-game recap for Who Lies Tonight (WLT)
+// Folds the room log (gameLog.ts) of the latest game into a round-by-round
+// timeline: every night action (and whether a roleblock cancelled it), each
+// kill attempt and whether it was saved, each player's final day vote, and
+// eliminations.
+// =============================================================================
+
+import type { RecapRound } from './gameState.js';
+import { latestIdResolver, type GameLogEntry } from './gameLog.js';
+
+/**
+ * Build the recap of the most recent game in a room log.
+ * Player IDs are rewritten to their final IDs as entries are folded, so they
+ * match GameEndPayload.roles — and each other — even if someone reconnected
+ * (and got a new socket ID) mid-game, between submitting an action and the
+ * night resolving.
+ */
+export function buildRecap(log: readonly GameLogEntry[]): RecapRound[] {
+  // Only the latest game — earlier games in the same room were reset
+  let start = -1;
+  for (let i = log.length - 1; i >= 0; i--) {
+    if (log[i].type === 'roles_assigned') {
+      start = i;
+      break;
+    }
+  }
+  if (start === -1) return [];
+
+  const finalId = latestIdResolver(log);
+  const rounds: RecapRound[] = [];
+  const dayVotes = new Map<number, Map<string, string>>();
+  for (const entry of log.slice(start)) {
+    const current: RecapRound | undefined = rounds[rounds.length - 1];
+    switch (entry.type) {
+      case 'phase_changed':
+        if (entry.phase === 'night' && current?.round !== entry.round) {
+          rounds.push({ round: entry.round, nightActions: [], attacks: [], dayVotes: [], eliminations: [] });
+          dayVotes.set(entry.round, new Map());
+        }
+        break;
+
+      case 'night_action': {
+        if (!current) break;
+        const actorId = finalId(entry.entry.actorId);
+        // A changed pick (or team vote) replaces the earlier one
+        current.nightActions = current.nightActions.filter((a) => a.actorId !== actorId);
+        current.nightActions.push({ actorId, action: entry.entry.action, targetId: finalId(entry.entry.targetId) });
+        break;
+      }
+
+      case 'night_resolved': {
+        if (!current) break;
+        current.attacks = entry.attacks.map((a) => ({ ...a, targetId: finalId(a.targetId) }));
+        // Investigations show what the detective was told, framing included
+        for (const { actorId, isMafia } of entry.investigations) {
+          const investigatorId = finalId(actorId);
+          const action = current.nightActions.find((a) => a.actorId === investigatorId && a.action === 'investigate');
+          if (action) action.isMafia = isMafia;
+        }
+        // Blocks all land together, so only a blocked player's other actions were cancelled
+        const blocked = new Set(entry.blockedIds.map(finalId));
+        for (const action of current.nightActions) {
+          if (action.action !== 'block' && blocked.has(action.actorId)) action.blocked = true;
+        }
+        break;
+      }
+
+      case 'vote_cast':
+        if (current) dayVotes.get(current.round)?.set(finalId(entry.voterId), finalId(entry.targetId));
+        break;
+
+      case 'player_eliminated':
+        current?.eliminations.push({ playerId: finalId(entry.playerId), cause: entry.cause });
+        break;
+    }
+  }
+
+  return rounds.map((round) => ({
+    ...round,
+    dayVotes: Array.from(dayVotes.get(round.round) ?? [], ([voterId, targetId]) => ({ voterId, targetId })),
+  }));
+}
@@ -0,0 +1,87 @@
+// =============================================================================
+// redisStore.ts – Redis-backed SharedStore for WLT
+// Lets several server processes share rooms. Works with Redis or any
+// Redis-compatible server (Valkey, KeyDB, Dragonfly…). Also provides the
+// Socket.io Redis adapter so room / player emits reach every process.
+// =============================================================================
+
+import Redis from 'ioredis';
+import { createAdapter } from '@socket.io/redis-adapter';
+import type { SharedStore } from './sharedStore.js';
+
+/** Compare-and-delete, atomically (lock release) */
+const DEL_IF_EQUALS = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+  end
+  return 0
+`;
+
+export function createRedisStore(url: string): SharedStore {
+  const client = new Redis(url, { lazyConnect: false });
+  client.on('error', (err) => console.error('[Redis]', err.message));
+  console.log(`[Redis] Shared store at ${url.replace(/\/\/[^@]*@/, '//***@')}`);
+
+  /** Pub/sub connections, created on first use by the Socket.io adapter */
+  let pubSub: [Redis, Redis] | null = null;
+
+  return {
+    kind: 'redis',
+
+    async get(key) {
+      return client.get(key);
+    },
+
+    async set(key, value, { ttlMs, onlyIfAbsent } = {}) {
+      const result = ttlMs
+        ? onlyIfAbsent
+          ? await client.set(key, value, 'PX', ttlMs, 'NX')
+          : await client.set(key, value, 'PX', ttlMs)
+        : onlyIfAbsent
+          ? await client.set(key, value, 'NX')
+          : await client.set(key, value);
+      return result === 'OK';
+    },
+
+    async del(...keys) {
+      if (keys.length > 0) await client.del(...keys);
+    },
+
+    async delIfEquals(key, value) {
+      return (await client.eval(DEL_IF_EQUALS, 1, key, value)) === 1;
+    },
+
+    async sadd(key, member) {
+      await client.sadd(key, member);
+    },
+
+    async srem(key, member) {
+      await client.srem(key, member);
+    },
+
+    async smembers(key) {
+      return client.smembers(key);
+    },
+
+    async zadd(key, score, member) {
+      await client.zadd(key, score, member);
+    },
+
+    async zrem(key, member) {
+      await client.zrem(key, member);
+    },
+
+    async zrangeByScore(key, max) {
+      return client.zrangebyscore(key, '-inf', max);
+    },
+
+    socketAdapter() {
+      pubSub ??= [client.duplicate(), client.duplicate()];
+      return createAdapter(pubSub[0], pubSub[1]);
+    },
+
+    async close() {
+      await Promise.all([client, ...(pubSub ?? [])].map((c) => c.quit()));
+    },
+  };
+}
@@ -0,0 +1,151 @@
+// =============================================================================
+// repository.ts – Persistence layer for Who Lies Tonight (WLT)
+// Finished games, per-player scores and leaderboard queries go through a
+// GameRepository. Supabase, a local SQLite file or plain memory implement it;
+// `PERSISTENCE` picks one, so the server boots without any cloud credentials.
+// =============================================================================
+
+import type { Faction, Room } from './gameState.js';
+import { hasWon } from './gameLogic.js';
+import { factionOf } from './roles.js';
+import { createMemoryRepository } from './memoryRepository.js';
+import { createSqliteRepository } from './sqliteRepository.js';
+import { createSupabaseRepository } from './supabaseRepository.js';
+
+/** A completed game */
+export interface GameSessionRecord {
+  roomCode: string;
+  winner: Faction;
+  totalRounds: number;
+  totalPlayers: number;
+  /** Seed of the game's PRNG (reproduces the deal and every tiebreak) */
+  seed: number | null;
+  /** ISO timestamps */
+  startedAt: string;
+  endedAt: string;
+}
+
+/** One player's outcome of a completed game */
+export interface PlayerResult {
+  /** Stable per-browser session UUID — the leaderboard key */
+  sessionId: string;
+  name: string;
+  roomCode: string;
+  won: boolean;
+  scoreGain: number;
+}
+
+/** Leaderboard row (wire shape of GET /leaderboard) */
+export interface LeaderboardRow {
+  player_name: string;
+  total_score: number;
+  games_won: number;
+  games_played: number;
+}
+
+export interface LeaderboardQuery {
+  /** Only players whose last game was in this room */
+  roomCode?: string;
+  limit: number;
+}
+
+/** Storage for finished games and the leaderboard */
+export interface GameRepository {
+  /** Backend name, for logs */
+  readonly kind: PersistenceKind;
+  saveGameSession(session: GameSessionRecord): Promise<void>;
+  /** Add one game's outcome to the player's running totals (creating the row if needed) */
+  recordPlayerResult(result: PlayerResult): Promise<void>;
+  /** Top players by total score */
+  getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardRow[]>;
+}
+
+export type PersistenceKind = 'supabase' | 'sqlite' | 'memory';
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Default SQLite file (relative to the working directory) */
+const DEFAULT_SQLITE_PATH = './wlt.sqlite';
+
+/**
+ * Build the repository selected by `PERSISTENCE` (supabase | sqlite | memory).
+ * Without it: Supabase when its credentials are set, otherwise memory.
+ */
+export function createRepository(env: NodeJS.ProcessEnv = process.env): GameRepository {
+  const requested = env.PERSISTENCE?.trim().toLowerCase();
+  const kind: PersistenceKind = requested
+    ? parseKind(requested)
+    : env.SUPABASE_URL && env.SUPABASE_KEY ? 'supabase' : 'memory';
+
+  switch (kind) {
+    case 'supabase':
+      return createSupabaseRepository(env.SUPABASE_URL, env.SUPABASE_KEY);
+    case 'sqlite':
+      return createSqliteRepository(env.SQLITE_PATH || DEFAULT_SQLITE_PATH);
+    case 'memory':
+      return createMemoryRepository();
+  }
+}
+
+function parseKind(value: string): PersistenceKind {
+  if (value === 'supabase' || value === 'sqlite' || value === 'memory') return value;
+  throw new Error(`[Persistence] Unknown PERSISTENCE "${value}" (use supabase, sqlite or memory).`);
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+/** Points for each winning player, by the faction of their role */
+const WIN_POINTS: Record<Faction, number> = {
+  mafia: 10,
+  town: 5,
+  neutral: 8,
+  killer: 15,
+};
+
+/**
+ * Persist a finished game and add every player's result to the leaderboard.
+ * Players are keyed by session ID (a stable UUID per browser), not by name,
+ * so two different people with the same name never share a row.
+ */
+export async function recordGameResult(repo: GameRepository, room: Room, winner: Faction): Promise<void> {
+  const endedAt = new Date().toISOString();
+  const session: GameSessionRecord = {
+    roomCode: room.code,
+    winner,
+    totalRounds: room.round,
+    totalPlayers: room.players.size,
+    seed: room.seed,
+    startedAt: room.gameStartedAt ?? endedAt,
+    endedAt,
+  };
+
+  const results: PlayerResult[] = Array.from(room.players.values(), (player) => {
+    const won = hasWon(player, winner);
+    return {
+      sessionId: player.sessionId,
+      name: player.name,
+      roomCode: room.code,
+      won,
+      scoreGain: won ? WIN_POINTS[factionOf(player.role)] : 0,
+    };
+  });
+
+  // Independent writes — one failure must not drop the others
+  const outcomes = await Promise.allSettled([
+    repo.saveGameSession(session),
+    ...results.map((r) => repo.recordPlayerResult(r)),
+  ]);
+  for (const outcome of outcomes) {
+    if (outcome.status === 'rejected') {
+      console.error(`[Persistence:${repo.kind}] save failed for room=${room.code}:`, outcome.reason);
+    }
+  }
+  console.log(
+    `[Persistence:${repo.kind}] room=${room.code} winner=${winner} seed=${room.seed} ` +
+      `saved ${outcomes.filter((o) => o.status === 'fulfilled').length}/${outcomes.length}`
+  );
+}
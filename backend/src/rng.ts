@@ -0,0 +1,56 @@
+// =============================================================================
+// rng.ts – Seeded randomness for Who Lies Tonight (WLT)
+// Every game draws from a mulberry32 PRNG seeded once at start_game. The seed
+// is logged and stored with the game record, so a game can be replayed exactly
+// (same roles, tiebreaks, cutscenes and narration) from the seed and its inputs.
+// =============================================================================
+
+import { randomInt } from 'crypto';
+
+/** Random source returning a float in [0, 1) */
+export type Rng = () => number;
+
+/** A seeded Rng whose position can be saved and resumed with createRng(state()) */
+export type SeededRng = Rng & { state(): number };
+
+/** A fresh unpredictable 32-bit seed */
+export function randomSeed(): number {
+  return randomInt(0, 2 ** 32);
+}
+
+/**
+ * mulberry32 — small, fast 32-bit PRNG with a full 2^32 period.
+ * Same seed → same sequence, on every platform. Its whole state is one uint32,
+ * so `createRng(rng.state())` continues exactly where `rng` left off.
+ */
+export function createRng(seed: number): SeededRng {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Object.assign(next, { state: () => state });
+}
+
+/** Uniform integer in [0, max) */
+export function randomIndex(rng: Rng, max: number): number {
+  return Math.floor(rng() * max);
+}
+
+/** Uniformly random element of a non-empty array */
+export function pick<T>(rng: Rng, items: readonly T[]): T {
+  return items[randomIndex(rng, items.length)];
+}
+
+/** Unbiased Fisher–Yates shuffle; returns a new array */
+export function shuffle<T>(rng: Rng, items: readonly T[]): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = randomIndex(rng, i + 1);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
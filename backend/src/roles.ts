@@ -0,0 +1,233 @@
+// =============================================================================
+// roles.ts – Role registry for Who Lies Tonight (WLT)
+// Every role's faction, night action and targeting rules live in the shared
+// protocol (ROLE_RULES), which the client reads too; this table adds the
+// server-only parts: action priority, day abilities, dealing and win
+// condition. Role assignment, the night resolver and the win check all read
+// from here.
+// =============================================================================
+
+import {
+  ROLE_IDS,
+  ROLE_RULES,
+  type Faction,
+  type NightActionType,
+  type NightRules,
+  type Role,
+  type RoleRules,
+  type TargetRule,
+} from '../../protocol/index.js';
+import type { Player, RoomSettings } from './gameState.js';
+
+// Role IDs, factions, action names and targeting rules are wire vocabulary (shared protocol)
+export { ROLE_IDS, ROLE_RULES, type Faction, type NightActionType, type Role, type TargetRule };
+
+/** An ability used during the night phase (holders of a shared ability share one object) */
+export interface NightAbility extends NightRules {
+  /** Resolution order — lower numbers resolve first */
+  priority: number;
+}
+
+/** Day-phase capabilities */
+export interface DayAbility {
+  /** Whether the role may cast a lynch vote */
+  canVote: boolean;
+  /** How many votes a single ballot counts for */
+  voteWeight: number;
+}
+
+/** Snapshot handed to win conditions */
+export interface WinContext {
+  alive: Player[];
+  aliveByFaction: Record<Faction, number>;
+}
+
+/** Full declaration of a role */
+export interface RoleDefinition extends RoleRules {
+  night: NightAbility | null;
+  day: DayAbility;
+  /** How many of this role to deal for a given player count (null = filler) */
+  count: ((playerCount: number, settings: RoomSettings) => number) | null;
+  /** Returns true when this role's side has won (null: a neutral, see soloWin) */
+  winCondition: ((ctx: WinContext) => boolean) | null;
+  /** Neutral roles: returns true when `lynched` hanging wins the game for `self` */
+  soloWin?: (self: Player, lynched: Player) => boolean;
+  /** Dealt a lynch target from this faction at game start (executioner) */
+  lynchTargetFaction?: Faction;
+  /** Investigations read this role as innocent, whatever its faction (godfather) */
+  appearsInnocent?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Win conditions
+// ---------------------------------------------------------------------------
+
+/** Town wins once every mafia member and the serial killer are eliminated — with someone from town left standing */
+const townWins = (ctx: WinContext): boolean =>
+  ctx.aliveByFaction.town > 0 && ctx.aliveByFaction.mafia === 0 && ctx.aliveByFaction.killer === 0;
+
+/** Mafia wins when alive mafia ≥ everyone else alive and no serial killer is left to hunt them */
+const mafiaWins = (ctx: WinContext): boolean =>
+  ctx.aliveByFaction.mafia > 0 &&
+  ctx.aliveByFaction.killer === 0 &&
+  ctx.aliveByFaction.mafia >= ctx.alive.length - ctx.aliveByFaction.mafia;
+
+/** The serial killer wins only as the last one standing */
+const killerWins = (ctx: WinContext): boolean =>
+  ctx.aliveByFaction.killer > 0 && ctx.aliveByFaction.killer === ctx.alive.length;
+
+const STANDARD_VOTE: DayAbility = { canVote: true, voteWeight: 1 };
+
+/** Roles only dealt by a fixed setup, never by the auto-deal */
+const SETUP_ONLY = () => 0;
+
+/**
+ * Night resolution order: blocks land first, then protection, framing, kills,
+ * investigations (which read the night as it ended up) and finally observers
+ */
+const NIGHT_PRIORITY = { block: 5, protect: 10, frame: 15, kill: 20, investigate: 30, observe: 40 } as const;
+
+/** A role's night rules from the protocol, resolved at `priority` */
+function nightAbility(role: Role, priority: number): NightAbility {
+  const rules = ROLE_RULES[role].night;
+  if (!rules) throw new Error(`Role "${role}" has no night action in ROLE_RULES`);
+  return { ...rules, priority };
+}
+
+/**
+ * The mafia's nightly hit. Every role on the kill team shares this one object:
+ * the resolver groups entries by ability, so the whole team's votes are tallied
+ * together.
+ */
+const FAMILY_HIT = nightAbility('mafia', NIGHT_PRIORITY.kill);
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export const ROLES: Record<Role, RoleDefinition> = {
+  mafia: {
+    ...ROLE_RULES.mafia,
+    night: FAMILY_HIT,
+    day: STANDARD_VOTE,
+    // mafiaRatio (default ~33%) rounded down, min 1
+    count: (n, settings) => Math.max(1, Math.floor(n * settings.mafiaRatio)),
+    winCondition: mafiaWins,
+  },
+  doctor: {
+    ...ROLE_RULES.doctor,
+    night: nightAbility('doctor', NIGHT_PRIORITY.protect),
+    day: STANDARD_VOTE,
+    count: () => 1,
+    winCondition: townWins,
+  },
+  detective: {
+    ...ROLE_RULES.detective,
+    night: nightAbility('detective', NIGHT_PRIORITY.investigate),
+    day: STANDARD_VOTE,
+    // Only when player count > 4
+    count: (n) => (n > 4 ? 1 : 0),
+    winCondition: townWins,
+  },
+  citizen: {
+    ...ROLE_RULES.citizen,
+    day: STANDARD_VOTE,
+    count: null,
+    winCondition: townWins,
+  },
+  escort: {
+    ...ROLE_RULES.escort,
+    night: nightAbility('escort', NIGHT_PRIORITY.block),
+    day: STANDARD_VOTE,
+    count: SETUP_ONLY,
+    winCondition: townWins,
+  },
+  lookout: {
+    ...ROLE_RULES.lookout,
+    night: nightAbility('lookout', NIGHT_PRIORITY.observe),
+    day: STANDARD_VOTE,
+    count: SETUP_ONLY,
+    winCondition: townWins,
+  },
+  tracker: {
+    ...ROLE_RULES.tracker,
+    night: nightAbility('tracker', NIGHT_PRIORITY.observe),
+    day: STANDARD_VOTE,
+    count: SETUP_ONLY,
+    winCondition: townWins,
+  },
+  jester: {
+    ...ROLE_RULES.jester,
+    day: STANDARD_VOTE,
+    count: SETUP_ONLY,
+    winCondition: null,
+    // Wins by fooling the town into hanging them
+    soloWin: (self, lynched) => lynched.id === self.id,
+  },
+  executioner: {
+    ...ROLE_RULES.executioner,
+    day: STANDARD_VOTE,
+    count: SETUP_ONLY,
+    winCondition: null,
+    // Wins if still alive when their mark hangs
+    soloWin: (self, lynched) => self.alive && lynched.id === self.lynchTarget,
+    lynchTargetFaction: 'town',
+  },
+  serial_killer: {
+    ...ROLE_RULES.serial_killer,
+    // After the mafia's hit, so a shared victim is the mafia's
+    night: nightAbility('serial_killer', NIGHT_PRIORITY.kill + 5),
+    day: STANDARD_VOTE,
+    count: SETUP_ONLY,
+    winCondition: killerWins,
+  },
+  godfather: {
+    ...ROLE_RULES.godfather,
+    // Votes on the family's hit like any gangster
+    night: FAMILY_HIT,
+    day: STANDARD_VOTE,
+    count: SETUP_ONLY,
+    winCondition: mafiaWins,
+    appearsInnocent: true,
+  },
+  framer: {
+    ...ROLE_RULES.framer,
+    // Before any investigation, so tonight's reports see the planted evidence
+    night: nightAbility('framer', NIGHT_PRIORITY.frame),
+    day: STANDARD_VOTE,
+    count: SETUP_ONLY,
+    winCondition: mafiaWins,
+  },
+};
+
+/** Role dealt to everyone left over once counted roles are placed */
+export const FILLER_ROLE: Role = 'citizen';
+
+/** Order in which win conditions are checked — first satisfied side wins */
+export const WIN_CHECK_ORDER: Faction[] = ['town', 'mafia', 'killer'];
+
+/**
+ * Recorded as the winner when every side is wiped out (say the last gangster
+ * and the serial killer take each other down with no town left): no side wins,
+ * only neutrals who already reached their own goal.
+ */
+export const NO_WINNER: Faction = 'neutral';
+
+// ---------------------------------------------------------------------------
+// Lookups
+// ---------------------------------------------------------------------------
+
+/** Type guard for role ids coming from untrusted input */
+export function isRole(value: string): value is Role {
+  return (ROLE_IDS as readonly string[]).includes(value);
+}
+
+/** Faction of a role */
+export function factionOf(role: Role): Faction {
+  return ROLES[role].faction;
+}
+
+/** Night ability of a role, or null if it sleeps through the night */
+export function nightAbilityOf(role: Role): NightAbility | null {
+  return ROLES[role].night;
+}
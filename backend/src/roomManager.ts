@@ -1,69 +1,214 @@
 // =============================================================================
-// roomManager.ts – In-memory room store + lifecycle management for WLT
+// roomManager.ts – Shared room store + lifecycle management for WLT
+// Each room is owned by a GameEngine whose snapshot lives in a SharedStore
+// (Redis or in-process), so any server process can run any room's commands.
+// A per-room lock serializes commands across processes; every process caches
+// the engines it has touched and only replays a room another process changed.
 // =============================================================================
 
-import type { Room } from './gameState.js';
+import { randomUUID } from 'crypto';
 import { generateRoomCode } from './gameLogic.js';
+import { createRng, randomSeed } from './rng.js';
+import { GameEngine, type EngineDeps, type EngineSnapshot } from './gameEngine.js';
+import { nextSeq } from './gameLog.js';
+import { createMemoryStore } from './memoryStore.js';
+import { roomSnapshot, type RoomSnapshotStore } from './roomStore.js';
+import type { SharedStore } from './sharedStore.js';
 
-/** In-memory store of all active rooms */
-const rooms = new Map<string, Room>();
+/** Where rooms live; replaced by initRoomManager on startup */
+let store: SharedStore = createMemoryStore();
+
+/** Clock / seed overrides for every engine this process builds */
+let engineDeps: Partial<EngineDeps> = {};
+
+/** Engines this process has loaded, by room code (a cache — the store is the truth) */
+const cache = new Map<string, GameEngine>();
+/** Room code → store version the cached engine was loaded or saved at */
+const cachedVersion = new Map<string, number>();
 
 /** Session ID → socket ID (for reconnect) */
 const sessionToSocket = new Map<string, string>();
 
-/** Room inactivity timeout: 10 minutes */
+/** Random source for room codes (independent of any game's seeded RNG) */
+const codeRng = createRng(randomSeed());
+
+/** Room inactivity timeout: 10 minutes (also the stored room's expiry) */
 const ROOM_INACTIVITY_MS = 10 * 60 * 1000;
 
+/** A room lock expires on its own if its holder dies mid-command */
+const LOCK_TTL_MS = 5_000;
+/** How long a command waits for another process to release the room */
+const LOCK_WAIT_MS = 3_000;
+const LOCK_RETRY_MS = 15;
+
+/** How often the deadline sweep looks for overdue rooms */
+const SWEEP_INTERVAL_MS = 1_000;
+
+// Store keys
+const roomKey = (code: string) => `wlt:room:${code}`;
+/**
+ * Counter bumped on every write and on delete — lets a cached engine skip the
+ * replay. It outlives the room (until it expires), so a room re-created under
+ * the same code never matches an engine cached from the old one.
+ */
+const versionKey = (code: string) => `wlt:room:${code}:version`;
+const lockKey = (code: string) => `wlt:room:${code}:lock`;
+/** Sorted set: room code scored by its engine's next deadline */
+const DEADLINES_KEY = 'wlt:deadlines';
+
+/** Use `shared` for every room from now on. Call once on server startup. */
+export function initRoomManager(shared: SharedStore, deps: Partial<EngineDeps> = {}): void {
+  store = shared;
+  engineDeps = deps;
+  cache.clear();
+  cachedVersion.clear();
+}
+
+// ---------------------------------------------------------------------------
+// Locking + persistence
+// ---------------------------------------------------------------------------
+
+/** Thrown when another process holds a room for longer than LOCK_WAIT_MS */
+export class RoomBusyError extends Error {
+  constructor(code: string) {
+    super(`Room ${code} is busy. Try again.`);
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Take the room's lock; returns its token, or null if `wait` is off and it is held */
+async function lock(code: string, wait: boolean): Promise<string | null> {
+  const token = randomUUID();
+  const giveUpAt = Date.now() + LOCK_WAIT_MS;
+  while (!(await store.set(lockKey(code), token, { ttlMs: LOCK_TTL_MS, onlyIfAbsent: true }))) {
+    if (!wait) return null;
+    if (Date.now() > giveUpAt) throw new RoomBusyError(code);
+    await sleep(LOCK_RETRY_MS);
+  }
+  return token;
+}
+
+/** The room's current store version (0 when it never existed or has expired) */
+async function storedVersion(code: string): Promise<number> {
+  return Number((await store.get(versionKey(code))) ?? 0);
+}
+
+/** Move the room's version past every earlier write; returns the new version */
+async function bumpVersion(code: string): Promise<number> {
+  const version = (await storedVersion(code)) + 1;
+  await store.set(versionKey(code), String(version), { ttlMs: ROOM_INACTIVITY_MS });
+  return version;
+}
+
+function forget(code: string): void {
+  cache.delete(code);
+  cachedVersion.delete(code);
+}
+
+/** The room's engine, from cache when it is current; undefined if the room is gone */
+async function load(code: string): Promise<GameEngine | undefined> {
+  const version = await storedVersion(code);
+  const cached = cache.get(code);
+  if (cached && cachedVersion.get(code) === version) return cached;
+
+  const raw = await store.get(roomKey(code));
+  if (raw === null) {
+    forget(code);
+    return undefined;
+  }
+  const game = GameEngine.restore(JSON.parse(raw) as EngineSnapshot, engineDeps);
+  cache.set(code, game);
+  cachedVersion.set(code, version);
+  return game;
+}
+
+/** Write the engine back (refreshing the inactivity expiry) and index its next deadline */
+async function persist(game: GameEngine): Promise<void> {
+  const { code } = game.room;
+  await store.set(roomKey(code), JSON.stringify(game.toSnapshot()), { ttlMs: ROOM_INACTIVITY_MS });
+  cachedVersion.set(code, await bumpVersion(code));
+
+  const deadline = game.nextDeadline();
+  if (deadline === null) await store.zrem(DEADLINES_KEY, code);
+  else await store.zadd(DEADLINES_KEY, deadline, code);
+}
+
+async function remove(code: string): Promise<void> {
+  forget(code);
+  await store.del(roomKey(code));
+  await bumpVersion(code);
+  await store.zrem(DEADLINES_KEY, code);
+}
+
 // ---------------------------------------------------------------------------
 // CRUD
 // ---------------------------------------------------------------------------
 
 /**
- * Create a new room with a unique 6-char code.
+ * Create a new room with a unique 6-char code and the engine that runs it,
+ * then run `fn` on it (the host still has to `join`). An engine left empty
+ * by `fn` is discarded.
  */
-export function createRoom(hostSocketId: string): Room {
+export async function createRoom<T>(hostSocketId: string, fn: (game: GameEngine) => T): Promise<T> {
   let code: string;
-  // Avoid collision (extremely unlikely but safe)
-  do {
-    code = generateRoomCode();
-  } while (rooms.has(code));
-
-  const room: Room = {
-    code,
-    hostId: hostSocketId,
-    players: new Map(),
-    phase: 'lobby',
-    round: 0,
-    mafiaVotes: [],
-    doctorSave: null,
-    detectiveTarget: null,
-    votes: new Map(),
-    timer: null,
-    lastActivity: Date.now(),
-    nightActionsSubmitted: new Set(),
-    started: false,
-  };
+  let token: string | null;
+  // Avoid collision with rooms on any process (extremely unlikely but safe)
+  for (;;) {
+    code = generateRoomCode(codeRng);
+    token = await lock(code, false);
+    if (!token) continue;
+    if ((await store.get(roomKey(code))) === null) break;
+    await store.delIfEquals(lockKey(code), token);
+  }
 
-  rooms.set(code, room);
-  return room;
+  try {
+    const game = GameEngine.create(code, hostSocketId, engineDeps);
+    cache.set(code, game);
+    const result = fn(game);
+    if (game.isEmpty()) forget(code);
+    else await persist(game);
+    return result;
+  } finally {
+    await store.delIfEquals(lockKey(code), token);
+  }
 }
 
-/** Get a room by code. Returns undefined if not found. */
-export function getRoom(code: string): Room | undefined {
-  return rooms.get(code);
-}
+/**
+ * Run `fn` on a room's engine while holding the room's lock, then store what
+ * changed. Resolves to undefined when the room does not exist — or, with
+ * `wait: false`, when another process holds it right now.
+ */
+export async function withRoom<T>(
+  code: string,
+  fn: (game: GameEngine) => T,
+  { wait = true }: { wait?: boolean } = {}
+): Promise<T | undefined> {
+  const token = await lock(code, wait);
+  if (!token) return undefined;
 
-/** Delete a room and clear its timer */
-export function deleteRoom(code: string): void {
-  const room = rooms.get(code);
-  if (room?.timer) clearTimeout(room.timer);
-  rooms.delete(code);
-}
+  try {
+    const game = await load(code);
+    if (!game) {
+      await store.zrem(DEADLINES_KEY, code);
+      return undefined;
+    }
+
+    const before = nextSeq(game.room);
+    let result: T;
+    try {
+      result = fn(game);
+    } catch (err) {
+      forget(code); // half-applied — reload from the store next time
+      throw err;
+    }
 
-/** Update the last-activity timestamp for a room */
-export function touchRoom(code: string): void {
-  const room = rooms.get(code);
-  if (room) room.lastActivity = Date.now();
+    if (game.isEmpty()) await remove(code);
+    else if (nextSeq(game.room) !== before) await persist(game);
+    return result;
+  } finally {
+    await store.delIfEquals(lockKey(code), token);
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -85,27 +230,122 @@ export function removeSession(sessionId: string): void {
   sessionToSocket.delete(sessionId);
 }
 
+// ---------------------------------------------------------------------------
+// Phase timers
+// ---------------------------------------------------------------------------
+
+/**
+ * Every SWEEP_INTERVAL_MS, hand each room whose next deadline has passed to
+ * `onDue`. The process that last changed a room arms a precise local timer;
+ * the sweep lets any process pick up a deadline whose timer died with its
+ * process. The room lock makes whichever gets there first the one to tick.
+ */
+export function startDeadlineSweep(onDue: (code: string) => void): void {
+  setInterval(() => {
+    store
+      .zrangeByScore(DEADLINES_KEY, Date.now())
+      .then((codes) => codes.forEach(onDue))
+      .catch((err) => console.error('[Timers] Deadline sweep failed:', err));
+  }, SWEEP_INTERVAL_MS);
+}
+
 // ---------------------------------------------------------------------------
 // Cleanup
 // ---------------------------------------------------------------------------
 
 /**
- * Start a periodic cleanup interval that removes rooms inactive for >10 minutes.
- * Call once on server startup.
+ * Start a periodic cleanup interval that forgets rooms inactive for >10 minutes
+ * (the store expires its own copy). Call once on server startup; `onRemove`
+ * lets the caller drop its own per-room state.
  */
-export function startCleanupInterval(): void {
+export function startCleanupInterval(onRemove?: (code: string) => void): void {
   setInterval(() => {
     const now = Date.now();
-    for (const [code, room] of rooms) {
-      if (now - room.lastActivity > ROOM_INACTIVITY_MS) {
+    for (const [code, game] of cache) {
+      if (now - game.room.lastActivity > ROOM_INACTIVITY_MS) {
         console.log(`[Cleanup] Removing inactive room ${code}`);
-        deleteRoom(code);
+        forget(code);
+        onRemove?.(code);
       }
     }
   }, 60_000); // Check every minute
 }
 
-/** Get a list of all active room codes (for debugging) */
+// ---------------------------------------------------------------------------
+// Snapshots (survive a restart of a single-process server)
+// ---------------------------------------------------------------------------
+
+/** How often changed rooms are snapshotted to disk */
+const SNAPSHOT_INTERVAL_MS = 5_000;
+
+/** Room code → next log seq at its last snapshot */
+const savedSeq = new Map<string, number>();
+
+/**
+ * Load every stored room back into the room store. Each restored engine has
+ * already queued its restart notices and grace windows — the caller should
+ * flush it to arm timers. Returns the restored engines.
+ */
+export async function restoreRooms(snapshots: RoomSnapshotStore): Promise<GameEngine[]> {
+  const restored: GameEngine[] = [];
+  for (const snapshot of await snapshots.loadAll()) {
+    if (cache.has(snapshot.code)) continue;
+    try {
+      const game = GameEngine.restore(snapshot.engine, engineDeps);
+      game.resumeAfterRestart();
+      cache.set(snapshot.code, game);
+      await persist(game);
+      savedSeq.set(snapshot.code, -1); // resume notices are not on disk yet
+      restored.push(game);
+    } catch (err) {
+      console.error(`[Snapshots] Could not restore room ${snapshot.code}:`, err);
+      await snapshots.remove(snapshot.code);
+    }
+  }
+  return restored;
+}
+
+/** Write every room whose log changed since its last snapshot; forget deleted rooms */
+async function saveChangedRooms(snapshots: RoomSnapshotStore, force = false): Promise<void> {
+  for (const [code, game] of cache) {
+    const seq = nextSeq(game.room);
+    if (!force && savedSeq.get(code) === seq) continue;
+    try {
+      await snapshots.save(roomSnapshot(code, game.toSnapshot()));
+      savedSeq.set(code, seq);
+    } catch (err) {
+      console.error(`[Snapshots] Could not save room ${code}:`, err);
+    }
+  }
+
+  for (const code of Array.from(savedSeq.keys())) {
+    if (cache.has(code)) continue;
+    savedSeq.delete(code);
+    await snapshots.remove(code).catch((err) => console.error(`[Snapshots] Could not remove room ${code}:`, err));
+  }
+}
+
+/**
+ * Snapshot changed rooms every few seconds. Only meaningful when this process
+ * holds every room (in-process store); Redis already outlives a restart.
+ */
+export function startSnapshotInterval(snapshots: RoomSnapshotStore): void {
+  let saving = false;
+  setInterval(() => {
+    if (saving) return;
+    saving = true;
+    void saveChangedRooms(snapshots).finally(() => {
+      saving = false;
+    });
+  }, SNAPSHOT_INTERVAL_MS);
+}
+
+/** Snapshot every room now (graceful shutdown) */
+export function saveAllRooms(snapshots: RoomSnapshotStore): Promise<void> {
+  return saveChangedRooms(snapshots, true);
+}
+
+/** Codes of the rooms this process has loaded (for debugging) */
 export function getAllRoomCodes(): string[] {
-  return Array.from(rooms.keys());
+  return Array.from(cache.keys());
 }
@@ -0,0 +1,86 @@
+// =============================================================================
+// roomStore.ts – Crash-safe room snapshots for Who Lies Tonight (WLT)
+// Every live room is periodically written to local disk (its event log plus
+// the game PRNG's position), so a restarted server can pick games back up
+// where they were: same phase, deadline, votes and night actions.
+// =============================================================================
+
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { EngineSnapshot } from './gameEngine.js';
+
+/** Bumped whenever the snapshot shape changes; older files are ignored */
+const SNAPSHOT_VERSION = 1;
+
+/** One room on disk */
+export interface RoomSnapshot {
+  version: typeof SNAPSHOT_VERSION;
+  code: string;
+  /** Epoch ms */
+  savedAt: number;
+  engine: EngineSnapshot;
+}
+
+/** Where room snapshots live */
+export interface RoomSnapshotStore {
+  save(snapshot: RoomSnapshot): Promise<void>;
+  remove(code: string): Promise<void>;
+  /** Every readable snapshot; unreadable or outdated files are skipped */
+  loadAll(): Promise<RoomSnapshot[]>;
+}
+
+/** Default snapshot directory (relative to the working directory) */
+const DEFAULT_SNAPSHOT_DIR = './.wlt-rooms';
+
+/** Build a snapshot record for a room */
+export function roomSnapshot(code: string, engine: EngineSnapshot, savedAt = Date.now()): RoomSnapshot {
+  return { version: SNAPSHOT_VERSION, code, savedAt, engine };
+}
+
+// ---------------------------------------------------------------------------
+// File store
+// ---------------------------------------------------------------------------
+
+/**
+ * One JSON file per room under `dir` (`ROOM_SNAPSHOT_DIR` by default).
+ * Files are written to a temp name and renamed, so a crash mid-write never
+ * leaves a truncated snapshot behind.
+ */
+export function createFileSnapshotStore(dir = process.env.ROOM_SNAPSHOT_DIR || DEFAULT_SNAPSHOT_DIR): RoomSnapshotStore {
+  const fileFor = (code: string) => path.join(dir, `${code}.json`);
+  let ready: Promise<unknown> | null = null;
+  const ensureDir = () => (ready ??= mkdir(dir, { recursive: true }));
+
+  return {
+    async save(snapshot) {
+      await ensureDir();
+      const file = fileFor(snapshot.code);
+      const tmp = `${file}.tmp`;
+      await writeFile(tmp, JSON.stringify(snapshot));
+      await rename(tmp, file);
+    },
+
+    async remove(code) {
+      await rm(fileFor(code), { force: true });
+    },
+
+    async loadAll() {
+      await ensureDir();
+      const snapshots: RoomSnapshot[] = [];
+      for (const name of await readdir(dir)) {
+        if (!name.endsWith('.json')) continue;
+        try {
+          const snapshot = JSON.parse(await readFile(path.join(dir, name), 'utf8')) as RoomSnapshot;
+          if (snapshot.version !== SNAPSHOT_VERSION || !Array.isArray(snapshot.engine?.log)) {
+            console.warn(`[Snapshots] Skipping ${name}: unsupported snapshot version`);
+            continue;
+          }
+          snapshots.push(snapshot);
+        } catch (err) {
+          console.warn(`[Snapshots] Skipping ${name}:`, err instanceof Error ? err.message : err);
+        }
+      }
+      return snapshots;
+    },
+  };
+}
@@ -1,6 +1,11 @@
 // =============================================================================
 // server.ts – Who Lies Tonight (WLT) – Express + Socket.io v4.8 Server
-// Handles all game logic, room management, and real-time communication.
+// Thin adapter: socket events become GameEngine commands, and the engine's
+// domain events are delivered to rooms / sockets. Also owns phase timers
+// (armed from GameEngine.nextDeadline), persistence and WebRTC signaling.
+// Several processes can run side by side when REDIS_URL is set (or, locally,
+// when one process hosts the store for the others — see localStore.ts): rooms
+// live in the shared store and its Socket.io adapter carries emits between them.
 // Port: 3001 (configure via PORT env var)
 //
 // FIX: socketToRoom Map tracks which room each socket is in so the disconnect
@@ -15,41 +20,40 @@ import { Server, Socket } from 'socket.io';
 import cors from 'cors';
 import os from 'os';
 import {
+  RoomBusyError,
   createRoom,
-  getRoom,
-  deleteRoom,
-  touchRoom,
+  initRoomManager,
+  withRoom,
   registerSession,
-  socketForSession,
   removeSession,
+  restoreRooms,
+  saveAllRooms,
   startCleanupInterval,
+  startDeadlineSweep,
+  startSnapshotInterval,
 } from './roomManager.js';
+import { createFileSnapshotStore } from './roomStore.js';
+import { createSharedStore } from './sharedStore.js';
+import { InvalidPayloadError, parseClientEvent } from './validation.js';
+import { sanitizeUsername } from './gameLogic.js';
+import { DEFAULT_SETTINGS } from './settings.js';
+import { SETUP_PRESETS } from './setups.js';
+import { createRepository, recordGameResult } from './repository.js';
+import { factionOf } from './roles.js';
 import {
-  assignRoles,
-  resolveNight,
-  resolveDayVote,
-  checkWinCondition,
-  getAlivePlayers,
-  getAliveMafia,
-  sanitizeUsername,
-  createPlayer,
-  MIN_PLAYERS,
-  MAX_PLAYERS,
-  NIGHT_DURATION_MS,
-  DAY_DISCUSS_MS,
-  VOTE_DURATION_MS,
-} from './gameLogic.js';
-import { getNarratorText } from './narrator.js';
-import { supabase } from './supabase.js';
-import type {
-  Avatar,
-  PublicPlayer,
-  ChatMessage,
-  NarratePayload,
-  CutscenePayload,
-  VoteUpdatePayload,
-  GameEndPayload,
-} from './gameState.js';
+  ERROR_CATALOG,
+  PROTOCOL_VERSION,
+  type AckCallback,
+  type ClientToServerEvents,
+  type ErrorPayload,
+  type HandshakeAuth,
+  type HandshakeErrorData,
+  type RtcChannel,
+  type ServerToClientEvents,
+} from '../../protocol/index.js';
+import type { GameEngine, CommandResult } from './gameEngine.js';
+import type { EngineEvent } from './events.js';
+import type { Room } from './gameState.js';
 
 // ---------------------------------------------------------------------------
 // Express + HTTP + Socket.io setup
@@ -58,7 +62,10 @@ import type {
 const app = express();
 const httpServer = createServer(app);
 
-const io = new Server(httpServer, {
+type WltServer = Server<ClientToServerEvents, ServerToClientEvents>;
+type WltSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+const io: WltServer = new Server(httpServer, {
   cors: {
     origin: '*', // In production: restrict to your Vercel domain
     methods: ['GET', 'POST'],
@@ -70,54 +77,104 @@ const io = new Server(httpServer, {
 app.use(cors());
 app.use(express.json());
 
+/** Rooms, locks, deadlines and voice channels (Redis, a locally hosted store or in-process — see sharedStore.ts) */
+const sharedStore = createSharedStore();
+initRoomManager(sharedStore);
+if (sharedStore.socketAdapter) io.adapter(sharedStore.socketAdapter());
+console.log(`[Rooms] Using ${sharedStore.kind} room store`);
+
+/** Finished games + leaderboard (Supabase, SQLite file or memory — see PERSISTENCE) */
+const repository = createRepository();
+console.log(`[Persistence] Using ${repository.kind} storage`);
+
+/**
+ * Live rooms on local disk, so games survive a restart (see ROOM_SNAPSHOT_DIR).
+ * Only for the single-process room store — Redis keeps rooms across restarts
+ * itself, and a locally hosted store is for trying several processes out.
+ */
+const snapshotStore = sharedStore.kind === 'memory' ? createFileSnapshotStore() : null;
+
 // ── Socket-to-room mapping ────────────────────────────────────────────────────
 // Tracks which WLT room code each socket ID is currently in.
-// Updated on join/create and cleared on leave/disconnect.
+// Updated on join/create and cleared on leave/disconnect. Local to this
+// process on purpose: a socket only ever lives on the process it connected to.
 const socketToRoom = new Map<string, string>();
 
 // ── WebRTC audio channel membership ─────────────────────────────────────────
-// Per room-code: which socket IDs are in each audio channel.
-const rtcChannels = new Map<string, { general: Set<string>; mafia: Set<string> }>();
+// Per room-code: which socket IDs are in each audio channel (a shared-store set,
+// so peers connected to different processes still find each other).
+const RTC_CHANNELS: RtcChannel[] = ['general', 'mafia', 'dead'];
+const rtcKey = (code: string, channel: RtcChannel) => `wlt:rtc:${code}:${channel}`;
+
+/**
+ * Whether a room member may join a voice channel. Spectators can listen in on
+ * general and talk in the graveyard; the living never get into the graveyard.
+ */
+function mayJoinVoice(room: Room, socketId: string, channel: RtcChannel): boolean {
+  if (room.spectators.has(socketId)) return channel !== 'mafia';
+  const player = room.players.get(socketId);
+  if (!player) return false;
+  if (channel === 'mafia') return factionOf(player.role) === 'mafia';
+  if (channel === 'dead') return !player.alive;
+  return true;
+}
+
+/** Whether two sockets share a voice channel (signaling is only relayed between them) */
+async function rtcSharesChannel(code: string, a: string, b: string): Promise<boolean> {
+  for (const channel of RTC_CHANNELS) {
+    const members = await sharedStore.smembers(rtcKey(code, channel));
+    if (members.includes(a) && members.includes(b)) return true;
+  }
+  return false;
+}
+
+/** Take a socket out of every channel; returns the peers that were with it */
+async function rtcRemoveSocket(socketId: string, code: string): Promise<string[]> {
+  const peers: string[] = [];
+  for (const channel of RTC_CHANNELS) {
+    await sharedStore.srem(rtcKey(code, channel), socketId);
+    peers.push(...(await sharedStore.smembers(rtcKey(code, channel))));
+  }
+  return peers;
+}
 
-function ensureRtcRoom(code: string) {
-  if (!rtcChannels.has(code)) rtcChannels.set(code, { general: new Set(), mafia: new Set() });
-  return rtcChannels.get(code)!;
+function rtcDropRoom(code: string): void {
+  sharedStore
+    .del(...RTC_CHANNELS.map((channel) => rtcKey(code, channel)))
+    .catch((err) => console.error(`[RTC] Could not clear voice channels of ${code}:`, err));
 }
 
-function rtcRemoveSocket(socketId: string, code: string) {
-  const ch = rtcChannels.get(code);
-  if (!ch) return;
-  ch.general.delete(socketId);
-  ch.mafia.delete(socketId);
+/**
+ * Signaling handlers go through the shared store; with Redis or a hosted local
+ * store a call can fail, and that must be logged rather than left unhandled.
+ */
+function rtcHandler<T>(event: string, handler: (data: T) => Promise<void>): (data: T) => void {
+  return (data) => {
+    handler(data).catch((err) => console.error(`[RTC] ${event} failed:`, err));
+  };
 }
 
 // Health check endpoint
 app.get('/health', (_req, res) => {
-  res.json({ status: 'ok', time: new Date().toISOString() });
+  res.json({ status: 'ok', protocol: PROTOCOL_VERSION, time: new Date().toISOString() });
 });
 
 // Leaderboard endpoint – filtered by room code if ?room= param provided
 app.get('/leaderboard', async (req, res) => {
   const roomCode = req.query.room as string | undefined;
 
-  let query = supabase
-    .from('player_scores')
-    .select('player_name, total_score, games_won, games_played')
-    .order('total_score', { ascending: false })
-    .limit(10);
-
-  if (roomCode) {
-    query = query.eq('last_room_code', roomCode.toUpperCase());
-  }
-
-  const { data, error } = await query;
-
-  if (error) {
-    console.error('[Leaderboard] Supabase error:', error.message);
-    return res.status(500).json({ error: error.message });
+  try {
+    res.json(await repository.getLeaderboard({ roomCode: roomCode?.toUpperCase(), limit: 10 }));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`[Leaderboard] ${repository.kind} error:`, message);
+    res.status(500).json({ error: message });
   }
+});
 
-  res.json(data ?? []);
+// Built-in role setups offered in the lobby
+app.get('/setups', (_req, res) => {
+  res.json(SETUP_PRESETS);
 });
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 3001;
@@ -135,979 +192,562 @@ function getLocalIPs(): string[] {
 }
 
 // ---------------------------------------------------------------------------
-// Utility helpers
+// Engine adapter
 // ---------------------------------------------------------------------------
 
-/** Convert a room's players Map to a public players array (role hidden) */
-function toPublicPlayers(room: ReturnType<typeof getRoom>, hostId: string): PublicPlayer[] {
-  if (!room) return [];
-  return Array.from(room.players.values()).map((p) => ({
-    id: p.id,
-    name: p.name,
-    avatar: p.avatar,
-    alive: p.alive,
-    connected: p.connected,
-    isHost: p.id === hostId,
-  }));
-}
+/** Pending phase / grace timer per room code (armed from nextDeadline) */
+const roomTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
-/** Emit room state to all players in a room */
-function broadcastRoomUpdate(code: string): void {
-  const room = getRoom(code);
-  if (!room) return;
-  io.to(code).emit('room_updated', {
-    code: room.code,
-    phase: room.phase,
-    round: room.round,
-    players: toPublicPlayers(room, room.hostId),
-    started: room.started,
-  });
+function clearRoomTimer(code: string): void {
+  const timer = roomTimers.get(code);
+  if (timer) clearTimeout(timer);
+  roomTimers.delete(code);
 }
 
-/** Broadcast vote tally to all players in a room */
-function broadcastVoteTally(code: string): void {
-  const room = getRoom(code);
-  if (!room) return;
-
-  const votes: Record<string, string> = {};
-  const tally: Record<string, number> = {};
-
-  for (const [voterId, targetId] of room.votes) {
-    votes[voterId] = targetId;
-    tally[targetId] = (tally[targetId] ?? 0) + 1;
-  }
-
-  const payload: VoteUpdatePayload = { votes, tally };
-  io.to(code).emit('vote_updated', payload);
+/** Run a room's due phase steps / grace expiries (whichever process gets the lock) */
+function tickRoom(code: string, wait = true): void {
+  withRoom(code, (game) => {
+    game.tick();
+    flush(game);
+  }, { wait }).catch((err) => console.error(`[Timers] Tick failed for room ${code}:`, err));
 }
 
-/** Send a system chat message to a room */
-function systemMessage(code: string, text: string): void {
-  const msg: ChatMessage = {
-    senderId: 'system',
-    senderName: 'System',
-    text,
-    channel: 'global',
-    timestamp: Date.now(),
-  };
-  io.to(code).emit('chat', msg);
-}
-
-// ---------------------------------------------------------------------------
-// Phase state machine
-// ---------------------------------------------------------------------------
-
-/** Start the night phase for a room */
-function startNightPhase(code: string): void {
-  const room = getRoom(code);
-  if (!room) return;
-
-  // Clear previous night state
-  room.phase = 'night';
-  room.round += 1;
-  room.mafiaVotes = [];
-  room.doctorSave = null;
-  room.detectiveTarget = null;
-  room.nightActionsSubmitted = new Set();
-
-  touchRoom(code);
-
-  io.to(code).emit('phase_changed', {
-    phase: 'night',
-    round: room.round,
-    timer: NIGHT_DURATION_MS,
-  });
+/**
+ * Re-arm the room's single timer for the engine's next deadline. The process
+ * that last changed a room owns its timer; the deadline sweep covers rooms
+ * whose owner went away.
+ */
+function armRoomTimer(game: GameEngine): void {
+  const code = game.room.code;
+  clearRoomTimer(code);
 
-  systemMessage(code, `Night ${room.round} begins. The city goes dark...`);
+  const deadline = game.nextDeadline();
+  if (deadline === null) return;
 
-  // Auto-advance after NIGHT_DURATION_MS
-  if (room.timer) clearTimeout(room.timer);
-  room.timer = setTimeout(() => resolveNightPhase(code), NIGHT_DURATION_MS);
+  roomTimers.set(code, setTimeout(() => {
+    roomTimers.delete(code);
+    tickRoom(code);
+  }, Math.max(0, deadline - Date.now())));
 }
 
-/** Resolve night phase – compute kills/saves, emit narrate + cutscene, start day */
-function resolveNightPhase(code: string): void {
-  const room = getRoom(code);
-  if (!room || room.phase !== 'night') return;
-
-  const result = resolveNight(room);
-
-  // Apply kill if not saved
-  let killedPlayer = null;
-  if (result.killedPlayerId && !result.saved) {
-    const target = room.players.get(result.killedPlayerId);
-    if (target) {
-      target.alive = false;
-      killedPlayer = target;
-      io.to(code).emit('player_eliminated', {
-        playerId: target.id,
-        playerName: target.name,
-        cause: 'night_kill',
-      });
+/**
+ * Deliver one engine event to its audience. Private emits go through each
+ * player's own Socket.io room (every socket sits in a room named after its
+ * ID), so they reach the player whichever process holds their connection.
+ */
+function deliver(game: GameEngine, event: EngineEvent): void {
+  const { room } = game;
+  const { audience } = event;
+
+  if (event.type !== 'player_removed') {
+    // Engine event names are protocol event names (EngineEventMap picks them);
+    // TS can't correlate the type/payload union on its own
+    const emit = (target: ReturnType<WltServer['to']>) =>
+      (target.emit as (type: typeof event.type, payload: typeof event.payload) => boolean)(event.type, event.payload);
+
+    switch (audience.kind) {
+      case 'room':
+        emit(io.to(room.code));
+        break;
+      case 'player':
+        emit(io.to(audience.playerId));
+        break;
+      case 'faction': {
+        const members = Array.from(room.players.values())
+          .filter((p) => factionOf(p.role) === audience.faction)
+          .map((p) => p.id);
+        if (members.length > 0) emit(io.to(members));
+        break;
+      }
+      case 'spectators': {
+        const spectators = Array.from(room.spectators.keys());
+        if (spectators.length > 0) emit(io.to(spectators));
+        break;
+      }
+      case 'dead': {
+        const dead = Array.from(room.players.values())
+          .filter((p) => !p.alive)
+          .map((p) => p.id)
+          .concat(Array.from(room.spectators.keys()));
+        if (dead.length > 0) emit(io.to(dead));
+        break;
+      }
+      case 'server':
+        break;
     }
   }
 
-  // Emit cutscene to all players (if kill or save happened)
-  if (result.cutsceneVariant) {
-    const victim = result.killedPlayerId ? room.players.get(result.killedPlayerId) : null;
-    const cutscenePayload: CutscenePayload = {
-      variant: result.cutsceneVariant,
-      victimId: victim?.id ?? null,
-      victimName: victim?.name ?? null,
-      victimAvatar: victim?.avatar ?? null,
-      saved: result.saved,
-    };
-    io.to(code).emit('cutscene', cutscenePayload);
+  // Side effects owned by the host process
+  if (event.type === 'player_removed') {
+    removeSession(event.payload.sessionId);
+    socketToRoom.delete(event.payload.playerId);
+  } else if (event.type === 'game_ended') {
+    void recordGameResult(repository, room, event.payload.winner);
+  } else if (event.type === 'room_reset') {
+    // Everyone is alive again — nobody may stay in the graveyard channel
+    sharedStore
+      .del(rtcKey(room.code, 'dead'))
+      .catch((err) => console.error(`[RTC] Could not clear the graveyard of ${room.code}:`, err));
   }
+}
 
-  // Emit narrator text
-  const narrateText = getNarratorText(
-    result.outcome,
-    killedPlayer?.name ?? (result.killedPlayerId ? room.players.get(result.killedPlayerId)?.name ?? null : null)
-  );
-  const narratePayload: NarratePayload = {
-    text: narrateText,
-    outcome: result.outcome,
-  };
-  io.to(code).emit('narrate', narratePayload);
+/**
+ * Deliver queued events and re-arm the room's timer. Call inside withRoom —
+ * the room manager drops a room left empty once the command returns.
+ */
+function flush(game: GameEngine): void {
+  for (const event of game.drainEvents()) deliver(game, event);
 
-  // Check win after night
-  const winResult = checkWinCondition(room);
-  if (winResult) {
-    endGame(code, winResult);
+  if (game.isEmpty()) {
+    clearRoomTimer(game.room.code);
+    rtcDropRoom(game.room.code);
     return;
   }
-
-  // Start day discussion phase after a short delay (let cutscene play)
-  const cutsceneDelay = result.cutsceneVariant ? 12_000 : 2_000;
-  if (room.timer) clearTimeout(room.timer);
-  room.timer = setTimeout(() => startDayPhase(code), cutsceneDelay);
+  armRoomTimer(game);
 }
 
-/** Start the day discussion phase */
-function startDayPhase(code: string): void {
-  const room = getRoom(code);
-  if (!room) return;
-
-  room.phase = 'day';
-  room.votes = new Map();
-  touchRoom(code);
-
-  io.to(code).emit('phase_changed', {
-    phase: 'day',
-    round: room.round,
-    timer: DAY_DISCUSS_MS,
-  });
-
-  systemMessage(code, 'Dawn breaks. Discuss and find the traitors among you.');
-
-  if (room.timer) clearTimeout(room.timer);
-  room.timer = setTimeout(() => startVotePhase(code), DAY_DISCUSS_MS);
+/**
+ * Report a failure to the client that caused it: through the request's
+ * acknowledgement when it sent one, as an `error` event otherwise.
+ */
+function reject<T extends object>(socket: WltSocket, error: ErrorPayload, ack?: AckCallback<T>): void {
+  if (ack) ack({ ok: false, error });
+  else socket.emit('error', error);
 }
 
-/** Start the voting sub-phase */
-function startVotePhase(code: string): void {
-  const room = getRoom(code);
-  if (!room) return;
-
-  room.phase = 'vote';
-  touchRoom(code);
-
-  io.to(code).emit('phase_changed', {
-    phase: 'vote',
-    round: room.round,
-    timer: VOTE_DURATION_MS,
-  });
-
-  systemMessage(code, 'Vote now! The player with the most votes will be eliminated.');
-  broadcastVoteTally(code);
+/** The coded error for a command that threw (internal details stay in the log) */
+function unexpectedError(err: unknown): ErrorPayload {
+  if (err instanceof RoomBusyError) return { code: 'ROOM_BUSY', message: err.message };
+  return { code: 'SERVER_ERROR', message: ERROR_CATALOG.SERVER_ERROR };
+}
 
-  if (room.timer) clearTimeout(room.timer);
-  room.timer = setTimeout(() => resolveVotePhase(code), VOTE_DURATION_MS);
+/** Flush whatever the command emitted, then answer the caller */
+function reply(socket: WltSocket, game: GameEngine, result: CommandResult, ack?: AckCallback): void {
+  flush(game);
+  if (!result.ok) reject(socket, result.error, ack);
+  else ack?.({ ok: true });
 }
 
-/** Resolve day vote – lynch player if majority, then check win or start next night */
-function resolveVotePhase(code: string): void {
-  const room = getRoom(code);
-  if (!room || room.phase !== 'vote') return;
-
-  const result = resolveDayVote(room);
-
-  if (result.lynchedPlayerId) {
-    const lynched = room.players.get(result.lynchedPlayerId);
-    if (lynched) {
-      lynched.alive = false;
-      io.to(code).emit('player_eliminated', {
-        playerId: lynched.id,
-        playerName: lynched.name,
-        cause: 'lynch',
-      });
-      systemMessage(code, `${lynched.name} has been eliminated by vote.`);
+/**
+ * Run a socket's command against a room (under the room lock) and reply.
+ * A missing room is reported as ROOM_NOT_FOUND with `missingMessage`; null
+ * keeps it silent unless the client asked for an acknowledgement.
+ */
+function roomCommand(
+  socket: WltSocket,
+  code: string,
+  command: (game: GameEngine) => CommandResult,
+  { ack, missingMessage = ERROR_CATALOG.ROOM_NOT_FOUND }: { ack?: AckCallback; missingMessage?: string | null } = {}
+): void {
+  withRoom(code, (game) => {
+    const result = command(game);
+    reply(socket, game, result, ack);
+    return result;
+  }).then(
+    (result) => {
+      if (result || (!ack && missingMessage === null)) return;
+      reject(socket, { code: 'ROOM_NOT_FOUND', message: missingMessage ?? ERROR_CATALOG.ROOM_NOT_FOUND }, ack);
+    },
+    (err) => {
+      console.error(`[Room] Command failed in ${code}:`, err);
+      reject(socket, unexpectedError(err), ack);
     }
-  } else {
-    systemMessage(code, 'No majority reached. No one is eliminated today.');
-  }
-
-  broadcastRoomUpdate(code);
-
-  // Check win after lynch
-  const winResult = checkWinCondition(room);
-  if (winResult) {
-    endGame(code, winResult);
-    return;
-  }
-
-  // Continue to next night
-  if (room.timer) clearTimeout(room.timer);
-  room.timer = setTimeout(() => startNightPhase(code), 3_000);
+  );
 }
 
+// ---------------------------------------------------------------------------
+// Socket.io event handlers
+// ---------------------------------------------------------------------------
 
-/** End the game and broadcast roles */
-function endGame(code: string, winner: 'mafia' | 'town'): void {
-  const room = getRoom(code);
-  if (!room) return;
+// ── PROTOCOL HANDSHAKE ───────────────────────────────────────────────────────
+// Clients send their protocol version in `auth`. A client built against another
+// version (stale cached bundle, old deploy) is refused before it can send
+// anything, with a message telling the player to refresh.
+io.use((socket, next) => {
+  const { protocolVersion } = (socket.handshake.auth ?? {}) as Partial<HandshakeAuth>;
+  if (protocolVersion === PROTOCOL_VERSION) return next();
+
+  const data: HandshakeErrorData = {
+    code: 'protocol_mismatch',
+    serverVersion: PROTOCOL_VERSION,
+    clientVersion: typeof protocolVersion === 'number' ? protocolVersion : null,
+  };
+  console.log(`[Socket] Refused ${socket.id}: protocol v${data.clientVersion ?? '?'} (server v${PROTOCOL_VERSION})`);
+  next(Object.assign(new Error(ERROR_CATALOG.PROTOCOL_MISMATCH), { data }));
+});
 
-  room.phase = 'ended';
-  if (room.timer) clearTimeout(room.timer);
+/** Short, single-line preview of untrusted input for logs */
+function preview(value: unknown): string {
+  let text: string;
+  try {
+    text = JSON.stringify(value) ?? String(value);
+  } catch {
+    text = String(value);
+  }
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+}
 
-  const payload: GameEndPayload = {
-    winner,
-    roles: Array.from(room.players.values()).map((p) => ({
-      id: p.id,
-      name: p.name,
-      role: p.role,
-    })),
-  };
+io.on('connection', (socket) => {
+  console.log(`[Socket] Connected: ${socket.id}`);
 
-  io.to(code).emit('game_ended', payload);
-  systemMessage(
-    code,
-    winner === 'mafia'
-      ? 'The syndicate wins! The city falls to the mob.'
-      : 'The townspeople win! Justice prevails... for now.'
-  );
-  touchRoom(code);
-
-  console.log(`[endGame] Triggered for room=${code} winner=${winner}`);
-  console.log(`[endGame] Players in room: ${room.players.size}`);
-
-  // ── Persist result to Supabase ──────────────────────────────────────────────
-  const endedAt = new Date().toISOString();
-  supabase
-    .from('game_sessions')
-    .insert({
-      room_code: code,
-      winner,
-      total_rounds: room.round,
-      total_players: room.players.size,
-      started_at: room.gameStartedAt ?? endedAt,
-      ended_at: endedAt,
-    })
-    .then(({ error }) => {
-      if (error) {
-        console.error('[Supabase] CRITICAL: insert game_sessions failed:', error.message);
+  // ── PAYLOAD VALIDATION ─────────────────────────────────────────────────────
+  // Every packet is checked against its schema (validation.ts) before the
+  // handlers below run; they receive the normalized payload. Rejected packets
+  // never reach a handler — the sender gets INVALID_PAYLOAD through the
+  // packet's acknowledgement, or an error event if it has none.
+  socket.use((packet, next) => {
+    try {
+      packet[1] = parseClientEvent(packet[0], packet[1]);
+      next();
+    } catch (err) {
+      if (!(err instanceof InvalidPayloadError)) return next(err as Error);
+
+      console.warn(
+        `[Validation] ${socket.id} sent invalid "${err.event}": ${err.issues.join('; ')} — payload ${preview(packet[1])}`
+      );
+      const ack: unknown = packet[packet.length - 1];
+      if (typeof ack === 'function') {
+        (ack as AckCallback)({ ok: false, error: { code: 'INVALID_PAYLOAD', message: err.message } });
       } else {
-        console.log(`[Supabase] SUCCESS: game_sessions saved ✓`);
+        next(err);
       }
-    });
-
-  // ── Upsert player scores ───────────────────────────────────────────────────
-  // NOTE: We look up by session_id (a stable UUID per browser/device), NOT by
-  // player_name. This ensures two different people named "Deep" in separate
-  // rooms each get their own row, while a player who plays again in the same
-  // room (same sessionId persisted in localStorage) correctly accumulates stats.
-  for (const player of room.players.values()) {
-    const isWinnerSide =
-      (winner === 'mafia' && player.role === 'mafia') ||
-      (winner === 'town' && player.role !== 'mafia');
-    const scoreGain = isWinnerSide ? (winner === 'mafia' ? 10 : 5) : 0;
-
-    console.log(`[endGame] Processing score for ${player.name} (session=${player.sessionId}): role=${player.role} win=${isWinnerSide} gain=${scoreGain}`);
-
-    supabase
-      .from('player_scores')
-      .select('session_id, player_name, total_score, games_won, games_played')
-      .eq('session_id', player.sessionId)
-      .maybeSingle()
-      .then(async ({ data: existing, error: selectErr }) => {
-        if (selectErr) {
-          console.error(`[Supabase] player_scores select for session ${player.sessionId}:`, selectErr.message);
-          return;
-        }
-
-        console.log(`[Supabase] Player check: ${player.name} (session=${player.sessionId}) exists=${!!existing}`);
-
-        if (existing) {
-          // Update existing record — also refresh displayed name in case it changed
-          const { error: updateErr } = await supabase
-            .from('player_scores')
-            .update({
-              player_name: player.name, // keep name up-to-date
-              total_score: (existing.total_score || 0) + scoreGain,
-              games_won: (existing.games_won || 0) + (isWinnerSide ? 1 : 0),
-              games_played: (existing.games_played || 0) + 1,
-              last_room_code: code,
-              updated_at: new Date().toISOString(),
-            })
-            .eq('session_id', player.sessionId);
-
-          if (updateErr) {
-            console.error(`[Supabase] player_scores update for ${player.name}:`, updateErr.message);
-          } else {
-            console.log(`[Supabase] leaderboard updated ✓ ${player.name} (session=${player.sessionId}) +${scoreGain}pts`);
-          }
-        } else {
-          // First time this session plays — create a new row
-          const { error: insertErr } = await supabase
-            .from('player_scores')
-            .insert({
-              session_id: player.sessionId,
-              player_name: player.name,
-              total_score: scoreGain,
-              games_won: isWinnerSide ? 1 : 0,
-              games_played: 1,
-              last_room_code: code,
-              updated_at: new Date().toISOString(),
-            });
-
-          if (insertErr) {
-            console.error(`[Supabase] player_scores insert for ${player.name}:`, insertErr.message);
-          } else {
-            console.log(`[Supabase] leaderboard created ✓ ${player.name} (session=${player.sessionId}) ${scoreGain}pts`);
-          }
-        }
-      });
-  }
-}
+    }
+  });
 
-// ---------------------------------------------------------------------------
-// Socket.io event handlers
-// ---------------------------------------------------------------------------
+  socket.on('error', (err) => {
+    if (err instanceof InvalidPayloadError) {
+      socket.emit('error', { code: 'INVALID_PAYLOAD', message: err.message });
+    } else {
+      console.error(`[Socket] Error on ${socket.id}:`, err);
+    }
+  });
 
-io.on('connection', (socket: Socket) => {
-  console.log(`[Socket] Connected: ${socket.id}`);
+  // ── TIME SYNC ──────────────────────────────────────────────────────────────
+  // Clients estimate their clock offset from a few round trips so every
+  // countdown renders the same server deadline (phase `endsAt`).
+  socket.on('time_sync', (data) => {
+    socket.emit('time_sync', { clientTime: data?.clientTime, serverTime: Date.now() });
+  });
 
   // ── CREATE ROOM ────────────────────────────────────────────────────────────
   socket.on(
     'create_room',
-    (data: { username: string; avatar: Avatar }, callback?: Function) => {
+    (data, ack) => {
       const name = sanitizeUsername(data.username);
       if (!name) {
-        socket.emit('error', { message: 'Invalid username (3–16 chars).' });
+        reject(socket, { code: 'INVALID_NAME', message: ERROR_CATALOG.INVALID_NAME }, ack);
         return;
       }
 
-      const room = createRoom(socket.id);
-      const player = createPlayer(socket.id, name, data.avatar);
-      room.players.set(socket.id, player);
-
-      socket.join(room.code);
-      socketToRoom.set(socket.id, room.code); // ← Track socket→room
-      registerSession(player.sessionId, socket.id);
+      void createRoom(socket.id, (game) => {
+        const result = game.join(socket.id, name, data.avatar);
+        if (!result.ok) {
+          reject(socket, result.error, ack);
+          return;
+        }
 
-      socket.emit('room_created', {
-        code: room.code,
-        playerId: socket.id,
-        sessionId: player.sessionId,
+        const code = game.room.code;
+        socket.join(code);
+        socketToRoom.set(socket.id, code); // ← Track socket→room
+        registerSession(result.player.sessionId, socket.id);
+
+        socket.emit('room_created', {
+          code,
+          playerId: socket.id,
+          sessionId: result.player.sessionId,
+          spectator: false,
+        });
+
+        flush(game);
+        console.log(`[Room] Created: ${code} by ${name}`);
+
+        ack?.({ ok: true, code });
+      }).catch((err) => {
+        console.error('[Room] Create failed:', err);
+        reject(socket, { code: 'SERVER_ERROR', message: 'Could not create a room. Try again.' }, ack);
       });
-
-      broadcastRoomUpdate(room.code);
-      console.log(`[Room] Created: ${room.code} by ${name}`);
-
-      if (callback) callback({ code: room.code });
     }
   );
 
   // ── JOIN ROOM ──────────────────────────────────────────────────────────────
   socket.on(
     'join_room',
-    (data: { code: string; username: string; avatar: Avatar }, callback?: Function) => {
-      const roomCode = data.code.toUpperCase().trim();
-      const room = getRoom(roomCode);
-
-      if (!room) {
-        socket.emit('error', { message: `Room "${roomCode}" not found. Check the code and try again.` });
-        return;
-      }
-      if (room.started) {
-        socket.emit('error', { message: 'Game already in progress.' });
-        return;
-      }
-      if (room.players.size >= MAX_PLAYERS) {
-        socket.emit('error', { message: 'Room is full (max 12 players).' });
-        return;
-      }
-
-      const name = sanitizeUsername(data.username);
-      if (!name) {
-        socket.emit('error', { message: 'Invalid username (3–16 chars).' });
-        return;
-      }
-
-      // Check name uniqueness in room
-      const nameTaken = Array.from(room.players.values()).some(
-        (p) => p.name.toLowerCase() === name.toLowerCase()
-      );
-      if (nameTaken) {
-        socket.emit('error', { message: 'Username already taken in this room.' });
-        return;
-      }
-
-      const player = createPlayer(socket.id, name, data.avatar);
-      room.players.set(socket.id, player);
-      socket.join(roomCode);
-      socketToRoom.set(socket.id, roomCode); // ← Track socket→room
-      registerSession(player.sessionId, socket.id);
-      touchRoom(roomCode);
-
-      socket.emit('room_joined', {
-        code: roomCode,
-        playerId: socket.id,
-        sessionId: player.sessionId,
+    (data, ack) => {
+      const roomCode = data.code;
+
+      roomCommand(socket, roomCode, (game) => {
+        const result = game.join(socket.id, data.username, data.avatar);
+        if (!result.ok) return result;
+
+        socket.join(roomCode);
+        socketToRoom.set(socket.id, roomCode); // ← Track socket→room
+        registerSession(result.player.sessionId, socket.id);
+
+        socket.emit('room_joined', {
+          code: roomCode,
+          playerId: socket.id,
+          sessionId: result.player.sessionId,
+          spectator: false,
+        });
+        console.log(`[Room] ${result.player.name} joined ${roomCode}`);
+        return result;
+      }, {
+        ack: ack && ((res) => ack(res.ok ? { ok: true, code: roomCode } : res)),
+        missingMessage: `Room "${roomCode}" not found. Check the code and try again.`,
       });
-
-      broadcastRoomUpdate(roomCode);
-      systemMessage(roomCode, `${name} joined the room.`);
-      console.log(`[Room] ${name} joined ${roomCode}`);
-
-      if (callback) callback({ success: true });
     }
   );
 
-  // ── START GAME ─────────────────────────────────────────────────────────────
-  socket.on('start_game', (data: { code: string }) => {
-    const room = getRoom(data.code);
-    if (!room) return socket.emit('error', { message: 'Room not found.' });
-    if (room.hostId !== socket.id) return socket.emit('error', { message: 'Only the host can start.' });
-    if (room.started) return socket.emit('error', { message: 'Game already started.' });
-    if (room.players.size < MIN_PLAYERS) {
-      return socket.emit('error', { message: `Need at least ${MIN_PLAYERS} players to start.` });
-    }
-
-    room.started = true;
-
-    // Assign roles
-    const playerIds = Array.from(room.players.keys());
-    const roleMap = assignRoles(playerIds);
-    for (const [id, role] of roleMap) {
-      const p = room.players.get(id);
-      if (p) p.role = role;
-    }
-
-    // Collect mafia team for cross-team visibility
-    const mafiaPlayers = Array.from(room.players.values()).filter((p) => p.role === 'mafia');
-    const mafiaTeamIds = mafiaPlayers.map((p) => p.id);
-    const mafiaTeamNames = mafiaPlayers.map((p) => ({ id: p.id, name: p.name, avatar: p.avatar }));
-
-    // Send personalized game-start event to each player
-    for (const player of room.players.values()) {
-      const targetSocket = io.sockets.sockets.get(player.id);
-      if (!targetSocket) continue;
-
-      targetSocket.emit('game_started', {
-        role: player.role,
-        // Mafia players learn their teammates; others get empty array
-        mafiaTeam: player.role === 'mafia' ? mafiaTeamNames : [],
-        players: toPublicPlayers(room, room.hostId),
-        phase: 'night',
+  // ── SPECTATE ROOM ──────────────────────────────────────────────────────────
+  socket.on(
+    'spectate_room',
+    (data, ack) => {
+      const roomCode = data.code;
+
+      roomCommand(socket, roomCode, (game) => {
+        const result = game.spectate(socket.id, data.username, data.avatar);
+        if (!result.ok) return result;
+
+        socket.join(roomCode);
+        socketToRoom.set(socket.id, roomCode); // ← Track socket→room
+        registerSession(result.spectator.sessionId, socket.id);
+
+        socket.emit('room_joined', {
+          code: roomCode,
+          playerId: socket.id,
+          sessionId: result.spectator.sessionId,
+          spectator: true,
+        });
+        console.log(`[Room] ${result.spectator.name} is spectating ${roomCode}`);
+        return result;
+      }, {
+        ack: ack && ((res) => ack(res.ok ? { ok: true, code: roomCode } : res)),
+        missingMessage: `Room "${roomCode}" not found. Check the code and try again.`,
       });
     }
+  );
 
-    // Record game start time (used for Supabase insert when game ends)
-    room.gameStartedAt = new Date().toISOString();
+  // ── START GAME ─────────────────────────────────────────────────────────────
+  socket.on('start_game', (data, ack) => {
+    roomCommand(socket, data.code, (game) => {
+      const result = game.start(socket.id);
+      if (result.ok) console.log(`[Game] Started in room ${data.code} with ${game.room.players.size} players`);
+      return result;
+    }, { ack });
+  });
+
+  // ── UPDATE SETTINGS (host only, lobby only) ─────────────────────────────────
+  socket.on('update_settings', (data, ack) => {
+    roomCommand(socket, data.code, (game) => game.updateSettings(socket.id, data.settings ?? {}), { ack });
+  });
 
-    touchRoom(data.code);
-    console.log(`[Game] Started in room ${data.code} with ${playerIds.length} players`);
+  // ── SELECT SETUP (host only, lobby only; null name = back to auto-deal) ─────
+  socket.on('select_setup', (data, ack) => {
+    roomCommand(socket, data.code, (game) => game.selectSetup(socket.id, data.name), { ack });
+  });
 
-    // Begin first night after 3s countdown
-    setTimeout(() => startNightPhase(data.code), 3_000);
+  // ── IMPORT SETUP (host only, lobby only) ──────────────────────────────────
+  socket.on('import_setup', (data, ack) => {
+    roomCommand(socket, data.code, (game) => {
+      const result = game.importSetup(socket.id, data.setup);
+      if (result.ok) console.log(`[Setup] Room ${data.code} imported "${result.name}"`);
+      return result;
+    }, { ack });
   });
 
   // ── NIGHT ACTION ───────────────────────────────────────────────────────────
   socket.on(
     'night_action',
-    (data: { code: string; action: 'kill' | 'save' | 'investigate'; targetId: string }) => {
-      const room = getRoom(data.code);
-      if (!room) return socket.emit('error', { message: 'Room not found.' });
-      if (room.phase !== 'night') return socket.emit('error', { message: 'Not night phase.' });
-
-      const player = room.players.get(socket.id);
-      if (!player || !player.alive) return socket.emit('error', { message: 'You are not alive.' });
-      if (room.nightActionsSubmitted.has(socket.id)) {
-        return socket.emit('error', { message: 'You already submitted a night action.' });
-      }
-
-      const target = room.players.get(data.targetId);
-      if (!target || !target.alive) return socket.emit('error', { message: 'Invalid target.' });
-
-      switch (data.action) {
-        case 'kill': {
-          if (player.role !== 'mafia') return socket.emit('error', { message: 'Only mafia can kill.' });
-          if (data.targetId === socket.id) return socket.emit('error', { message: 'Cannot target yourself.' });
-          // Store the mafia vote — only the first valid kill vote counts
-          if (room.mafiaVotes.length === 0) {
-            room.mafiaVotes.push({ voterId: socket.id, targetId: data.targetId });
-          }
-          break; // Fall through to register "submitted" and check if ALL roles are done
-        }
-        case 'save': {
-          if (player.role !== 'doctor') return socket.emit('error', { message: 'Only doctor can save.' });
-          room.doctorSave = data.targetId;
-          break;
-        }
-        case 'investigate': {
-          if (player.role !== 'detective') return socket.emit('error', { message: 'Only detective can investigate.' });
-          const isMafia = target.role === 'mafia';
-          room.detectiveTarget = data.targetId;
-          // Private result only to detective
-          socket.emit('detective_result', {
-            targetId: data.targetId,
-            targetName: target.name,
-            isMafia,
-          });
-          break;
-        }
-        default:
-          return socket.emit('error', { message: 'Unknown action.' });
-      }
-
-      room.nightActionsSubmitted.add(socket.id);
-      touchRoom(data.code);
-
-      // Check if all required night actions are submitted → auto-advance
-      checkNightActionsComplete(data.code);
+    (data, ack) => {
+      roomCommand(socket, data.code, (game) => game.nightAction(socket.id, data.action, data.targetId), { ack });
     }
   );
 
   // ── DAY VOTE ───────────────────────────────────────────────────────────────
-  socket.on('day_vote', (data: { code: string; targetId: string }) => {
-    const room = getRoom(data.code);
-    if (!room) return socket.emit('error', { message: 'Room not found.' });
-    if (room.phase !== 'vote') return socket.emit('error', { message: 'Not voting phase.' });
-
-    const voter = room.players.get(socket.id);
-    if (!voter || !voter.alive) return socket.emit('error', { message: 'You cannot vote.' });
-
-    const target = room.players.get(data.targetId);
-    if (!target || !target.alive) return socket.emit('error', { message: 'Invalid vote target.' });
-    if (data.targetId === socket.id) return socket.emit('error', { message: 'Cannot vote for yourself.' });
-
-    room.votes.set(socket.id, data.targetId);
-    touchRoom(data.code);
-    broadcastVoteTally(data.code);
-
-    // Check if all alive players voted → early resolve
-    const alive = getAlivePlayers(room);
-    if (room.votes.size >= alive.length) {
-      if (room.timer) clearTimeout(room.timer);
-      resolveVotePhase(data.code);
-    }
+  socket.on('day_vote', (data, ack) => {
+    roomCommand(socket, data.code, (game) => game.vote(socket.id, data.targetId), { ack });
   });
 
   // ── SKIP DISCUSSION (host only) ───────────────────────────────────────────
-  socket.on('skip_discussion', (data: { code: string }) => {
-    const room = getRoom(data.code);
-    if (!room) return socket.emit('error', { message: 'Room not found.' });
-    if (room.hostId !== socket.id) return socket.emit('error', { message: 'Only the host can skip discussion.' });
-    if (room.phase !== 'day') return socket.emit('error', { message: 'Can only skip during discussion phase.' });
-
-    // Clear the day-discussion timer and jump straight to vote
-    if (room.timer) clearTimeout(room.timer);
-    systemMessage(data.code, 'Host skipped discussion — voting begins now!');
-    startVotePhase(data.code);
+  socket.on('skip_discussion', (data, ack) => {
+    roomCommand(socket, data.code, (game) => game.skipDiscussion(socket.id), { ack });
   });
 
   // ── PLAY AGAIN (host only) ────────────────────────────────────────────────
-  socket.on('play_again', (data: { code: string }) => {
-    const room = getRoom(data.code);
-    if (!room) return socket.emit('error', { message: 'Room not found.' });
-    if (room.hostId !== socket.id) return socket.emit('error', { message: 'Only the host can restart.' });
-    if (room.phase !== 'ended') return socket.emit('error', { message: 'Game is still in progress.' });
-
-    // Reset room state to lobby
-    room.phase = 'lobby';
-    room.round = 0;
-    room.started = false;
-    room.mafiaVotes = [];
-    room.doctorSave = null;
-    room.detectiveTarget = null;
-    room.votes = new Map();
-    room.nightActionsSubmitted = new Set();
-    room.gameStartedAt = undefined;
-    if (room.timer) clearTimeout(room.timer);
-    room.timer = null;
-
-    // Reset all players
-    for (const player of room.players.values()) {
-      player.alive = true;
-      player.role = 'citizen'; // Reset role — will be reassigned on next start
-      player.connected = true;
-      player.disconnectedAt = null;
-      player.chatCount = 0;
-      player.chatWindowStart = Date.now();
-    }
-
-    touchRoom(data.code);
-
-    // Notify all clients
-    io.to(data.code).emit('room_reset', {
-      code: data.code,
-      players: toPublicPlayers(room, room.hostId),
-    });
-
-    broadcastRoomUpdate(data.code);
-    systemMessage(data.code, 'The host started a new round! Waiting for players...');
-    console.log(`[Room] Play again in ${data.code} — back to lobby`);
+  socket.on('play_again', (data, ack) => {
+    roomCommand(socket, data.code, (game) => {
+      const result = game.playAgain(socket.id);
+      if (result.ok) console.log(`[Room] Play again in ${data.code} — back to lobby`);
+      return result;
+    }, { ack });
   });
 
   // ── CHAT ───────────────────────────────────────────────────────────────────
   socket.on(
     'chat_message',
-    (data: { code: string; text: string; channel: 'global' | 'mafia' }) => {
-      const room = getRoom(data.code);
-      if (!room) return;
-
-      const player = room.players.get(socket.id);
-      if (!player) return;
-
-      // Spectators cannot chat in global, dead players can't speak
-      if (!player.alive && data.channel === 'global') {
-        return socket.emit('error', { message: 'Spectators cannot send messages.' });
-      }
-
-      // Mafia chat: only if player is mafia and >1 mafia alive
-      if (data.channel === 'mafia') {
-        if (player.role !== 'mafia') {
-          return socket.emit('error', { message: 'Only mafia can use mafia chat.' });
-        }
-        const aliveMafiaCount = getAliveMafia(room).length;
-        if (aliveMafiaCount <= 1) {
-          return socket.emit('error', { message: 'Mafia chat disabled (only 1 mafia left).' });
-        }
-      }
-
-      // Rate limit: max 10 messages per 5 seconds
-      const now = Date.now();
-      if (now - player.chatWindowStart > 5_000) {
-        player.chatCount = 0;
-        player.chatWindowStart = now;
-      }
-      player.chatCount++;
-      if (player.chatCount > 10) {
-        return socket.emit('error', { message: 'Slow down! (rate limit)' });
-      }
-
-      // Sanitize text
-      const text = data.text
-        .replace(/[<>]/g, '')
-        .trim()
-        .slice(0, 300);
-      if (!text) return;
-
-      const msg: ChatMessage = {
-        senderId: socket.id,
-        senderName: player.name,
-        text,
-        channel: data.channel,
-        timestamp: Date.now(),
-      };
-
-      if (data.channel === 'mafia') {
-        // Send to: alive mafia + eliminated mafia (spectators can watch)
-        for (const p of room.players.values()) {
-          if (p.role === 'mafia') {
-            io.sockets.sockets.get(p.id)?.emit('chat', msg);
-          }
-        }
-      } else {
-        io.to(data.code).emit('chat', msg);
-      }
-
-      touchRoom(data.code);
+    (data, ack) => {
+      roomCommand(socket, data.code, (game) => game.chat(socket.id, data.text, data.channel), {
+        ack,
+        missingMessage: null,
+      });
     }
   );
 
-  // ── RECONNECT ──────────────────────────────────────────────────────────────
-  socket.on('reconnect_player', (data: { sessionId: string; code: string }) => {
-    const room = getRoom(data.code);
-    if (!room) return socket.emit('error', { message: 'Room not found.' });
-
-    // Find player by session ID
-    let foundPlayer = null;
-    for (const player of room.players.values()) {
-      if (player.sessionId === data.sessionId) {
-        foundPlayer = player;
-        break;
-      }
-    }
-
-    if (!foundPlayer) return socket.emit('error', { message: 'Session not found.' });
-
-    // Check 30s reconnect window
-    if (
-      foundPlayer.disconnectedAt &&
-      Date.now() - foundPlayer.disconnectedAt > 30_000
-    ) {
-      return socket.emit('error', { message: 'Reconnect window expired.' });
-    }
-
-    // Transfer player to new socket
-    const oldId = foundPlayer.id;
-    room.players.delete(oldId);
-    socketToRoom.delete(oldId); // ← Remove old mapping
-    foundPlayer.id = socket.id;
-    foundPlayer.connected = true;
-    foundPlayer.disconnectedAt = null;
-    room.players.set(socket.id, foundPlayer);
-    socketToRoom.set(socket.id, data.code); // ← Update mapping
-
-    // Update host if needed
-    if (room.hostId === oldId) room.hostId = socket.id;
-
-    registerSession(data.sessionId, socket.id);
-    socket.join(data.code);
-
-    socket.emit('reconnected', {
-      code: data.code,
-      playerId: socket.id,
-      role: foundPlayer.role,
-      phase: room.phase,
-      players: toPublicPlayers(room, room.hostId),
-    });
+  // ── LAST WILL ──────────────────────────────────────────────────────────────
+  socket.on('set_will', (data, ack) => {
+    roomCommand(socket, data.code, (game) => game.setWill(socket.id, data.text), { ack });
+  });
 
-    broadcastRoomUpdate(data.code);
-    touchRoom(data.code);
-    console.log(`[Reconnect] ${foundPlayer.name} reconnected to ${data.code}`);
+  // ── RECONNECT ──────────────────────────────────────────────────────────────
+  socket.on('reconnect_player', (data, ack) => {
+    roomCommand(socket, data.code, (game) => {
+      const result = game.reconnect(data.sessionId, socket.id);
+      if (!result.ok) return result;
+
+      socketToRoom.delete(result.oldId); // ← Remove old mapping
+      socketToRoom.set(socket.id, data.code); // ← Update mapping
+      registerSession(data.sessionId, socket.id);
+      socket.join(data.code);
+
+      console.log(`[Reconnect] ${result.player.name} reconnected to ${data.code}`);
+      return result;
+    }, { ack });
   });
 
   // ── LEAVE ROOM ─────────────────────────────────────────────────────────────
-  socket.on('leave_room', (data: { code: string }) => {
+  socket.on('leave_room', (data, ack) => {
     socketToRoom.delete(socket.id);
+    socket.leave(data.code);
+    roomCommand(socket, data.code, (game) => game.leave(socket.id), { ack, missingMessage: null });
   });
 
   // ── WebRTC SIGNALING ───────────────────────────────────────────────────────
   // Pure relay — server never touches audio data.
 
-  socket.on('rtc:join', (data: { code: string; channel: 'general' | 'mafia' }) => {
+  socket.on('rtc:join', rtcHandler('rtc:join', async (data) => {
     console.log(`[RTC] rtc:join received from ${socket.id}, code=${data.code}, channel=${data.channel}`);
-    const room = getRoom(data.code);
-    if (!room) {
+    const member = await withRoom(data.code, (game) => {
+      const found = game.room.players.get(socket.id) ?? game.room.spectators.get(socket.id);
+      if (!found) {
+        console.log(`[RTC] ❌ player not found for socketId=${socket.id} in room ${data.code}. Players:`, [...game.room.players.keys()]);
+        return null;
+      }
+      // Mafia channel is mafia-only; the graveyard is for the dead and spectators
+      return mayJoinVoice(game.room, socket.id, data.channel) ? found : null;
+    }).catch(() => undefined);
+    if (member === undefined) {
       console.log(`[RTC] ❌ room not found: ${data.code}`);
       return;
     }
-    const player = room.players.get(socket.id);
-    if (!player) {
-      console.log(`[RTC] ❌ player not found for socketId=${socket.id} in room ${data.code}. Players:`, [...room.players.keys()]);
-      return;
-    }
-
-    // Enforce mafia-only channel
-    if (data.channel === 'mafia' && player.role !== 'mafia') return;
-
-    const ch = ensureRtcRoom(data.code);
+    if (!member) return;
 
     // Remove from previous channel first
-    ch.general.delete(socket.id);
-    ch.mafia.delete(socket.id);
+    await rtcRemoveSocket(socket.id, data.code);
 
-    const channelSet = data.channel === 'mafia' ? ch.mafia : ch.general;
+    const key = rtcKey(data.code, data.channel);
+    const peers = await sharedStore.smembers(key);
+    // Join before announcing, so peers' offers already pass the relay check
+    await sharedStore.sadd(key, socket.id);
 
     // Tell all existing peers in this channel that we joined (they initiate the offer)
-    console.log(`[RTC] Channel '${data.channel}' currently has ${channelSet.size} peer(s)`);
-    for (const peerId of channelSet) {
+    console.log(`[RTC] Channel '${data.channel}' currently has ${peers.length} peer(s)`);
+    for (const peerId of peers) {
       if (peerId === socket.id) continue;
-      io.sockets.sockets.get(peerId)?.emit('rtc:peer-joined', { peerId: socket.id, channel: data.channel });
+      io.to(peerId).emit('rtc:peer-joined', { peerId: socket.id, channel: data.channel });
       // Also tell us about existing peers so we can display them
       socket.emit('rtc:peer-exists', { peerId, channel: data.channel });
     }
 
-    channelSet.add(socket.id);
-    console.log(`[RTC] ✅ ${player.name} joined '${data.channel}' in room ${data.code}, total peers: ${channelSet.size}`);
-  });
+    console.log(`[RTC] ✅ ${member.name} joined '${data.channel}' in room ${data.code}, total peers: ${peers.length + 1}`);
+  }));
 
-  socket.on('rtc:leave', (data: { code: string }) => {
-    const code = data.code;
-    const ch = rtcChannels.get(code);
-    if (!ch) return;
-    ch.general.delete(socket.id);
-    ch.mafia.delete(socket.id);
+  socket.on('rtc:leave', rtcHandler('rtc:leave', async (data) => {
     // Notify all peers in this room
-    for (const ch2 of [ch.general, ch.mafia]) {
-      for (const peerId of ch2) {
-        io.sockets.sockets.get(peerId)?.emit('rtc:peer-left', { peerId: socket.id });
-      }
+    for (const peerId of await rtcRemoveSocket(socket.id, data.code)) {
+      io.to(peerId).emit('rtc:peer-left', { peerId: socket.id });
     }
-  });
+  }));
 
-  socket.on('rtc:offer', (data: { to: string; offer: object }) => {
-    io.sockets.sockets.get(data.to)?.emit('rtc:offer', { from: socket.id, offer: data.offer });
-  });
+  // Relayed through the peer's own Socket.io room, wherever it is connected.
+  // Connections only open between sockets in the same channel, so nobody can
+  // dial into a channel (mafia, graveyard) they may not join.
+  socket.on('rtc:offer', rtcHandler('rtc:offer', async (data) => {
+    const code = socketToRoom.get(socket.id);
+    if (!code || !(await rtcSharesChannel(code, socket.id, data.to))) return;
+    io.to(data.to).emit('rtc:offer', { from: socket.id, offer: data.offer });
+  }));
 
-  socket.on('rtc:answer', (data: { to: string; answer: object }) => {
-    io.sockets.sockets.get(data.to)?.emit('rtc:answer', { from: socket.id, answer: data.answer });
-  });
+  socket.on('rtc:answer', rtcHandler('rtc:answer', async (data) => {
+    const code = socketToRoom.get(socket.id);
+    if (!code || !(await rtcSharesChannel(code, socket.id, data.to))) return;
+    io.to(data.to).emit('rtc:answer', { from: socket.id, answer: data.answer });
+  }));
 
-  socket.on('rtc:ice', (data: { to: string; candidate: object }) => {
-    io.sockets.sockets.get(data.to)?.emit('rtc:ice', { from: socket.id, candidate: data.candidate });
-  });
+  socket.on('rtc:ice', rtcHandler('rtc:ice', async (data) => {
+    const code = socketToRoom.get(socket.id);
+    if (!code || !(await rtcSharesChannel(code, socket.id, data.to))) return;
+    io.to(data.to).emit('rtc:ice', { from: socket.id, candidate: data.candidate });
+  }));
 
   // ── DISCONNECT ────────────────────────────────────────────────────────────
+  // Lobby: 15s grace so navigation blips don't wipe the room.
+  // Mid-game: 30s grace so players can reconnect. The engine expires both.
   socket.on('disconnect', (reason) => {
     console.log(`[Socket] Disconnected: ${socket.id} (${reason})`);
     const code = socketToRoom.get(socket.id);
     if (code) {
-      rtcRemoveSocket(socket.id, code);
-      // Notify RTC peers
-      const ch = rtcChannels.get(code);
-      if (ch) {
-        for (const peerId of [...ch.general, ...ch.mafia]) {
-          io.sockets.sockets.get(peerId)?.emit('rtc:peer-left', { peerId: socket.id });
-        }
-      }
-      handleDisconnect(socket, code, false);
       socketToRoom.delete(socket.id);
+      // Notify RTC peers
+      rtcRemoveSocket(socket.id, code)
+        .then((peers) => {
+          for (const peerId of peers) io.to(peerId).emit('rtc:peer-left', { peerId: socket.id });
+        })
+        .catch((err) => console.error(`[RTC] Could not drop ${socket.id} from voice in ${code}:`, err));
+      withRoom(code, (game) => {
+        game.disconnect(socket.id);
+        flush(game);
+      }).catch((err) => console.error(`[Room] Disconnect failed in ${code}:`, err));
     }
   });
 });
 
-// ---------------------------------------------------------------------------
-// Disconnect handler
-// ---------------------------------------------------------------------------
-
-/**
- * Handle a player disconnecting from a room.
- * - permanent=true  (leave_room event): remove immediately
- * - permanent=false (socket disconnect):
- *     - Lobby: give a 15s grace so navigation blips don't wipe the room
- *     - Mid-game: give a 30s grace so players can reconnect
- */
-function handleDisconnect(socket: Socket, code: string, permanent: boolean): void {
-  const room = getRoom(code);
-  if (!room) return;
-
-  const player = room.players.get(socket.id);
-  if (!player) return;
-
-  if (permanent) {
-    // Explicit leave — remove immediately
-    room.players.delete(socket.id);
-    removeSession(player.sessionId);
-    socket.leave(code);
-
-    if (room.hostId === socket.id && room.players.size > 0) {
-      room.hostId = room.players.keys().next().value as string;
-      systemMessage(code, `${room.players.get(room.hostId)?.name} is now the host.`);
-    }
-
-    if (room.players.size === 0) {
-      deleteRoom(code);
-      return;
-    }
-
-    systemMessage(code, `${player.name} left the room.`);
-    broadcastRoomUpdate(code);
-  } else {
-    // Unintentional disconnect — always give a grace window
-    const gracePeriodMs = room.phase === 'lobby' ? 15_000 : 30_000;
-
-    player.connected = false;
-    player.disconnectedAt = Date.now();
-
-    if (room.phase !== 'lobby') {
-      systemMessage(code, `${player.name} disconnected. ${gracePeriodMs / 1000}s to reconnect...`);
-      broadcastRoomUpdate(code);
-    }
-    // (In lobby we stay silent — avoids alarming other players for a navigation blip)
-
-    setTimeout(() => {
-      const updatedRoom = getRoom(code);
-      if (!updatedRoom) return;
-      const updatedPlayer = updatedRoom.players.get(socket.id);
-
-      // If still disconnected after grace period
-      if (updatedPlayer && !updatedPlayer.connected) {
-        if (updatedRoom.phase === 'lobby') {
-          // Now remove from lobby
-          updatedRoom.players.delete(socket.id);
-          removeSession(player.sessionId);
-
-          if (updatedRoom.hostId === socket.id && updatedRoom.players.size > 0) {
-            updatedRoom.hostId = updatedRoom.players.keys().next().value as string;
-            systemMessage(code, `${updatedRoom.players.get(updatedRoom.hostId)?.name} is now the host.`);
-          }
-
-          if (updatedRoom.players.size === 0) {
-            deleteRoom(code);
-          } else {
-            systemMessage(code, `${player.name} left the lobby.`);
-            broadcastRoomUpdate(code);
-          }
-        } else {
-          // Mid-game: treat as eliminated
-          updatedPlayer.alive = false;
-          systemMessage(code, `${updatedPlayer.name} failed to reconnect.`);
-          broadcastRoomUpdate(code);
-
-          const win = checkWinCondition(updatedRoom);
-          if (win) endGame(code, win);
-        }
-      }
-    }, gracePeriodMs);
-  }
-}
-
-// ---------------------------------------------------------------------------
-// Night action completeness check
-// ---------------------------------------------------------------------------
-
-/**
- * Check if all alive role-holders have submitted their night actions.
- * If yes, resolve night phase early.
- */
-function checkNightActionsComplete(code: string): void {
-  const room = getRoom(code);
-  if (!room || room.phase !== 'night') return;
-
-  const alivePlayers = getAlivePlayers(room);
-  const required: string[] = [];
-
-  // At least 1 mafia member must vote
-  const aliveMafia = alivePlayers.filter((p) => p.role === 'mafia');
-  const mafiaVoters = room.mafiaVotes.map((v) => v.voterId);
-  const allMafiaVoted = aliveMafia.length > 0 &&
-    aliveMafia.every((p) => mafiaVoters.includes(p.id));
-
-  const hasDoctor = alivePlayers.some((p) => p.role === 'doctor');
-  const doctorActed = hasDoctor ? room.doctorSave !== null : true;
-
-  const hasDetective = alivePlayers.some((p) => p.role === 'detective');
-  const detectiveActed = hasDetective ? room.detectiveTarget !== null : true;
-
-  if (allMafiaVoted && doctorActed && detectiveActed) {
-    console.log(`[Night] All actions submitted early in room ${code}`);
-    if (room.timer) clearTimeout(room.timer);
-    resolveNightPhase(code);
-  }
-}
-
 // ---------------------------------------------------------------------------
 // Start server
 // ---------------------------------------------------------------------------
 
-startCleanupInterval();
+startCleanupInterval(clearRoomTimer);
+startDeadlineSweep((code) => tickRoom(code, false));
 
-// Bind to 0.0.0.0 so LAN/other-device friends can connect using your local IP
-httpServer.listen(PORT, '0.0.0.0', () => {
-  const localIPs = getLocalIPs();
-  console.log(`🎭 Who Lies Tonight – Server running`);
-  console.log(`   Local:   http://localhost:${PORT}`);
-  if (localIPs.length > 0) {
-    console.log(`   Network: http://${localIPs[0]}:${PORT}  ← share this with LAN friends`);
-  }
-  console.log(`   Min players: ${MIN_PLAYERS} | Max: ${MAX_PLAYERS}`);
-});
+/** Save every room before exiting so a deploy / Ctrl-C loses nothing */
+function shutdown(signal: string): void {
+  console.log(`[Server] ${signal} received — saving rooms`);
+  void (snapshotStore ? saveAllRooms(snapshotStore) : Promise.resolve())
+    .then(() => sharedStore.close())
+    .finally(() => process.exit(0));
+}
+process.once('SIGTERM', shutdown);
+process.once('SIGINT', shutdown);
+
+// Restore rooms from the last run (players rejoin via reconnect_player), then listen
+(snapshotStore ? restoreRooms(snapshotStore) : Promise.resolve([]))
+  .then((games) => {
+    for (const game of games) flush(game); // arms phase + grace timers
+    if (games.length > 0) console.log(`[Snapshots] Restored ${games.length} room(s)`);
+  })
+  .catch((err) => console.error('[Snapshots] Restore failed:', err))
+  .finally(() => {
+    if (snapshotStore) startSnapshotInterval(snapshotStore);
+
+    // Bind to 0.0.0.0 so LAN/other-device friends can connect using your local IP
+    httpServer.listen(PORT, '0.0.0.0', () => {
+      const localIPs = getLocalIPs();
+      console.log(`🎭 Who Lies Tonight – Server running`);
+      console.log(`   Local:   http://localhost:${PORT}`);
+      if (localIPs.length > 0) {
+        console.log(`   Network: http://${localIPs[0]}:${PORT}  ← share this with LAN friends`);
+      }
+      console.log(`   Default min players: ${DEFAULT_SETTINGS.minPlayers} | Max: ${DEFAULT_SETTINGS.maxPlayers}`);
+    });
+  });
 
 export { io };
-
-
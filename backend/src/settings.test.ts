@@ -0,0 +1,30 @@
+// =============================================================================
+// settings.test.ts – Validation of host settings updates
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameEngine } from './gameEngine.js';
+import { DEFAULT_SETTINGS, validateSettings } from './settings.js';
+
+/** Keys every object inherits, plus one a JSON payload can carry as its own */
+const PROTOTYPE_KEYS = ['constructor', 'toString', 'hasOwnProperty', '__proto__'];
+
+test('inherited object keys are unknown settings and rules, not crashes', () => {
+  for (const key of PROTOTYPE_KEYS) {
+    const setting = validateSettings(DEFAULT_SETTINGS, JSON.parse(`{"${key}": 1}`), 0);
+    assert.deepEqual(setting, { ok: false, error: `Unknown setting "${key}".` });
+
+    const rule = validateSettings(DEFAULT_SETTINGS, JSON.parse(`{"rules": {"${key}": true}}`), 0);
+    assert.deepEqual(rule, { ok: false, error: `Unknown rule "${key}".` });
+  }
+});
+
+test('an update_settings payload with a prototype key is refused', () => {
+  const game = GameEngine.create('TESTER', 'p0');
+  assert.equal(game.join('p0', 'Player0', { url: '' }).ok, true);
+
+  const result = game.updateSettings('p0', { constructor: 30_000 });
+  assert.equal(result.ok, false);
+  assert.deepEqual(game.room.settings, DEFAULT_SETTINGS);
+});
@@ -0,0 +1,155 @@
+// =============================================================================
+// settings.ts – Host-configurable room settings for Who Lies Tonight (WLT)
+// Defaults, allowed ranges and server-side validation of `update_settings`.
+// =============================================================================
+
+import type { MafiaKillRule, RoleReveal, RoomRules, RoomSettings } from './gameState.js';
+
+/** Absolute player floor — the game does not work with fewer */
+export const MIN_PLAYERS = 4;
+/** Absolute player cap — seats around the bonfire */
+export const MAX_PLAYERS = 12;
+
+/** Rule toggles every new room starts with */
+export const DEFAULT_RULES: RoomRules = {
+  selfTargeting: true,
+  hostCanSkipDiscussion: true,
+  mafiaKillRule: 'majority',
+  lastWills: true,
+  roleReveal: 'hidden',
+};
+
+/** Allowed values for rules that are a choice rather than a toggle */
+const RULE_CHOICES: Partial<Record<keyof RoomRules, readonly string[]>> = {
+  mafiaKillRule: ['majority', 'unanimous', 'shooter'] satisfies MafiaKillRule[],
+  roleReveal: ['full', 'faction', 'hidden'] satisfies RoleReveal[],
+};
+
+/** Settings every new room starts with */
+export const DEFAULT_SETTINGS: RoomSettings = {
+  nightDurationMs: 60_000,
+  dayDurationMs: 90_000,
+  voteDurationMs: 30_000,
+  minPlayers: MIN_PLAYERS,
+  maxPlayers: MAX_PLAYERS,
+  mafiaRatio: 0.33,
+  allowSpectators: true,
+  rules: DEFAULT_RULES,
+};
+
+/** Numeric (range-checked) settings keys */
+export type NumericSettingKey = Exclude<keyof RoomSettings, 'rules' | 'allowSpectators'>;
+
+/** Inclusive [min, max] bounds for each numeric setting */
+export const SETTINGS_LIMITS: Record<NumericSettingKey, [number, number]> = {
+  nightDurationMs: [15_000, 180_000],
+  dayDurationMs: [30_000, 300_000],
+  voteDurationMs: [15_000, 120_000],
+  minPlayers: [MIN_PLAYERS, MAX_PLAYERS],
+  maxPlayers: [MIN_PLAYERS, MAX_PLAYERS],
+  mafiaRatio: [0.15, 0.5],
+};
+
+/** Settings keys whose values must be whole numbers */
+const INTEGER_KEYS: ReadonlySet<NumericSettingKey> = new Set<NumericSettingKey>([
+  'nightDurationMs',
+  'dayDurationMs',
+  'voteDurationMs',
+  'minPlayers',
+  'maxPlayers',
+]);
+
+/** Outcome of validating a settings update */
+export type SettingsValidation =
+  | { ok: true; settings: RoomSettings }
+  | { ok: false; error: string };
+
+/** Outcome of validating a rules update */
+export type RulesValidation =
+  | { ok: true; rules: RoomRules }
+  | { ok: false; error: string };
+
+/**
+ * Merge a partial rules update into the current rules. Toggles must be
+ * boolean; choice rules (RULE_CHOICES) must be one of their allowed values.
+ */
+export function validateRules(current: RoomRules, patch: unknown): RulesValidation {
+  if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+    return { ok: false, error: 'Rules must be an object.' };
+  }
+  const next: Record<string, unknown> = { ...current };
+  for (const [key, value] of Object.entries(patch)) {
+    // Own keys only: `in` would also accept inherited names like "constructor"
+    if (!Object.hasOwn(DEFAULT_RULES, key)) return { ok: false, error: `Unknown rule "${key}".` };
+    const choices = Object.hasOwn(RULE_CHOICES, key) ? RULE_CHOICES[key as keyof RoomRules] : undefined;
+    if (choices) {
+      if (typeof value !== 'string' || !choices.includes(value)) {
+        return { ok: false, error: `Rule "${key}" must be one of: ${choices.join(', ')}.` };
+      }
+    } else if (typeof value !== 'boolean') {
+      return { ok: false, error: `Rule "${key}" must be true or false.` };
+    }
+    next[key] = value;
+  }
+  return { ok: true, rules: next as unknown as RoomRules };
+}
+
+/** Check a single numeric setting against SETTINGS_LIMITS; returns an error or null */
+export function checkNumericSetting(key: NumericSettingKey, value: unknown): string | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return `Setting "${key}" must be a number.`;
+  }
+  if (INTEGER_KEYS.has(key) && !Number.isInteger(value)) {
+    return `Setting "${key}" must be a whole number.`;
+  }
+  const [min, max] = SETTINGS_LIMITS[key];
+  if (value < min || value > max) {
+    return `Setting "${key}" must be between ${min} and ${max}.`;
+  }
+  return null;
+}
+
+/**
+ * Merge a partial settings update into the current settings and validate it.
+ * Unknown keys are rejected; every value must be a finite number within
+ * SETTINGS_LIMITS, minPlayers ≤ maxPlayers, and maxPlayers may not drop below
+ * the number of players already in the room. `allowSpectators` is a boolean;
+ * `rules` is merged key by key.
+ */
+export function validateSettings(
+  current: RoomSettings,
+  patch: Record<string, unknown>,
+  playerCount: number
+): SettingsValidation {
+  const next: RoomSettings = { ...current };
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (key === 'rules') {
+      const rules = validateRules(next.rules, value);
+      if (!rules.ok) return rules;
+      next.rules = rules.rules;
+      continue;
+    }
+    if (key === 'allowSpectators') {
+      if (typeof value !== 'boolean') return { ok: false, error: 'Setting "allowSpectators" must be true or false.' };
+      next.allowSpectators = value;
+      continue;
+    }
+    if (!Object.hasOwn(SETTINGS_LIMITS, key)) {
+      return { ok: false, error: `Unknown setting "${key}".` };
+    }
+    const settingKey = key as NumericSettingKey;
+    const error = checkNumericSetting(settingKey, value);
+    if (error) return { ok: false, error };
+    next[settingKey] = value as number;
+  }
+
+  if (next.minPlayers > next.maxPlayers) {
+    return { ok: false, error: 'Minimum players cannot exceed maximum players.' };
+  }
+  if (next.maxPlayers < playerCount) {
+    return { ok: false, error: `There are already ${playerCount} players in the room.` };
+  }
+
+  return { ok: true, settings: next };
+}
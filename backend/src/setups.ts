@@ -0,0 +1,223 @@
+// =============================================================================
+// setups.ts – Named role setups (presets + JSON import/export) for WLT
+// A setup fixes the exact role list, phase timings and rule toggles of a game.
+// Imported setups are validated here before they can reach assignRoles.
+// =============================================================================
+
+import type { GameSetup, Room, RoomSettings, SetupTimings } from './gameState.js';
+import { ROLES, isRole, factionOf, type Role } from './roles.js';
+import {
+  DEFAULT_RULES,
+  MIN_PLAYERS,
+  MAX_PLAYERS,
+  checkNumericSetting,
+  validateRules,
+  type SettingsValidation,
+} from './settings.js';
+import { buildRoleList } from './gameLogic.js';
+
+/** Built-in setups offered in the lobby */
+export const SETUP_PRESETS: GameSetup[] = [
+  {
+    name: 'Beginner 5',
+    roles: ['mafia', 'doctor', 'detective', 'citizen', 'citizen'],
+    timings: { nightDurationMs: 90_000, dayDurationMs: 120_000, voteDurationMs: 45_000 },
+    rules: { ...DEFAULT_RULES },
+  },
+  {
+    name: 'Classic 7',
+    roles: ['mafia', 'mafia', 'doctor', 'detective', 'citizen', 'citizen', 'citizen'],
+    timings: { nightDurationMs: 60_000, dayDurationMs: 90_000, voteDurationMs: 30_000 },
+    rules: { ...DEFAULT_RULES },
+  },
+  {
+    name: 'Chaos 12',
+    roles: [
+      'mafia', 'mafia', 'mafia', 'mafia',
+      'doctor', 'detective',
+      'citizen', 'citizen', 'citizen', 'citizen', 'citizen', 'citizen',
+    ],
+    timings: { nightDurationMs: 30_000, dayDurationMs: 60_000, voteDurationMs: 20_000 },
+    rules: { selfTargeting: false, hostCanSkipDiscussion: false, mafiaKillRule: 'shooter', lastWills: true, roleReveal: 'hidden' },
+  },
+  {
+    name: 'Crossfire 9',
+    roles: [
+      'mafia', 'mafia',
+      'doctor', 'detective',
+      'jester', 'executioner',
+      'citizen', 'citizen', 'citizen',
+    ],
+    timings: { nightDurationMs: 60_000, dayDurationMs: 90_000, voteDurationMs: 30_000 },
+    rules: { ...DEFAULT_RULES },
+  },
+  {
+    name: 'Bloodbath 10',
+    roles: [
+      'mafia', 'mafia', 'serial_killer',
+      'doctor', 'detective',
+      'citizen', 'citizen', 'citizen', 'citizen', 'citizen',
+    ],
+    timings: { nightDurationMs: 60_000, dayDurationMs: 90_000, voteDurationMs: 30_000 },
+    rules: { ...DEFAULT_RULES },
+  },
+  {
+    name: 'Nightshift 8',
+    roles: [
+      'mafia', 'mafia',
+      'escort', 'doctor', 'detective',
+      'citizen', 'citizen', 'citizen',
+    ],
+    timings: { nightDurationMs: 60_000, dayDurationMs: 90_000, voteDurationMs: 30_000 },
+    rules: { ...DEFAULT_RULES },
+  },
+  {
+    name: 'Stakeout 10',
+    roles: [
+      'mafia', 'framer',
+      'lookout', 'tracker', 'doctor', 'detective',
+      'citizen', 'citizen', 'citizen', 'citizen',
+    ],
+    timings: { nightDurationMs: 60_000, dayDurationMs: 90_000, voteDurationMs: 30_000 },
+    rules: { ...DEFAULT_RULES },
+  },
+  {
+    name: 'Double Cross 9',
+    roles: [
+      'godfather', 'framer',
+      'doctor', 'detective',
+      'citizen', 'citizen', 'citizen', 'citizen', 'citizen',
+    ],
+    timings: { nightDurationMs: 60_000, dayDurationMs: 90_000, voteDurationMs: 30_000 },
+    rules: { ...DEFAULT_RULES },
+  },
+];
+
+/** Look up a preset by name (case-insensitive) */
+export function findPreset(name: string): GameSetup | undefined {
+  return SETUP_PRESETS.find((s) => s.name.toLowerCase() === name.toLowerCase());
+}
+
+/** Outcome of validating an imported setup */
+export type SetupValidation =
+  | { ok: true; setup: GameSetup }
+  | { ok: false; error: string };
+
+const TIMING_KEYS: Array<keyof SetupTimings> = ['nightDurationMs', 'dayDurationMs', 'voteDurationMs'];
+
+/**
+ * Validate untrusted setup JSON. Rejects unknown roles, player counts outside
+ * MIN_PLAYERS–MAX_PLAYERS, setups without mafia, setups where mafia is not
+ * strictly outnumbered (the game would end before the first night), lynch
+ * target roles with nobody to target, and timings outside the room-settings limits. Missing rules fall back to defaults.
+ */
+export function validateSetup(raw: unknown): SetupValidation {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { ok: false, error: 'Setup must be a JSON object.' };
+  }
+  const input = raw as Record<string, unknown>;
+
+  // ── Name ───────────────────────────────────────────────────────────────────
+  const name = typeof input.name === 'string'
+    ? input.name.replace(/[<>&"'/\\]/g, '').replace(/\s+/g, ' ').trim()
+    : '';
+  if (name.length < 1 || name.length > 32) {
+    return { ok: false, error: 'Setup name must be 1–32 characters.' };
+  }
+
+  // ── Roles ──────────────────────────────────────────────────────────────────
+  if (!Array.isArray(input.roles)) return { ok: false, error: 'Setup must list its roles.' };
+  const roles: Role[] = [];
+  for (const role of input.roles) {
+    if (typeof role !== 'string' || !isRole(role)) {
+      return { ok: false, error: `Unknown role "${String(role)}".` };
+    }
+    roles.push(role);
+  }
+  if (roles.length < MIN_PLAYERS || roles.length > MAX_PLAYERS) {
+    return { ok: false, error: `Setup must have between ${MIN_PLAYERS} and ${MAX_PLAYERS} roles.` };
+  }
+  const mafiaCount = roles.filter((r) => factionOf(r) === 'mafia').length;
+  if (mafiaCount === 0) return { ok: false, error: 'Setup needs at least one mafia role.' };
+  if (mafiaCount >= roles.length - mafiaCount) {
+    return { ok: false, error: 'Setup has as many mafia as town — the game would be over before it began.' };
+  }
+  for (const role of new Set(roles)) {
+    const targetFaction = ROLES[role].lynchTargetFaction;
+    if (targetFaction && !roles.some((r) => factionOf(r) === targetFaction)) {
+      return { ok: false, error: `Setup has no ${targetFaction} player for the ${role} to target.` };
+    }
+  }
+
+  // ── Timings ────────────────────────────────────────────────────────────────
+  const rawTimings = (input.timings ?? {}) as Record<string, unknown>;
+  if (typeof rawTimings !== 'object' || Array.isArray(rawTimings)) {
+    return { ok: false, error: 'Setup timings must be an object.' };
+  }
+  const timings = {} as SetupTimings;
+  for (const key of TIMING_KEYS) {
+    const error = checkNumericSetting(key, rawTimings[key]);
+    if (error) return { ok: false, error };
+    timings[key] = rawTimings[key] as number;
+  }
+
+  // ── Rules ──────────────────────────────────────────────────────────────────
+  const rules = validateRules(DEFAULT_RULES, input.rules ?? {});
+  if (!rules.ok) return rules;
+
+  return { ok: true, setup: { name, roles, timings, rules: rules.rules } };
+}
+
+/** Registry order, used to list roles consistently */
+const ROLE_ORDER = Object.keys(ROLES);
+
+/**
+ * Describe the room's current setup for display / export: the fixed setup if
+ * one is selected, otherwise the auto-deal for the current player count.
+ * Timings and rules always reflect the live room settings.
+ */
+export function describeSetup(room: Room): GameSetup {
+  const { settings } = room;
+  const roles = room.setup
+    ? room.setup.roles
+    : buildRoleList(Math.max(room.players.size, settings.minPlayers), settings);
+  return {
+    name: room.setup?.name ?? 'Custom',
+    roles: [...roles].sort((a, b) => ROLE_ORDER.indexOf(a) - ROLE_ORDER.indexOf(b)),
+    timings: {
+      nightDurationMs: settings.nightDurationMs,
+      dayDurationMs: settings.dayDurationMs,
+      voteDurationMs: settings.voteDurationMs,
+    },
+    rules: { ...settings.rules },
+  };
+}
+
+/**
+ * Settings a lobby room gets when a validated setup is applied: its timings and
+ * rules replace the room settings, and the player limits are pinned to the
+ * role count. Fails if more players are already seated than the setup allows.
+ */
+export function settingsForSetup(room: Room, setup: GameSetup): SettingsValidation {
+  if (room.players.size > setup.roles.length) {
+    return {
+      ok: false,
+      error: `"${setup.name}" seats ${setup.roles.length} players but ${room.players.size} are in the room.`,
+    };
+  }
+  return {
+    ok: true,
+    settings: {
+      ...room.settings,
+      ...setup.timings,
+      minPlayers: setup.roles.length,
+      maxPlayers: setup.roles.length,
+      rules: { ...setup.rules },
+    },
+  };
+}
+
+/** Settings after dropping a fixed setup: auto-deal with the default player limits */
+export function settingsWithoutSetup(settings: RoomSettings): RoomSettings {
+  return { ...settings, minPlayers: MIN_PLAYERS, maxPlayers: MAX_PLAYERS };
+}
@@ -0,0 +1,66 @@
+// =============================================================================
+// sharedStore.ts – Cross-process state for Who Lies Tonight (WLT)
+// Rooms, room locks, phase deadlines and voice-channel membership live in a
+// SharedStore so several server processes can serve the same rooms. Redis
+// (or any Redis-compatible server) backs it in production; an in-process
+// stand-in keeps single-process runs dependency-free, and one process can host
+// that stand-in for the others to try several processes locally.
+// =============================================================================
+
+import type { Server } from 'socket.io';
+import { connectLocalStore, hostLocalStore } from './localStore.js';
+import { createMemoryStore } from './memoryStore.js';
+import { createRedisStore } from './redisStore.js';
+
+export interface SetOptions {
+  /** Expire the key after this many ms */
+  ttlMs?: number;
+  /** Only set when the key does not exist yet (SET … NX) */
+  onlyIfAbsent?: boolean;
+}
+
+/** Socket.io adapter factory (cross-process emits) */
+export type SocketAdapter = Parameters<Server['adapter']>[0];
+
+/** The Redis subset WLT needs */
+export interface SharedStore {
+  /** Backend name, for logs */
+  readonly kind: SharedStoreKind;
+
+  get(key: string): Promise<string | null>;
+  /** Returns false when `onlyIfAbsent` was set and the key already existed */
+  set(key: string, value: string, options?: SetOptions): Promise<boolean>;
+  del(...keys: string[]): Promise<void>;
+  /** Delete the key only if it still holds `value` (releasing a lock we own) */
+  delIfEquals(key: string, value: string): Promise<boolean>;
+
+  sadd(key: string, member: string): Promise<void>;
+  srem(key: string, member: string): Promise<void>;
+  smembers(key: string): Promise<string[]>;
+
+  zadd(key: string, score: number, member: string): Promise<void>;
+  zrem(key: string, member: string): Promise<void>;
+  /** Members with a score ≤ max, lowest first */
+  zrangeByScore(key: string, max: number): Promise<string[]>;
+
+  /** Socket.io adapter that fans emits out to every process (absent when single-process) */
+  socketAdapter?(): SocketAdapter;
+  close(): Promise<void>;
+}
+
+export type SharedStoreKind = 'redis' | 'local' | 'memory';
+
+/**
+ * Redis when `REDIS_URL` is set; otherwise the store another local process
+ * hosts (`LOCAL_STORE_URL`), this process hosting one (`LOCAL_STORE_PORT`), or
+ * the plain in-process store (one server process only).
+ */
+export function createSharedStore(env: NodeJS.ProcessEnv = process.env): SharedStore {
+  const url = env.REDIS_URL?.trim();
+  if (url) return createRedisStore(url);
+  const localUrl = env.LOCAL_STORE_URL?.trim();
+  if (localUrl) return connectLocalStore(localUrl);
+  const localPort = Number(env.LOCAL_STORE_PORT);
+  if (localPort > 0) return hostLocalStore(localPort);
+  return createMemoryStore();
+}
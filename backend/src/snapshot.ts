@@ -0,0 +1,198 @@
+// =============================================================================
+// snapshot.ts – Per-player views of room state for Who Lies Tonight (WLT)
+// The payload builders the GameEngine broadcasts (vote tally, mafia votes,
+// game-over reveal) and the full snapshot a reconnecting player hydrates from.
+// Everything is redacted to what that player is allowed to know.
+// =============================================================================
+
+import type {
+  ChatMessage,
+  DetectiveResultPayload,
+  Faction,
+  GameEndPayload,
+  GameStartPayload,
+  LynchTarget,
+  MafiaVotesPayload,
+  Player,
+  NarratePayload,
+  ReconnectedPayload,
+  Room,
+  VisitReportPayload,
+  VoteUpdatePayload,
+} from './gameState.js';
+import { latestIdResolver, type GameLogEntry } from './gameLog.js';
+import {
+  designatedShooter,
+  hasWon,
+  mafiaKillVotes,
+  toPublicPlayers,
+  toPublicSpectators,
+} from './gameLogic.js';
+import { buildRecap } from './recap.js';
+import { factionOf } from './roles.js';
+
+/** Chat lines replayed to a reconnecting player (matches the client's buffer) */
+const CHAT_HISTORY_LIMIT = 200;
+
+// ---------------------------------------------------------------------------
+// Broadcast views
+// ---------------------------------------------------------------------------
+
+/** Day votes and the per-target tally */
+export function voteTallyView(room: Room): VoteUpdatePayload {
+  const votes: Record<string, string> = {};
+  const tally: Record<string, number> = {};
+  for (const [voterId, targetId] of room.votes) {
+    votes[voterId] = targetId;
+    tally[targetId] = (tally[targetId] ?? 0) + 1;
+  }
+  return { votes, tally };
+}
+
+/** The kill team's current picks, as teammates see them */
+export function mafiaVotesView(room: Room): MafiaVotesPayload {
+  const { mafiaKillRule } = room.settings.rules;
+  return {
+    votes: mafiaKillVotes(room),
+    rule: mafiaKillRule,
+    shooterId: mafiaKillRule === 'shooter' ? designatedShooter(room)?.id ?? null : null,
+  };
+}
+
+/** An investigation's result, as only the investigator may see it */
+export function detectiveResultView(room: Room, targetId: string, isMafia: boolean): DetectiveResultPayload {
+  return { targetId, targetName: room.players.get(targetId)?.name ?? 'someone', isMafia };
+}
+
+/** A lookout's or tracker's report, as only they may see it */
+export function visitReportView(
+  room: Room,
+  round: number,
+  report: { action: VisitReportPayload['action']; targetId: string; seenIds: string[] }
+): VisitReportPayload {
+  const nameOf = (id: string) => room.players.get(id)?.name ?? 'someone';
+  return {
+    round,
+    action: report.action,
+    targetId: report.targetId,
+    targetName: nameOf(report.targetId),
+    seen: report.seenIds.map((id) => ({ id, name: nameOf(id) })),
+  };
+}
+
+/** Every mafia member (alive or dead), for teammates' eyes only */
+export function mafiaTeamView(room: Room): GameStartPayload['mafiaTeam'] {
+  return Array.from(room.players.values())
+    .filter((p) => factionOf(p.role) === 'mafia')
+    .map((p) => ({ id: p.id, name: p.name, avatar: p.avatar }));
+}
+
+/** A player's own lynch target, as only they may see it */
+export function lynchTargetView(room: Room, player: Player): LynchTarget | null {
+  const target = player.lynchTarget ? room.players.get(player.lynchTarget) : undefined;
+  return target ? { id: target.id, name: target.name } : null;
+}
+
+/** Game-over reveal: winner, every role (and who shares in the win) and the recap */
+export function gameEndView(room: Room, winner: Faction): GameEndPayload {
+  return {
+    winner,
+    roles: Array.from(room.players.values()).map((p) => ({
+      id: p.id,
+      name: p.name,
+      role: p.role,
+      won: hasWon(p, winner),
+    })),
+    timeline: buildRecap(room.log),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reconnect snapshot
+// ---------------------------------------------------------------------------
+
+/** Index of the last entry of a type, or -1 */
+function lastIndexOf(log: readonly GameLogEntry[], type: GameLogEntry['type']): number {
+  for (let i = log.length - 1; i >= 0; i--) {
+    if (log[i].type === type) return i;
+  }
+  return -1;
+}
+
+/**
+ * Everything `playerId` — a player or a spectator — needs to rebuild their
+ * view of the room. Private information (role, teammates, mafia votes,
+ * investigations, mafia chat) is only included when the player is entitled to
+ * it; spectators get public state plus their own channel.
+ */
+export function buildSnapshot(room: Room, playerId: string): ReconnectedPayload {
+  const player = room.players.get(playerId) ?? null; // null: a spectator
+  const isMafia = player !== null && room.started && factionOf(player.role) === 'mafia';
+  const { log } = room;
+
+  // Entries made under a previous socket ID still count as this player's
+  const finalId = latestIdResolver(log);
+
+  // This game: investigation and visit reports, roleblocks and the current day's narration
+  const detectiveResults: DetectiveResultPayload[] = [];
+  const visitReports: VisitReportPayload[] = [];
+  let roleblockedRound: number | null = null;
+  let narration: NarratePayload | null = null;
+  const gameStart = room.started ? lastIndexOf(log, 'roles_assigned') : -1;
+  if (player && gameStart !== -1) {
+    let round = 0;
+    for (const entry of log.slice(gameStart)) {
+      if (entry.type === 'phase_changed') round = entry.round;
+      if (entry.type !== 'night_resolved') continue;
+      for (const { actorId, targetId, isMafia } of entry.investigations) {
+        if (finalId(actorId) === playerId) detectiveResults.push(detectiveResultView(room, finalId(targetId), isMafia));
+      }
+      for (const report of entry.visitReports) {
+        if (finalId(report.actorId) !== playerId) continue;
+        visitReports.push(
+          visitReportView(room, round, { ...report, targetId: finalId(report.targetId), seenIds: report.seenIds.map(finalId) })
+        );
+      }
+      if (entry.blockedIds.some((id) => finalId(id) === playerId)) roleblockedRound = round;
+      narration = { text: entry.narration, outcome: entry.outcome };
+    }
+  }
+  if (room.phase !== 'day' && room.phase !== 'vote') narration = null;
+
+  // Chat since the room last reset (the client clears its history on reset)
+  const messages: ChatMessage[] = [];
+  for (const entry of log.slice(lastIndexOf(log, 'game_reset') + 1)) {
+    if (entry.type !== 'chat') continue;
+    if (entry.message.channel === 'mafia' && !isMafia) continue;
+    if (entry.message.channel === 'spectator' && player) continue;
+    if (entry.message.channel === 'dead' && player?.alive) continue;
+    messages.push({ ...entry.message, senderId: finalId(entry.message.senderId) });
+  }
+
+  const lastEnd = log[lastIndexOf(log, 'game_ended')];
+
+  return {
+    code: room.code,
+    playerId,
+    spectator: player === null,
+    role: player?.role ?? null,
+    mafiaTeam: isMafia ? mafiaTeamView(room) : [],
+    lynchTarget: player && room.started ? lynchTargetView(room, player) : null,
+    phase: room.phase,
+    round: room.round,
+    started: room.started,
+    players: toPublicPlayers(room),
+    spectators: toPublicSpectators(room),
+    will: player?.will ?? '',
+    deadline: { step: room.pendingStep, endsAt: room.deadline },
+    votes: room.phase === 'vote' ? voteTallyView(room) : { votes: {}, tally: {} },
+    mafiaVotes: isMafia && room.phase === 'night' ? mafiaVotesView(room) : null,
+    nightActionSubmitted: room.phase === 'night' && room.nightActions.has(playerId),
+    detectiveResults,
+    roleblockedRound,
+    visitReports,
+    narration,
+    messages: messages.slice(-CHAT_HISTORY_LIMIT),
+    gameEnd: room.phase === 'ended' && lastEnd?.type === 'game_ended' ? gameEndView(room, lastEnd.winner) : null,
+  };
+}
@@ -0,0 +1,91 @@
+// =============================================================================
+// sqliteRepository.ts – SQLite-file GameRepository for WLT
+// For offline / LAN nights: one local file, no server. Uses Node's built-in
+// `node:sqlite` (Node 22.5+), loaded only when this backend is selected.
+// =============================================================================
+
+import type { DatabaseSync } from 'node:sqlite';
+import type { GameRepository, LeaderboardRow } from './repository.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS game_sessions (
+    id            INTEGER PRIMARY KEY AUTOINCREMENT,
+    room_code     TEXT    NOT NULL,
+    winner        TEXT    NOT NULL,
+    total_rounds  INTEGER NOT NULL,
+    total_players INTEGER NOT NULL,
+    seed          INTEGER,
+    started_at    TEXT    NOT NULL,
+    ended_at      TEXT    NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS player_scores (
+    session_id     TEXT    PRIMARY KEY,
+    player_name    TEXT    NOT NULL,
+    total_score    INTEGER NOT NULL DEFAULT 0,
+    games_won      INTEGER NOT NULL DEFAULT 0,
+    games_played   INTEGER NOT NULL DEFAULT 0,
+    last_room_code TEXT,
+    updated_at     TEXT    NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS player_scores_by_score ON player_scores (total_score DESC);
+`;
+
+/** Open (or create) the database file */
+function openDatabase(path: string): DatabaseSync {
+  // Required lazily so older Node versions can still run the other backends
+  let sqlite: typeof import('node:sqlite');
+  try {
+    sqlite = require('node:sqlite');
+  } catch {
+    throw new Error(`[Persistence] SQLite storage needs Node 22.5+ (node:sqlite); running ${process.version}.`);
+  }
+  const db = new sqlite.DatabaseSync(path);
+  db.exec(SCHEMA);
+  return db;
+}
+
+export function createSqliteRepository(path: string): GameRepository {
+  const db = openDatabase(path);
+  console.log(`[Persistence] SQLite database at ${path}`);
+
+  const insertSession = db.prepare(`
+    INSERT INTO game_sessions (room_code, winner, total_rounds, total_players, seed, started_at, ended_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const upsertScore = db.prepare(`
+    INSERT INTO player_scores (session_id, player_name, total_score, games_won, games_played, last_room_code, updated_at)
+    VALUES (?, ?, ?, ?, 1, ?, ?)
+    ON CONFLICT (session_id) DO UPDATE SET
+      player_name    = excluded.player_name,
+      total_score    = total_score + excluded.total_score,
+      games_won      = games_won + excluded.games_won,
+      games_played   = games_played + 1,
+      last_room_code = excluded.last_room_code,
+      updated_at     = excluded.updated_at
+  `);
+  const topScores = db.prepare(`
+    SELECT player_name, total_score, games_won, games_played FROM player_scores
+    ORDER BY total_score DESC LIMIT ?
+  `);
+  const topScoresInRoom = db.prepare(`
+    SELECT player_name, total_score, games_won, games_played FROM player_scores
+    WHERE last_room_code = ? ORDER BY total_score DESC LIMIT ?
+  `);
+
+  return {
+    kind: 'sqlite',
+
+    async saveGameSession(s) {
+      insertSession.run(s.roomCode, s.winner, s.totalRounds, s.totalPlayers, s.seed, s.startedAt, s.endedAt);
+    },
+
+    async recordPlayerResult(r) {
+      upsertScore.run(r.sessionId, r.name, r.scoreGain, r.won ? 1 : 0, r.roomCode, new Date().toISOString());
+    },
+
+    async getLeaderboard({ roomCode, limit }) {
+      const rows = roomCode ? topScoresInRoom.all(roomCode, limit) : topScores.all(limit);
+      return rows as unknown as LeaderboardRow[];
+    },
+  };
+}
@@ -0,0 +1,94 @@
+// =============================================================================
+// supabaseRepository.ts – Supabase GameRepository for Who Lies Tonight (WLT)
+// Persists completed game sessions and leaderboard rows to Supabase tables
+// `game_sessions` and `player_scores`.
+// =============================================================================
+
+import { createClient } from '@supabase/supabase-js';
+import type { GameRepository, LeaderboardRow } from './repository.js';
+
+export function createSupabaseRepository(
+  supabaseUrl: string | undefined,
+  supabaseKey: string | undefined
+): GameRepository {
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('[Supabase] Missing SUPABASE_URL or SUPABASE_KEY env vars.');
+  }
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  /** Cleared once the database turns out to predate the `seed` column (see supabase/migrations) */
+  let hasSeedColumn = true;
+
+  return {
+    kind: 'supabase',
+
+    async saveGameSession(s) {
+      const row = {
+        room_code: s.roomCode,
+        winner: s.winner,
+        total_rounds: s.totalRounds,
+        total_players: s.totalPlayers,
+        started_at: s.startedAt,
+        ended_at: s.endedAt,
+      };
+      let { error } = await supabase.from('game_sessions').insert(hasSeedColumn ? { ...row, seed: s.seed } : row);
+      // PGRST204: unknown column — an unmigrated database still saves games, just without seeds
+      if (error?.code === 'PGRST204' && error.message.includes('seed')) {
+        hasSeedColumn = false;
+        console.warn('[Supabase] game_sessions has no seed column; saving games without it. Run backend/supabase/migrations.');
+        ({ error } = await supabase.from('game_sessions').insert(row));
+      }
+      if (error) throw new Error(`insert game_sessions: ${error.message}`);
+    },
+
+    async recordPlayerResult(r) {
+      const { data: existing, error: selectErr } = await supabase
+        .from('player_scores')
+        .select('total_score, games_won, games_played')
+        .eq('session_id', r.sessionId)
+        .maybeSingle();
+      if (selectErr) throw new Error(`player_scores select for session ${r.sessionId}: ${selectErr.message}`);
+
+      const updatedAt = new Date().toISOString();
+      if (existing) {
+        // Existing row — also refresh the displayed name in case it changed
+        const { error } = await supabase
+          .from('player_scores')
+          .update({
+            player_name: r.name,
+            total_score: (existing.total_score || 0) + r.scoreGain,
+            games_won: (existing.games_won || 0) + (r.won ? 1 : 0),
+            games_played: (existing.games_played || 0) + 1,
+            last_room_code: r.roomCode,
+            updated_at: updatedAt,
+          })
+          .eq('session_id', r.sessionId);
+        if (error) throw new Error(`player_scores update for ${r.name}: ${error.message}`);
+      } else {
+        // First time this session plays — create a new row
+        const { error } = await supabase.from('player_scores').insert({
+          session_id: r.sessionId,
+          player_name: r.name,
+          total_score: r.scoreGain,
+          games_won: r.won ? 1 : 0,
+          games_played: 1,
+          last_room_code: r.roomCode,
+          updated_at: updatedAt,
+        });
+        if (error) throw new Error(`player_scores insert for ${r.name}: ${error.message}`);
+      }
+    },
+
+    async getLeaderboard({ roomCode, limit }) {
+      let query = supabase
+        .from('player_scores')
+        .select('player_name, total_score, games_won, games_played')
+        .order('total_score', { ascending: false })
+        .limit(limit);
+      if (roomCode) query = query.eq('last_room_code', roomCode);
+
+      const { data, error } = await query;
+      if (error) throw new Error(error.message);
+      return (data ?? []) as LeaderboardRow[];
+    },
+  };
+}
@@ -0,0 +1,152 @@
+// =============================================================================
+// validation.ts – Runtime validation of incoming socket payloads for WLT
+// Every client → server event has a schema here. server.ts runs each packet
+// through parseClientEvent before any handler sees it, so handlers receive
+// well-formed, normalized data (trimmed upper-case room codes, avatars reduced
+// to an allowlisted URL). Game rules (phase, role, ranges) stay in the engine.
+// =============================================================================
+
+import { z } from 'zod';
+import { NIGHT_ACTIONS, type ClientToServerEvents } from '../../protocol/index.js';
+
+// ---------------------------------------------------------------------------
+// Avatar URL allowlist
+// ---------------------------------------------------------------------------
+
+/** Hosts avatar models may be loaded from (override with AVATAR_URL_HOSTS) */
+const DEFAULT_AVATAR_HOSTS = ['models.readyplayer.me'];
+
+const avatarHosts: ReadonlySet<string> = new Set(
+  (process.env.AVATAR_URL_HOSTS?.split(',') ?? DEFAULT_AVATAR_HOSTS)
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+/**
+ * Avatar URLs are rebroadcast to every player and fed to their three.js GLB
+ * loaders, so only https .glb files on an allowlisted host pass. Empty = no
+ * avatar (initials fallback).
+ */
+export function isAllowedAvatarUrl(url: string): boolean {
+  if (url === '') return true;
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  return (
+    parsed.protocol === 'https:' &&
+    parsed.username === '' &&
+    parsed.password === '' &&
+    avatarHosts.has(parsed.hostname.toLowerCase()) &&
+    parsed.pathname.toLowerCase().endsWith('.glb')
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+/** 6 unambiguous characters (see generateRoomCode); case and padding are forgiven */
+const roomCode = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9]{6}$/, 'must be a 6-character room code');
+
+/** Socket / player IDs */
+const playerId = z.string().min(1).max(64);
+
+/** Length-capped only; sanitizeUsername applies the real rules */
+const username = z.string().max(64);
+
+const avatar = z.object({
+  url: z.string().max(512).refine(isAllowedAvatarUrl, 'avatar URL is not allowed'),
+});
+
+const rtcChannel = z.enum(['general', 'mafia', 'dead']);
+
+const rtcDescription = z.object({
+  type: z.enum(['offer', 'answer', 'pranswer', 'rollback']),
+  sdp: z.string().max(64_000).optional(),
+});
+
+const rtcCandidate = z.object({
+  candidate: z.string().max(2_000).optional(),
+  sdpMid: z.string().max(64).nullable().optional(),
+  sdpMLineIndex: z.number().int().nonnegative().nullable().optional(),
+  usernameFragment: z.string().max(256).nullable().optional(),
+});
+
+type ClientEvent = keyof ClientToServerEvents;
+/** First argument of a client event (its payload) */
+type ClientPayload<K extends ClientEvent> = Parameters<ClientToServerEvents[K]>[0];
+
+/** One schema per client → server event; output must match the protocol payload */
+const CLIENT_EVENT_SCHEMAS: { [K in ClientEvent]: z.ZodType<ClientPayload<K>, z.ZodTypeDef, unknown> } = {
+  create_room: z.object({ username, avatar }),
+  join_room: z.object({ code: roomCode, username, avatar }),
+  spectate_room: z.object({ code: roomCode, username, avatar }),
+  start_game: z.object({ code: roomCode }),
+  // Keys and ranges are checked by validateSettings, with friendlier messages
+  update_settings: z.object({ code: roomCode, settings: z.record(z.unknown()) }),
+  select_setup: z.object({ code: roomCode, name: z.string().max(64).nullable() }),
+  // Checked by validateSetup (the transform keeps `setup` a required key)
+  import_setup: z.object({ code: roomCode, setup: z.unknown() }).transform(({ code, setup }) => ({ code, setup })),
+  night_action: z.object({
+    code: roomCode,
+    action: z.enum(NIGHT_ACTIONS),
+    targetId: playerId,
+  }),
+  day_vote: z.object({ code: roomCode, targetId: playerId }),
+  skip_discussion: z.object({ code: roomCode }),
+  play_again: z.object({ code: roomCode }),
+  chat_message: z.object({ code: roomCode, text: z.string().max(1_000), channel: z.enum(['global', 'mafia', 'spectator', 'dead']) }),
+  set_will: z.object({ code: roomCode, text: z.string().max(2_000) }),
+  reconnect_player: z.object({ sessionId: z.string().uuid(), code: roomCode }),
+  leave_room: z.object({ code: roomCode }),
+  time_sync: z.object({ clientTime: z.number().finite() }),
+  'rtc:join': z.object({ code: roomCode, channel: rtcChannel }),
+  'rtc:leave': z.object({ code: roomCode }),
+  'rtc:offer': z.object({ to: playerId, offer: rtcDescription }),
+  'rtc:answer': z.object({ to: playerId, answer: rtcDescription }),
+  'rtc:ice': z.object({ to: playerId, candidate: rtcCandidate }),
+};
+
+// ---------------------------------------------------------------------------
+// Boundary check
+// ---------------------------------------------------------------------------
+
+/** A client sent an unknown event or a payload that doesn't match its schema */
+export class InvalidPayloadError extends Error {
+  constructor(
+    readonly event: string,
+    /** Human-readable problems, e.g. `code: must be a 6-character room code` */
+    readonly issues: string[]
+  ) {
+    super(`Invalid "${event}" request: ${issues[0] ?? 'malformed payload'}.`);
+    this.name = 'InvalidPayloadError';
+  }
+}
+
+function isClientEvent(event: string): event is ClientEvent {
+  return Object.prototype.hasOwnProperty.call(CLIENT_EVENT_SCHEMAS, event);
+}
+
+/**
+ * Validate and normalize an incoming event's payload.
+ * Throws InvalidPayloadError for unknown events and malformed payloads.
+ */
+export function parseClientEvent(event: string, payload: unknown): unknown {
+  if (!isClientEvent(event)) throw new InvalidPayloadError(event, ['unknown event']);
+
+  const result = CLIENT_EVENT_SCHEMAS[event].safeParse(payload);
+  if (!result.success) {
+    throw new InvalidPayloadError(
+      event,
+      result.error.issues.map((issue) => `${issue.path.join('.') || 'payload'}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
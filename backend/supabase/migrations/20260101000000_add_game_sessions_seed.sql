@@ -0,0 +1,3 @@
+-- Seed of each game's PRNG (backend/src/rng.ts), so a reported game can be
+-- replayed exactly. Safe to run on databases that already have the column.
+alter table game_sessions add column if not exists seed bigint;
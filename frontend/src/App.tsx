@@ -31,7 +31,7 @@ function App() {
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: 30 }}
           >
-            ⚠ {state.error}
+            ⚠ {state.error.message}
           </motion.div>
         )}
       </AnimatePresence>
@@ -1,27 +1,39 @@
 // =============================================================================
-// components/Chat.tsx – Global + Mafia-only chat
+// components/Chat.tsx – Global + Mafia-only + spectator + graveyard chat
 // =============================================================================
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { ChatMessage, ChatChannel } from '../types/game';
+import { factionOf } from '../lib/roles';
+import type { ChatMessage, ChatChannel, Role } from '../types/game';
 
 interface ChatProps {
   messages: ChatMessage[];
   myId: string | null;
-  myRole: string | null;
+  myRole: Role | null;
   alive: boolean;
+  /** Spectators read the city radio but only write in their own channel */
+  spectator: boolean;
+  /** Eliminated players and spectators mid-game share the graveyard channel */
+  graveyard: boolean;
   roomCode: string;
   onSend: (code: string, text: string, channel: ChatChannel) => void;
   aliveMafiaCount: number;
 }
 
-export function Chat({ messages, myId, myRole, alive, roomCode, onSend, aliveMafiaCount }: ChatProps) {
-  const [channel, setChannel] = useState<ChatChannel>('global');
+export function Chat({ messages, myId, myRole, alive, spectator, graveyard, roomCode, onSend, aliveMafiaCount }: ChatProps) {
+  const [channel, setChannel] = useState<ChatChannel>(spectator ? 'spectator' : 'global');
   const [input, setInput] = useState('');
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const canUseMafiaChat = myRole === 'mafia' && aliveMafiaCount > 1;
+  const isMafia = myRole ? factionOf(myRole) === 'mafia' : false;
+  const canUseMafiaChat = isMafia && aliveMafiaCount > 1;
+  const canWrite = channel === 'dead' ? graveyard : spectator ? channel === 'spectator' : alive;
+
+  // Back to the default tab once the graveyard closes (play again)
+  useEffect(() => {
+    if (!graveyard && channel === 'dead') setChannel(spectator ? 'spectator' : 'global');
+  }, [graveyard, channel, spectator]);
 
   // Auto-scroll on new message
   useEffect(() => {
@@ -32,19 +44,16 @@ export function Chat({ messages, myId, myRole, alive, roomCode, onSend, aliveMaf
 
   const handleSend = () => {
     const trimmed = input.trim();
-    if (!trimmed || !alive) return;
+    if (!trimmed || !canWrite) return;
     onSend(roomCode, trimmed, channel);
     setInput('');
   };
 
   const filteredMessages = messages.filter(
-    (m) => m.channel === 'global' || (m.channel === 'mafia' && channel === 'mafia' && myRole === 'mafia')
+    (m) => m.channel === 'global' || (m.channel === 'mafia' && channel === 'mafia' && isMafia) || m.channel === 'spectator' || (m.channel === 'dead' && graveyard)
   );
 
-  const displayMessages = filteredMessages.filter((m) => {
-    if (channel === 'mafia') return m.channel === 'mafia';
-    return m.channel === 'global';
-  });
+  const displayMessages = filteredMessages.filter((m) => m.channel === channel);
 
   const formatTime = (ts: number) => {
     const d = new Date(ts);
@@ -68,6 +77,22 @@ export function Chat({ messages, myId, myRole, alive, roomCode, onSend, aliveMaf
           onClick={() => setChannel('global')}
           color="var(--noir-gold)"
         />
+        {spectator && (
+          <ChannelTab
+            label="👁 GALLERY"
+            active={channel === 'spectator'}
+            onClick={() => setChannel('spectator')}
+            color="#8fb8ff"
+          />
+        )}
+        {graveyard && (
+          <ChannelTab
+            label="👻 GRAVEYARD"
+            active={channel === 'dead'}
+            onClick={() => setChannel('dead')}
+            color="#9a8cff"
+          />
+        )}
         {canUseMafiaChat && (
           <ChannelTab
             label="🔴 SYNDICATE"
@@ -193,9 +218,9 @@ export function Chat({ messages, myId, myRole, alive, roomCode, onSend, aliveMaf
           ref={inputRef}
           className="input-noir"
           type="text"
-          placeholder={!alive ? 'Spectators cannot chat' : 'Message…'}
+          placeholder={canWrite ? 'Message…' : graveyard ? 'The dead speak in the graveyard' : spectator ? 'Spectators chat in the gallery' : 'The dead cannot chat'}
           value={input}
-          disabled={!alive}
+          disabled={!canWrite}
           maxLength={300}
           onChange={(e) => setInput(e.target.value)}
           onKeyDown={(e) => { if (e.key === 'Enter') handleSend(); }}
@@ -204,7 +229,7 @@ export function Chat({ messages, myId, myRole, alive, roomCode, onSend, aliveMaf
         <button
           className="btn-noir btn-gold"
           style={{ padding: '0.4rem 0.75rem', fontSize: '0.75rem' }}
-          disabled={!alive || !input.trim()}
+          disabled={!canWrite || !input.trim()}
           onClick={handleSend}
         >
           ↵
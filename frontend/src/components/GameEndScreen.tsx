@@ -3,8 +3,10 @@
 // =============================================================================
 import { motion, AnimatePresence } from 'framer-motion';
 import { useState, useEffect, useMemo } from 'react';
-import type { GameEndPayload, Role } from '../types/game';
+import type { Faction, GameEndPayload } from '../types/game';
 import { getHeadshotUrl, getAvatarColor, getInitials } from '../lib/avatarUtils';
+import { ROLES, factionOf } from '../lib/roles';
+import { GameRecap } from './GameRecap';
 
 interface GameEndScreenProps {
   data: GameEndPayload;
@@ -23,25 +25,46 @@ interface LeaderboardEntry {
   games_played: number;
 }
 
-const ROLE_LABELS: Record<Role, string> = {
-  mafia: 'GANGSTER',
-  doctor: 'DOCTOR',
-  detective: 'DETECTIVE',
-  citizen: 'CITIZEN',
-};
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL ?? 'http://localhost:3001';
 
-const ROLE_COLORS: Record<Role, string> = {
-  mafia: 'var(--noir-red)',
-  doctor: '#00ff88',
-  detective: 'var(--noir-neon-blue)',
-  citizen: '#ffffff',
+/** Hero copy and colours for the side whose win ended the game */
+const WIN_BANNERS: Record<Faction, { title: string; tagline: string; theme: string; pulse: string; glow: string }> = {
+  mafia: {
+    title: 'SYNDICATE\nWINS',
+    tagline: 'The crime lords have seized total control. The streets run crimson under the cold neon moon.',
+    theme: 'var(--noir-red)',
+    pulse: '#ff0000',
+    glow: 'rgba(150,0,0,0.3)',
+  },
+  town: {
+    title: 'JUSTICE\nPREVAILS',
+    tagline: 'The purge is complete. The rats have been exterminated from the shadows... for now.',
+    theme: 'var(--noir-gold)',
+    pulse: '#ffd700',
+    glow: 'rgba(150,120,0,0.2)',
+  },
+  killer: {
+    title: 'THE KNIFE\nSTANDS ALONE',
+    tagline: 'Mob and town alike lie cold in the gutters. One figure walks out of the fog, wiping the blade clean.',
+    theme: '#ff2d8a',
+    pulse: '#ff2d8a',
+    glow: 'rgba(150,0,70,0.3)',
+  },
+  // Every side wiped out: neutrals never end the game on their own, so nobody won it
+  neutral: {
+    title: 'NOBODY\nWINS',
+    tagline: 'The city goes quiet. Nobody is left to tell the story.',
+    theme: '#d8b4ff',
+    pulse: '#d8b4ff',
+    glow: 'rgba(110,80,150,0.25)',
+  },
 };
 
-const BACKEND_URL = import.meta.env.VITE_BACKEND_URL ?? 'http://localhost:3001';
-
 export function GameEndScreen({ data, players, myId, roomCode, onPlayAgain, onLeave, isHost }: GameEndScreenProps) {
-  const isMafiaWin = data.winner === 'mafia';
-  const themeColor = isMafiaWin ? 'var(--noir-red)' : 'var(--noir-gold)';
+  const banner = WIN_BANNERS[data.winner];
+  const themeColor = banner.theme;
+  // Neutrals who reached their own goal share the win with the winning side
+  const soloWinners = data.roles.filter((r) => r.won && factionOf(r.role) === 'neutral');
 
   const playerMap = useMemo(() => new Map(players.map((p) => [p.id, p])), [players]);
   const myName = useMemo(() => (myId ? playerMap.get(myId)?.name ?? null : null), [myId, playerMap]);
@@ -131,13 +154,13 @@ export function GameEndScreen({ data, players, myId, roomCode, onPlayAgain, onLe
         <motion.div
           animate={{ opacity: [0, 0.1, 0] }}
           transition={{ duration: 0.8, repeat: Infinity, repeatDelay: 1.5 }}
-          style={{ position: 'absolute', inset: 0, background: isMafiaWin ? '#ff0000' : '#ffd700', zIndex: 1 }}
+          style={{ position: 'absolute', inset: 0, background: banner.pulse, zIndex: 1 }}
         />
 
         {/* Deep radial gradient */}
         <div style={{
           position: 'absolute', inset: 0,
-          background: `radial-gradient(circle at 50% 40%, ${isMafiaWin ? 'rgba(150,0,0,0.3)' : 'rgba(150,120,0,0.2)'} 0%, #000 70%)`
+          background: `radial-gradient(circle at 50% 40%, ${banner.glow} 0%, #000 70%)`
         }} />
 
         {/* Blood Drips */}
@@ -172,7 +195,7 @@ export function GameEndScreen({ data, players, myId, roomCode, onPlayAgain, onLe
               fontWeight: 900
             }}
           >
-            {isMafiaWin ? 'SYNDICATE\nWINS' : 'JUSTICE\nPREVAILS'}
+            {banner.title}
           </motion.h1>
 
           <p style={{
@@ -186,11 +209,42 @@ export function GameEndScreen({ data, players, myId, roomCode, onPlayAgain, onLe
             color: '#fff',
             textTransform: 'uppercase'
           }}>
-            {isMafiaWin
-              ? "The crime lords have seized total control. The streets run crimson under the cold neon moon."
-              : "The purge is complete. The rats have been exterminated from the shadows... for now."
-            }
+            {banner.tagline}
           </p>
+
+          {soloWinners.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.8 }}
+              style={{ marginTop: '2.5rem', display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '1rem' }}
+            >
+              <p style={{
+                width: '100%',
+                fontFamily: 'var(--font-display)',
+                fontSize: '0.8rem',
+                letterSpacing: '0.5em',
+                color: 'rgba(255,255,255,0.6)',
+                margin: 0,
+              }}>
+                ALSO WALKING AWAY WINNERS
+              </p>
+              {soloWinners.map((w) => (
+                <div key={w.id} style={{
+                  padding: '0.6rem 1.4rem',
+                  border: `2px solid ${ROLES[w.role].color}`,
+                  boxShadow: `0 0 20px ${ROLES[w.role].color}66`,
+                  fontFamily: 'var(--font-display)',
+                  fontWeight: 900,
+                  letterSpacing: '0.1em',
+                  color: ROLES[w.role].color,
+                  textTransform: 'uppercase',
+                }}>
+                  {ROLES[w.role].icon} {w.name} — {ROLES[w.role].title}
+                </div>
+              ))}
+            </motion.div>
+          )}
         </motion.div>
 
         {/* ── Two Column Reveal & Leaderboard ──────────────────────────────── */}
@@ -239,8 +293,8 @@ export function GameEndScreen({ data, players, myId, roomCode, onPlayAgain, onLe
                   >
                     <div style={{
                       position: 'absolute', left: 0, top: 0, bottom: 0, width: 6,
-                      background: ROLE_COLORS[roleEntry.role],
-                      boxShadow: `0 0 15px ${ROLE_COLORS[roleEntry.role]}`
+                      background: ROLES[roleEntry.role].color,
+                      boxShadow: `0 0 15px ${ROLES[roleEntry.role].color}`
                     }} />
 
                     <div style={{
@@ -272,13 +326,28 @@ export function GameEndScreen({ data, players, myId, roomCode, onPlayAgain, onLe
                       <p style={{
                         fontSize: '0.8rem',
                         letterSpacing: '0.3em',
-                        color: ROLE_COLORS[roleEntry.role],
+                        color: ROLES[roleEntry.role].color,
                         margin: '0.2rem 0 0',
                         fontWeight: 900
                       }}>
-                        {ROLE_LABELS[roleEntry.role]}
+                        {ROLES[roleEntry.role].title}
                       </p>
                     </div>
+
+                    {roleEntry.won && (
+                      <div style={{
+                        fontFamily: 'var(--font-display)',
+                        fontSize: '0.75rem',
+                        letterSpacing: '0.3em',
+                        fontWeight: 900,
+                        color: ROLES[roleEntry.role].color,
+                        border: `2px solid ${ROLES[roleEntry.role].color}`,
+                        padding: '0.3rem 0.6rem',
+                        transform: 'rotate(-6deg)',
+                      }}>
+                        WON
+                      </div>
+                    )}
                   </motion.div>
                 );
               })}
@@ -383,6 +452,9 @@ export function GameEndScreen({ data, players, myId, roomCode, onPlayAgain, onLe
           </div>
         </div>
 
+        {/* ── Round-by-round recap ─────────────────────────────────────────── */}
+        <GameRecap data={data} themeColor={themeColor} />
+
         {/* ── Footer Actions ────────────────────────────────────────────────── */}
         <motion.div
           initial={{ opacity: 0, y: 50 }}
@@ -0,0 +1,141 @@
+// =============================================================================
+// components/GameRecap.tsx – Post-game round-by-round recap (end screen)
+// Reveals every night action, the kill and save, each day vote and every
+// elimination, built server-side from the room's game log.
+// =============================================================================
+import { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { ROLES } from '../lib/roles';
+import type { EliminationCause, GameEndPayload, NightActionType } from '../types/game';
+
+interface GameRecapProps {
+  data: GameEndPayload;
+  themeColor: string;
+}
+
+const ACTION_VERBS: Record<NightActionType, string> = {
+  kill: 'marked',
+  save: 'protected',
+  investigate: 'investigated',
+  frame: 'framed',
+  block: 'kept busy',
+  watch: 'watched',
+  track: 'tailed',
+};
+
+const CAUSE_LABELS: Record<EliminationCause, string> = {
+  night_kill: 'killed in the night',
+  lynch: 'lynched by the town',
+  disconnect: 'vanished (disconnected)',
+};
+
+const sectionLabel = {
+  fontFamily: 'var(--font-display)',
+  fontSize: '0.65rem',
+  letterSpacing: '0.3em',
+  textTransform: 'uppercase' as const,
+  color: 'var(--noir-text-dim)',
+  margin: '1rem 0 0.4rem',
+};
+
+const line = {
+  fontFamily: 'var(--font-typewriter)',
+  fontSize: '0.85rem',
+  margin: '0.2rem 0',
+  color: 'var(--noir-text)',
+};
+
+export function GameRecap({ data, themeColor }: GameRecapProps) {
+  const people = useMemo(
+    () => new Map(data.roles.map((r) => [r.id, { name: r.name, role: r.role }])),
+    [data.roles]
+  );
+
+  const name = (id: string) => {
+    const who = people.get(id);
+    if (!who) return <span>someone</span>;
+    return <span style={{ color: ROLES[who.role].color, fontWeight: 700 }}>{who.name}</span>;
+  };
+
+  if (data.timeline.length === 0) return null;
+
+  return (
+    <div style={{ marginTop: '6rem' }}>
+      <h2 style={{
+        fontFamily: 'var(--font-display)',
+        fontSize: '1rem',
+        letterSpacing: '0.5em',
+        textTransform: 'uppercase',
+        color: themeColor,
+        marginBottom: '2.5rem',
+        textAlign: 'center',
+        fontWeight: 800
+      }}>
+        CASE FILE — NIGHT BY NIGHT
+      </h2>
+
+      <div style={{
+        maxHeight: 520,
+        overflowY: 'auto',
+        background: 'rgba(5,5,5,0.8)',
+        border: '2px solid rgba(255,255,255,0.05)',
+        padding: '1.5rem 2rem',
+      }}>
+        {data.timeline.map((round, i) => (
+          <motion.div
+            key={round.round}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 1 + i * 0.1 }}
+            style={{ padding: '1rem 0', borderBottom: '1px solid rgba(255,255,255,0.08)' }}
+          >
+            <p style={{ fontFamily: 'var(--font-display)', fontSize: '1.1rem', color: themeColor, margin: 0, fontWeight: 900, letterSpacing: '0.1em' }}>
+              ROUND {round.round}
+            </p>
+
+            <p style={sectionLabel}>🌙 Night</p>
+            {round.nightActions.length === 0 && <p style={line}>Nobody moved in the dark.</p>}
+            {round.nightActions.map((a, j) => (
+              <p key={j} style={line}>
+                {name(a.actorId)} {ACTION_VERBS[a.action]} {name(a.targetId)}
+                {a.isMafia !== undefined && (
+                  <span style={{ color: a.isMafia ? 'var(--noir-red)' : 'var(--noir-neon-blue)' }}>
+                    {' '}— {a.isMafia ? 'MAFIA' : 'clean'}
+                  </span>
+                )}
+                {a.blocked && <span style={{ color: '#ff69b4' }}> — blocked</span>}
+              </p>
+            ))}
+            {round.attacks.map((a) => (
+              <p key={a.targetId} style={{ ...line, color: a.saved ? '#00e676' : 'var(--noir-red)' }}>
+                ➜ The hit on {name(a.targetId)} {a.saved ? 'was stopped by the doctor.' : 'went through.'}
+              </p>
+            ))}
+
+            {round.dayVotes.length > 0 && (
+              <>
+                <p style={sectionLabel}>⚖️ Day votes</p>
+                {round.dayVotes.map((v) => (
+                  <p key={v.voterId} style={line}>
+                    {name(v.voterId)} voted for {name(v.targetId)}
+                  </p>
+                ))}
+              </>
+            )}
+
+            {round.eliminations.length > 0 && (
+              <>
+                <p style={sectionLabel}>☠ Eliminated</p>
+                {round.eliminations.map((e) => (
+                  <p key={`${e.playerId}-${e.cause}`} style={line}>
+                    {name(e.playerId)} — {CAUSE_LABELS[e.cause]}
+                  </p>
+                ))}
+              </>
+            )}
+          </motion.div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -10,12 +10,12 @@ const RULES: Rule[] = [
     {
         icon: '🎭',
         title: 'Roles',
-        body: 'Each player is secretly assigned a role: Mafia, Detective, Doctor, or Citizen. Only the Mafia know each other.',
+        body: 'Each player is secretly assigned a role: Mafia, Detective, Doctor, or Citizen (some setups add the neutral Jester and Executioner, a lone Serial Killer, or a Godfather and Framer who fool the Detective). Only the Mafia know each other.',
     },
     {
         icon: '🌙',
         title: 'Night Phase',
-        body: 'Mafia silently choose a target to eliminate. The Doctor may save one player. The Detective can investigate one player\'s allegiance.',
+        body: 'Mafia silently choose a target to eliminate. The Doctor may save one player. The Detective can investigate one player\'s allegiance. In some setups an Escort can distract a player so their night action never happens, a Lookout sees who visits a player, and a Tracker sees where a player goes.',
     },
     {
         icon: '☀️',
@@ -30,12 +30,12 @@ const RULES: Rule[] = [
     {
         icon: '🏆',
         title: 'Winning',
-        body: 'Citizens win by eliminating all Mafia. Mafia win when they equal or outnumber the remaining Citizens.',
+        body: 'Citizens win by eliminating all Mafia (and any Serial Killer). Mafia win when they equal or outnumber the remaining Citizens once the Serial Killer is gone; the Serial Killer wins by being the last one standing. The Jester wins by getting lynched, the Executioner by getting their mark lynched — they share the win with whichever side takes the city.',
     },
     {
         icon: '🔍',
         title: 'Detective',
-        body: 'Each night the Detective picks one player and learns whether they are Mafia. Use this information wisely!',
+        body: 'Each night the Detective picks one player and learns at dawn whether they look like Mafia. The Godfather always looks clean and a framed player looks guilty — use this information wisely!',
     },
     {
         icon: '💊',
@@ -0,0 +1,52 @@
+// =============================================================================
+// components/LastWillPanel.tsx – Private last will, revealed to all on death
+// =============================================================================
+import { useEffect, useState } from 'react';
+
+interface LastWillPanelProps {
+  /** The will as last saved on the server */
+  will: string;
+  onSave: (text: string) => void;
+}
+
+/** Mirrors the server's cap (longer wills are cut) */
+const WILL_MAX_LENGTH = 500;
+
+export function LastWillPanel({ will, onSave }: LastWillPanelProps) {
+  const [draft, setDraft] = useState(will);
+
+  // A save, reconnect snapshot or reset replaces the draft
+  useEffect(() => { setDraft(will); }, [will]);
+
+  const dirty = draft.trim() !== will;
+
+  return (
+    <div style={{ flexShrink: 0, padding: '0.5rem', background: 'rgba(0,0,0,0.3)', borderRadius: 4, border: '1px solid rgba(214,190,140,0.25)' }}>
+      <h4 style={{ fontFamily: 'var(--font-display)', fontSize: '0.6rem', color: '#d6be8c', letterSpacing: '0.15em', marginBottom: '0.5rem' }}>
+        📜 LAST WILL
+      </h4>
+      <textarea
+        className="input-noir"
+        rows={3}
+        maxLength={WILL_MAX_LENGTH}
+        value={draft}
+        placeholder="Role claim, suspicions… read out to everyone when you die."
+        onChange={(e) => setDraft(e.target.value)}
+        style={{ width: '100%', fontSize: '0.72rem', padding: '0.35rem 0.5rem', resize: 'vertical', fontFamily: 'var(--font-typewriter)' }}
+      />
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: '0.35rem' }}>
+        <span style={{ fontSize: '0.6rem', color: 'var(--noir-text-dim)' }}>
+          {draft.length}/{WILL_MAX_LENGTH}
+        </span>
+        <button
+          className="btn-noir btn-gold"
+          style={{ fontSize: '0.6rem', padding: '0.2rem 0.6rem' }}
+          disabled={!dirty}
+          onClick={() => onSave(draft)}
+        >
+          {dirty ? 'SAVE' : '✓ SAVED'}
+        </button>
+      </div>
+    </div>
+  );
+}
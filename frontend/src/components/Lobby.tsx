@@ -60,12 +60,22 @@ import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AvatarPicker, DEFAULT_AVATAR } from './AvatarPicker';
 import { getHeadshotUrl, getAvatarColor, getInitials } from '../lib/avatarUtils';
-import type { Avatar } from '../types/game';
+import type { Avatar, ErrorCode } from '../types/game';
 import type { useGameState } from '../hooks/useGameState';
 
 type GameStateApi = ReturnType<typeof useGameState>;
 interface LobbyProps { api: GameStateApi; }
 type Tab = 'create' | 'join';
+type Field = 'name' | 'code';
+
+// ── Rejections that point at a specific input ────────────────────────────────
+const FIELD_FOR_ERROR: Partial<Record<ErrorCode, Field>> = {
+  INVALID_NAME: 'name',
+  NAME_TAKEN: 'name',
+  ROOM_NOT_FOUND: 'code',
+};
+const INVALID_INPUT_STYLE = { borderColor: '#ff3b3b', boxShadow: '0 0 10px rgba(255,0,0,0.35)' };
+const FIELD_ERROR_STYLE = { color: '#ff6b6b', fontSize: '0.72rem', marginTop: '0.35rem', display: 'block' };
 
 // ── Title letters for staggered animation ────────────────────────────────────
 const LINE1 = 'WHO LIES'.split('');
@@ -82,13 +92,14 @@ const EMBERS = Array.from({ length: 22 }, (_, i) => ({
 }));
 
 export function Lobby({ api }: LobbyProps) {
-  const { state, createRoom, joinRoom } = api;
+  const { state, createRoom, joinRoom, spectateRoom } = api;
   const navigate = useNavigate();
   const cardRef = useRef<HTMLDivElement>(null);
 
   const [tab, setTab] = useState<Tab>('create');
   const [username, setUsername] = useState('');
   const [roomCode, setRoomCode] = useState('');
+  const [fieldError, setFieldError] = useState<{ field: Field; message: string } | null>(null);
   const [avatar, setAvatar] = useState<Avatar>(() => {
     try {
       const saved = localStorage.getItem('wlt_avatar');
@@ -115,8 +126,15 @@ export function Lobby({ api }: LobbyProps) {
   useEffect(() => { localStorage.setItem('wlt_avatar', JSON.stringify(avatar)); }, [avatar]);
   useEffect(() => { if (state.roomCode) navigate(`/room/${state.roomCode}`); }, [state.roomCode, navigate]);
 
-  const handleCreate = () => { if (!username.trim()) return; createRoom(username.trim(), avatar); };
-  const handleJoin = () => { if (!username.trim() || !roomCode.trim()) return; joinRoom(roomCode.toUpperCase(), username.trim(), avatar); };
+  // Highlight the input a rejection is about (the toast still shows the message)
+  const flagField = (res: Awaited<ReturnType<typeof createRoom>>) => {
+    if (res.ok) return;
+    const field = FIELD_FOR_ERROR[res.error.code];
+    if (field) setFieldError({ field, message: res.error.message });
+  };
+  const handleCreate = () => { if (!username.trim()) return; setFieldError(null); createRoom(username.trim(), avatar).then(flagField); };
+  const handleJoin = () => { if (!username.trim() || !roomCode.trim()) return; setFieldError(null); joinRoom(roomCode.toUpperCase(), username.trim(), avatar).then(flagField); };
+  const handleSpectate = () => { if (!username.trim() || !roomCode.trim()) return; setFieldError(null); spectateRoom(roomCode.toUpperCase(), username.trim(), avatar).then(flagField); };
   const headshotUrl = avatar.url ? getHeadshotUrl(avatar.url) : '';
 
   return (
@@ -409,7 +427,7 @@ export function Lobby({ api }: LobbyProps) {
               {(['create', 'join'] as Tab[]).map((t) => (
                 <button
                   key={t}
-                  onClick={() => setTab(t)}
+                  onClick={() => { setTab(t); setFieldError(null); }}
                   style={{
                     flex: 1, padding: '0.65rem',
                     fontFamily: 'var(--font-display)',
@@ -438,10 +456,12 @@ export function Lobby({ api }: LobbyProps) {
                 placeholder="e.g. Scarface, Bonnie..."
                 value={username}
                 maxLength={16}
-                onChange={(e) => setUsername(e.target.value)}
+                onChange={(e) => { setUsername(e.target.value); if (fieldError?.field === 'name') setFieldError(null); }}
                 onKeyDown={(e) => { if (e.key === 'Enter') tab === 'create' ? handleCreate() : handleJoin(); }}
-                style={{ fontSize: '1rem' }}
+                aria-invalid={fieldError?.field === 'name'}
+                style={{ fontSize: '1rem', ...(fieldError?.field === 'name' ? INVALID_INPUT_STYLE : {}) }}
               />
+              {fieldError?.field === 'name' && <span role="alert" style={FIELD_ERROR_STYLE}>{fieldError.message}</span>}
             </label>
 
             <AnimatePresence mode="wait">
@@ -462,10 +482,12 @@ export function Lobby({ api }: LobbyProps) {
                     placeholder="e.g. X7K9P2"
                     value={roomCode}
                     maxLength={6}
-                    onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+                    onChange={(e) => { setRoomCode(e.target.value.toUpperCase()); if (fieldError?.field === 'code') setFieldError(null); }}
                     onKeyDown={(e) => { if (e.key === 'Enter') handleJoin(); }}
-                    style={{ textTransform: 'uppercase', letterSpacing: '0.3em', fontSize: '1.3rem', textAlign: 'center' }}
+                    aria-invalid={fieldError?.field === 'code'}
+                    style={{ textTransform: 'uppercase', letterSpacing: '0.3em', fontSize: '1.3rem', textAlign: 'center', ...(fieldError?.field === 'code' ? INVALID_INPUT_STYLE : {}) }}
                   />
+                  {fieldError?.field === 'code' && <span role="alert" style={FIELD_ERROR_STYLE}>{fieldError.message}</span>}
                 </motion.label>
               )}
             </AnimatePresence>
@@ -521,10 +543,22 @@ export function Lobby({ api }: LobbyProps) {
               {tab === 'create' ? '⚔  CREATE ROOM' : '⤵  JOIN ROOM'}
             </motion.button>
 
+            {/* Watch without a seat — also works once the game has started */}
+            {tab === 'join' && (
+              <button
+                className="btn-noir btn-gold w-full"
+                style={{ fontSize: '0.8rem', padding: '0.7rem', letterSpacing: '0.12em', marginBottom: '0.75rem' }}
+                onClick={handleSpectate}
+                disabled={!username.trim() || roomCode.length < 6}
+              >
+                👁  WATCH AS SPECTATOR
+              </button>
+            )}
+
             <p style={{ textAlign: 'center', color: 'var(--noir-text-dim)', fontSize: '0.7rem', lineHeight: 1.6 }}>
               {tab === 'create'
                 ? 'A 6-character code will be generated. Minimum 4 players to start.'
-                : 'Enter the code shared by your host to join the syndicate.'}
+                : 'Enter the code shared by your host to join the syndicate — or watch a game already under way.'}
             </p>
           </div>
         </div>
@@ -3,42 +3,28 @@
 // =============================================================================
 import { motion, AnimatePresence } from 'framer-motion';
 import { getHeadshotUrl, getAvatarColor, getInitials } from '../lib/avatarUtils';
-import type { PublicPlayer, Role } from '../types/game';
+import { ROLES, nightRulesOf } from '../lib/roles';
+import type { MafiaKillRule, MafiaVotesPayload, NightActionType, PublicPlayer, Role } from '../types/game';
 
 interface NightActionModalProps {
   myRole: Role;
   myId: string;
   players: PublicPlayer[];
+  /** Known members of my own faction (used for teammate targeting rules) */
+  teammateIds: string[];
+  /** Room rule — when false, no role may target itself */
+  selfTargeting: boolean;
   submitted: boolean;
+  /** Mafia only: teammates' live kill votes */
+  teamVotes: MafiaVotesPayload | null;
   roomCode: string;
-  onSubmit: (code: string, action: 'kill' | 'save' | 'investigate', targetId: string) => void;
+  onSubmit: (code: string, action: NightActionType, targetId: string) => void;
 }
 
-const ROLE_CONFIG: Record<
-  'mafia' | 'doctor' | 'detective',
-  { label: string; action: 'kill' | 'save' | 'investigate'; description: string; buttonClass: string; icon: string }
-> = {
-  mafia: {
-    label: 'Choose Your Target',
-    action: 'kill',
-    description: 'Select a citizen to eliminate tonight. The syndicate has spoken.',
-    buttonClass: 'btn-filled-red',
-    icon: '🔫',
-  },
-  doctor: {
-    label: 'Choose Who to Protect',
-    action: 'save',
-    description: 'Select a player to shelter from the mob tonight. You can protect yourself.',
-    buttonClass: 'btn-filled-gold',
-    icon: '💉',
-  },
-  detective: {
-    label: 'Choose Who to Investigate',
-    action: 'investigate',
-    description: 'Choose a suspect. You will learn if they are in the mafia.',
-    buttonClass: 'btn-gold',
-    icon: '🕵️',
-  },
+const KILL_RULE_HINTS: Record<MafiaKillRule, string> = {
+  majority: 'Most votes takes the shot. Ties are settled by a coin toss.',
+  unanimous: 'The whole crew must agree, or nobody dies tonight.',
+  shooter: 'The trigger man has the final say. The rest of you advise.',
 };
 
 function PlayerAvatar({ player, size = 48 }: { player: PublicPlayer; size?: number }) {
@@ -69,12 +55,18 @@ export function NightActionModal({
   myRole,
   myId,
   players,
+  teammateIds,
+  selfTargeting,
   submitted,
+  teamVotes,
   roomCode,
   onSubmit,
 }: NightActionModalProps) {
-  // Citizens and spectators have no night action
-  if (myRole === 'citizen' || submitted) {
+  const rules = nightRulesOf(myRole);
+  const config = ROLES[myRole].night;
+
+  // Roles without a night ability (citizens) just wait; team votes stay open until dawn
+  if (!rules || !config || (submitted && !rules.shared)) {
     if (submitted) return null; // No UI after submitting — silently wait
     return (
       <motion.div
@@ -94,15 +86,21 @@ export function NightActionModal({
     );
   }
 
-  const config = ROLE_CONFIG[myRole as 'mafia' | 'doctor' | 'detective'];
-  if (!config) return null;
-
   const validTargets = players.filter((p) => {
     if (!p.alive) return false;
-    if (myRole === 'mafia' && p.id === myId) return false;
+    if (!(rules.targets.allowSelf && selfTargeting) && p.id === myId) return false;
+    if (!rules.targets.allowTeammates && p.id !== myId && teammateIds.includes(p.id)) return false;
     return true;
   });
 
+  // Blood-red styling for every killer, mafia or not
+  const isKiller = rules.action === 'kill';
+  const myPick = teamVotes?.votes[myId] ?? null;
+  const nameOf = (id: string) => players.find((p) => p.id === id)?.name ?? 'someone';
+  const crew = rules.shared
+    ? players.filter((p) => p.alive && (p.id === myId || teammateIds.includes(p.id)))
+    : [];
+
   return (
     <AnimatePresence>
       <motion.div
@@ -113,16 +111,16 @@ export function NightActionModal({
           maxWidth: 440,
           margin: '0 auto',
           overflow: 'hidden',
-          border: `1px solid ${myRole === 'mafia' ? 'var(--noir-red)' : 'var(--noir-gold)'}`,
-          boxShadow: myRole === 'mafia' ? 'var(--shadow-red)' : 'var(--shadow-gold)',
+          border: `1px solid ${isKiller ? 'var(--noir-red)' : 'var(--noir-gold)'}`,
+          boxShadow: isKiller ? 'var(--shadow-red)' : 'var(--shadow-gold)',
         }}
       >
         {/* Header bar */}
         <div
           style={{
-            background: myRole === 'mafia' ? 'rgba(200,0,0,0.2)' : 'rgba(255,215,0,0.1)',
+            background: isKiller ? 'rgba(200,0,0,0.2)' : 'rgba(255,215,0,0.1)',
             padding: '0.75rem 1.25rem',
-            borderBottom: `1px solid ${myRole === 'mafia' ? 'rgba(255,0,0,0.3)' : 'rgba(255,215,0,0.2)'}`,
+            borderBottom: `1px solid ${isKiller ? 'rgba(255,0,0,0.3)' : 'rgba(255,215,0,0.2)'}`,
           }}
         >
           <h3
@@ -130,7 +128,7 @@ export function NightActionModal({
               fontFamily: 'var(--font-display)',
               fontSize: '0.9rem',
               letterSpacing: '0.12em',
-              color: myRole === 'mafia' ? 'var(--noir-red)' : 'var(--noir-gold)',
+              color: isKiller ? 'var(--noir-red)' : 'var(--noir-gold)',
             }}
           >
             {config.icon} {config.label}
@@ -140,6 +138,30 @@ export function NightActionModal({
           </p>
         </div>
 
+        {/* Team votes (shared abilities) */}
+        {rules.shared && teamVotes && (
+          <div style={{ padding: '0.6rem 1.25rem', borderBottom: '1px solid rgba(255,0,0,0.2)' }}>
+            <p style={{ fontSize: '0.65rem', color: 'var(--noir-text-dim)', marginBottom: '0.35rem' }}>
+              {KILL_RULE_HINTS[teamVotes.rule]}
+            </p>
+            {crew.map((member) => {
+              const targetId = teamVotes.votes[member.id];
+              return (
+                <p key={member.id} style={{ fontSize: '0.72rem', color: 'var(--noir-text)', margin: '0.15rem 0' }}>
+                  {member.id === teamVotes.shooterId && '🎯 '}
+                  <span style={{ fontFamily: 'var(--font-display)', letterSpacing: '0.06em' }}>
+                    {member.id === myId ? 'You' : member.name}
+                  </span>
+                  {' → '}
+                  <span style={{ color: targetId ? 'var(--noir-red)' : 'var(--noir-text-dim)' }}>
+                    {targetId ? nameOf(targetId) : 'undecided'}
+                  </span>
+                </p>
+              );
+            })}
+          </div>
+        )}
+
         {/* Player list */}
         <div style={{ padding: '0.75rem', display: 'flex', flexDirection: 'column', gap: '0.4rem', maxHeight: 320, overflowY: 'auto' }}>
           {validTargets.map((player) => (
@@ -147,25 +169,25 @@ export function NightActionModal({
               key={player.id}
               whileHover={{ x: 4 }}
               whileTap={{ scale: 0.97 }}
-              onClick={() => onSubmit(roomCode, config.action, player.id)}
+              onClick={() => onSubmit(roomCode, rules.action, player.id)}
               style={{
                 display: 'flex',
                 alignItems: 'center',
                 gap: '0.75rem',
                 padding: '0.5rem 0.75rem',
                 background: 'rgba(26,26,26,0.8)',
-                border: '1px solid rgba(255,215,0,0.12)',
+                border: `1px solid ${player.id === myPick ? 'var(--noir-red)' : 'rgba(255,215,0,0.12)'}`,
                 borderRadius: 2,
                 cursor: 'pointer',
                 textAlign: 'left',
                 transition: 'all 150ms',
               }}
               onMouseEnter={(e) => {
-                e.currentTarget.style.borderColor = myRole === 'mafia' ? 'var(--noir-red)' : 'var(--noir-gold)';
+                e.currentTarget.style.borderColor = isKiller ? 'var(--noir-red)' : 'var(--noir-gold)';
                 e.currentTarget.style.background = 'rgba(40,30,20,0.9)';
               }}
               onMouseLeave={(e) => {
-                e.currentTarget.style.borderColor = 'rgba(255,215,0,0.12)';
+                e.currentTarget.style.borderColor = player.id === myPick ? 'var(--noir-red)' : 'rgba(255,215,0,0.12)';
                 e.currentTarget.style.background = 'rgba(26,26,26,0.8)';
               }}
             >
@@ -0,0 +1,45 @@
+// =============================================================================
+// components/NotebookPanel.tsx – Private notebook of what my night role learned
+// =============================================================================
+import type { DetectiveResult, VisitReportAction, VisitReportPayload } from '../types/game';
+
+interface NotebookPanelProps {
+  detectiveResults: DetectiveResult[];
+  visitReports: VisitReportPayload[];
+}
+
+/** How each report reads: "<target> <verb> <names>" */
+const REPORT_LINES: Record<VisitReportAction, { verb: string; nobody: string }> = {
+  watch: { verb: 'was visited by', nobody: 'had no visitors' },
+  track: { verb: 'went to', nobody: 'stayed home' },
+};
+
+export function NotebookPanel({ detectiveResults, visitReports }: NotebookPanelProps) {
+  return (
+    <div style={{ flexShrink: 0, padding: '0.5rem', background: 'rgba(0,0,0,0.3)', borderRadius: 4, border: '1px solid rgba(0, 212, 255, 0.2)' }}>
+      <h4 style={{ fontFamily: 'var(--font-display)', fontSize: '0.6rem', color: 'var(--noir-neon-blue)', letterSpacing: '0.15em', marginBottom: '0.5rem' }}>
+        📓 NOTEBOOK
+      </h4>
+      {detectiveResults.map((r, i) => (
+        <p key={`investigation-${i}`} style={{ fontSize: '0.7rem', marginBottom: '0.2rem' }}>
+          <span style={{ color: 'var(--noir-gold)' }}>{r.targetName}</span>
+          {' — '}
+          <span style={{ color: r.isMafia ? 'var(--noir-red)' : '#00ff88' }}>
+            {r.isMafia ? '🔴 MAFIA' : '✅ INNOCENT'}
+          </span>
+        </p>
+      ))}
+      {visitReports.map((r, i) => {
+        const line = REPORT_LINES[r.action];
+        return (
+          <p key={`visit-${i}`} style={{ fontSize: '0.7rem', marginBottom: '0.2rem' }}>
+            <span style={{ color: 'var(--noir-text-dim)' }}>Night {r.round}: </span>
+            <span style={{ color: 'var(--noir-gold)' }}>{r.targetName}</span>
+            {' '}
+            {r.seen.length > 0 ? `${line.verb} ${r.seen.map((p) => p.name).join(', ')}` : line.nobody}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
@@ -4,7 +4,8 @@
 // =============================================================================
 import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { Role } from '../types/game';
+import { ROLES, factionOf } from '../lib/roles';
+import type { LynchTarget, Role } from '../types/game';
 
 interface MafiaTeammate {
   id: string;
@@ -14,67 +15,19 @@ interface MafiaTeammate {
 interface RoleRevealScreenProps {
   role: Role;
   mafiaTeam: MafiaTeammate[];
+  /** Executioner's mark */
+  lynchTarget: LynchTarget | null;
   onDismiss: () => void;
 }
 
-const ROLE_DATA: Record<Role, {
-  icon: string;
-  title: string;
-  subtitle: string;
-  description: string;
-  objective: string;
-  color: string;
-  glowColor: string;
-  bgGradient: string;
-}> = {
-  mafia: {
-    icon: '🕶️',
-    title: 'GANGSTER',
-    subtitle: 'The Syndicate',
-    description: 'You are part of the criminal underworld. The city is yours to control.',
-    objective: 'Each night, choose a citizen to eliminate. Win when your numbers match the town.',
-    color: '#ff2222',
-    glowColor: 'rgba(255,0,0,0.6)',
-    bgGradient: 'radial-gradient(ellipse at center, #1a0000 0%, #050000 60%, #000 100%)',
-  },
-  doctor: {
-    icon: '💉',
-    title: 'DOCTOR',
-    subtitle: 'The Underground Medic',
-    description: 'You move through the shadows with a needle and steady hands.',
-    objective: "Each night, choose one player to protect — including yourself. If the mafia targets them, they survive.",
-    color: '#00e676',
-    glowColor: 'rgba(0,230,118,0.6)',
-    bgGradient: 'radial-gradient(ellipse at center, #001a0a 0%, #000a05 60%, #000 100%)',
-  },
-  detective: {
-    icon: '🕵️',
-    title: 'DETECTIVE',
-    subtitle: 'The Private Eye',
-    description: "You see through lies. The city's secrets are yours to uncover.",
-    objective: 'Each night, investigate one player. You will learn if they are in the mafia.',
-    color: '#00b8d9',
-    glowColor: 'rgba(0,184,217,0.6)',
-    bgGradient: 'radial-gradient(ellipse at center, #00101a 0%, #000508 60%, #000 100%)',
-  },
-  citizen: {
-    icon: '👤',
-    title: 'CITIZEN',
-    subtitle: 'The Ordinary Folk',
-    description: 'You are an honest resident of this corrupt city — a rare thing.',
-    objective: 'Use the day phase to discuss, accuse, and vote out the mafia. You have no night action.',
-    color: '#ffd700',
-    glowColor: 'rgba(255,215,0,0.4)',
-    bgGradient: 'radial-gradient(ellipse at center, #1a1400 0%, #080600 60%, #000 100%)',
-  },
-};
-
 const AUTO_DISMISS_MS = 7000;
 
-export function RoleRevealScreen({ role, mafiaTeam, onDismiss }: RoleRevealScreenProps) {
+export function RoleRevealScreen({ role, mafiaTeam, lynchTarget, onDismiss }: RoleRevealScreenProps) {
   const [flipped, setFlipped] = useState(false);
   const [progress, setProgress] = useState(0);
-  const data = ROLE_DATA[role];
+  const { icon, reveal } = ROLES[role];
+  const faction = factionOf(role);
+  const data = { icon, ...reveal };
 
   // Flip card after 1.2s
   useEffect(() => {
@@ -96,7 +49,7 @@ export function RoleRevealScreen({ role, mafiaTeam, onDismiss }: RoleRevealScree
     return () => clearInterval(interval);
   }, [onDismiss]);
 
-  const isMafia = role === 'mafia';
+  const isMafia = faction === 'mafia';
   const teammates = mafiaTeam.filter((m) => true); // all teammates including self
 
   return (
@@ -326,6 +279,37 @@ export function RoleRevealScreen({ role, mafiaTeam, onDismiss }: RoleRevealScree
         )}
       </AnimatePresence>
 
+      {/* Executioner's mark */}
+      <AnimatePresence>
+        {flipped && lynchTarget && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.9 }}
+            style={{
+              background: 'rgba(40,20,0,0.6)',
+              border: `1px solid ${data.color}`,
+              borderRadius: 8,
+              padding: '0.75rem 1.25rem',
+              textAlign: 'center',
+              marginBottom: '1rem',
+              backdropFilter: 'blur(4px)',
+            }}
+          >
+            <p style={{
+              fontFamily: 'var(--font-display)',
+              fontSize: '0.6rem',
+              letterSpacing: '0.2em',
+              color: data.color,
+              marginBottom: '0.5rem',
+            }}>
+              YOUR MARK
+            </p>
+            <p style={{ fontSize: '0.9rem', color: '#fff', fontWeight: 600 }}>🎯 {lynchTarget.name}</p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Progress bar + dismiss hint */}
       {flipped && (
         <motion.div
@@ -14,11 +14,18 @@ import { NightActionModal } from './NightActionModal';
 import { VotePanel } from './VotePanel';
 import { GameEndScreen } from './GameEndScreen';
 import { RoleRevealScreen } from './RoleRevealScreen';
+import { RoomSettingsPanel } from './RoomSettingsPanel';
+import { SetupPanel } from './SetupPanel';
 import { getHeadshotUrl, getAvatarColor, getInitials } from '../lib/avatarUtils';
 import { useVoiceChat } from '../hooks/useVoiceChat';
 import { VoiceBar } from './VoiceBar';
+import { LastWillPanel } from './LastWillPanel';
+import { NotebookPanel } from './NotebookPanel';
 import { useSocket } from '../hooks/useSocket';
+import { serverNow } from '../hooks/useServerClock';
+import { ROLES, factionOf } from '../lib/roles';
 import type { useGameState } from '../hooks/useGameState';
+import type { NightActionType, PhaseStep } from '../types/game';
 
 type GameStateApi = ReturnType<typeof useGameState>;
 
@@ -26,27 +33,27 @@ interface RoomProps {
   api: GameStateApi;
 }
 
-// Role emojis and labels
-const ROLE_INFO: Record<string, { icon: string; label: string; color: string }> = {
-  mafia: { icon: '🕶️', label: 'Gangster', color: 'var(--noir-red)' },
-  doctor: { icon: '💉', label: 'Doctor', color: '#00ff88' },
-  detective: { icon: '🕵️', label: 'Detective', color: 'var(--noir-neon-blue)' },
-  citizen: { icon: '👤', label: 'Citizen', color: 'var(--noir-text)' },
+/** Countdown heading for each scheduled server step */
+const STEP_LABELS: Record<PhaseStep, string> = {
+  start_night: 'NIGHT FALLS IN',
+  resolve_night: 'NIGHT ENDS IN',
+  start_day: 'DAWN IN',
+  start_vote: 'DISCUSSION ENDS IN',
+  resolve_vote: 'VOTE ENDS IN',
 };
 
-// Real countdown timer — counts down from timerMs on each phase change
-function usePhaseTimer(timerMs: number, phase: string) {
-  const [remaining, setRemaining] = useState(timerMs);
+// Countdown to the server's absolute deadline — every client shows the same time
+function usePhaseTimer(endsAt: number | null) {
+  const remainingAt = () => (endsAt === null ? 0 : Math.max(0, endsAt - serverNow()));
+  const [remaining, setRemaining] = useState(remainingAt);
 
-  // Reset whenever a new phase arrives with a fresh timer value
+  // Re-derive from the deadline on every tick, so drift and late joins don't matter
   useEffect(() => {
-    if (timerMs <= 0) return;
-    setRemaining(timerMs);
-    const interval = setInterval(() => {
-      setRemaining((prev) => Math.max(0, prev - 1000));
-    }, 1000);
+    setRemaining(remainingAt());
+    if (endsAt === null) return;
+    const interval = setInterval(() => setRemaining(remainingAt()), 250);
     return () => clearInterval(interval);
-  }, [timerMs, phase]); // re-run when phase changes (new phase brings new timerMs)
+  }, [endsAt]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const totalSec = Math.ceil(remaining / 1000);
   const mins = Math.floor(totalSec / 60).toString().padStart(2, '0');
@@ -62,9 +69,13 @@ export function Room({ api }: RoomProps) {
     clearCutscene,
     clearNarrator,
     startGame,
+    updateSettings,
+    selectSetup,
+    importSetup,
     submitNightAction,
     submitDayVote,
     sendChat,
+    setWill,
     leaveRoom,
     attemptReconnect,
     skipDiscussion,
@@ -72,10 +83,10 @@ export function Room({ api }: RoomProps) {
   } = api;
 
   const {
-    roomCode, myId, myRole, mySessionId, players, phase, round, timer,
+    roomCode, myId, myRole, mySessionId, players, phase, round, deadline,
     votes, voteTally, messages, narratorText, narratorOutcome,
-    cutscene, gameEnd, detectiveResults, started, nightActionSubmitted,
-    myMafiaTeam,
+    cutscenes, gameEnd, detectiveResults, visitReports, roleblockedRound, started, nightActionSubmitted, mafiaVotes,
+    myMafiaTeam, myLynchTarget, settings, setup, setupFixed, isSpectator, spectators, myWill,
   } = state;
 
   // Reconnect attempt on mount if session info exists
@@ -96,15 +107,20 @@ export function Room({ api }: RoomProps) {
   }, [started]);
 
   const myPlayer = players.find((p) => p.id === myId);
+  /** Who the header shows — our seat, or our spot in the gallery */
+  const me = myPlayer ?? spectators.find((s) => s.id === myId);
   const isAlive = myPlayer?.alive ?? false;
   const isHost = myPlayer?.isHost ?? false;
+  const canSkipDiscussion = isHost && (settings?.rules.hostCanSkipDiscussion ?? true);
+  const minPlayers = settings?.minPlayers ?? 4;
 
   const aliveMafiaCount = players.filter(
     (p) => p.alive && detectiveResults // just count from playerlist perspective
   ).length;
 
   // Actual alive mafia count: only know for certain if we are mafia
-  const mafiaAliveCount = myRole === 'mafia'
+  const isMafia = myRole ? factionOf(myRole) === 'mafia' : false;
+  const mafiaAliveCount = isMafia
     ? myMafiaTeam.filter((m) => players.find((p) => p.id === m.id && p.alive)).length
     : players.filter((p) => p.alive).length; // fallback — server controls mafia chat
 
@@ -129,7 +145,7 @@ export function Room({ api }: RoomProps) {
   );
 
   const handleNightAction = useCallback(
-    (code: string, action: 'kill' | 'save' | 'investigate', targetId: string) => {
+    (code: string, action: NightActionType, targetId: string) => {
       submitNightAction(code, action, targetId);
     },
     [submitNightAction]
@@ -168,11 +184,11 @@ export function Room({ api }: RoomProps) {
     navigate('/');
   };
 
-  const roleInfo = myRole ? ROLE_INFO[myRole] : null;
+  const roleInfo = myRole ? ROLES[myRole] : null;
   // ── Countdown timer ──
-  const countdown = usePhaseTimer(timer, phase);
+  const countdown = usePhaseTimer(deadline.endsAt);
 
-  const headshotUrl = myPlayer?.avatar?.url ? getHeadshotUrl(myPlayer.avatar.url) : '';
+  const headshotUrl = me?.avatar?.url ? getHeadshotUrl(me.avatar.url) : '';
 
   return (
     <div
@@ -193,6 +209,7 @@ export function Room({ api }: RoomProps) {
           <RoleRevealScreen
             role={myRole}
             mafiaTeam={myMafiaTeam}
+            lynchTarget={myLynchTarget}
             onDismiss={() => setShowRoleReveal(false)}
           />
         )}
@@ -203,8 +220,8 @@ export function Room({ api }: RoomProps) {
 
       {/* ── Cutscene ─────────────────────────────────────────────────────── */}
       <AnimatePresence>
-        {cutscene && (
-          <CutscenePlayer cutscene={cutscene} onComplete={clearCutscene} />
+        {cutscenes.length > 0 && (
+          <CutscenePlayer key={`${round}-${cutscenes[0].victimId}`} cutscene={cutscenes[0]} onComplete={clearCutscene} />
         )}
       </AnimatePresence>
 
@@ -226,6 +243,7 @@ export function Room({ api }: RoomProps) {
         <VoiceBar
           voice={voice}
           players={players}
+          spectators={spectators}
           myId={myId}
           phase={phase}
         />
@@ -308,9 +326,7 @@ export function Room({ api }: RoomProps) {
               textTransform: 'uppercase',
               marginBottom: '0.1rem',
             }}>
-              {phase === 'night' ? 'NIGHT ENDS IN'
-                : phase === 'vote' ? 'VOTE ENDS IN'
-                  : 'DISCUSSION ENDS IN'}
+              {deadline.step ? STEP_LABELS[deadline.step] : 'TIME LEFT'}
             </p>
             <p style={{
               fontFamily: 'var(--font-display)',
@@ -338,16 +354,16 @@ export function Room({ api }: RoomProps) {
         )}
 
         <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-          {myPlayer && (
+          {me && (
             headshotUrl
               ? <img src={headshotUrl} alt="avatar" style={{ width: 36, height: 36, borderRadius: '50%', objectFit: 'cover', border: '1px solid rgba(255,215,0,0.3)' }} />
-              : <div style={{ width: 36, height: 36, borderRadius: '50%', background: getAvatarColor(myPlayer.name), display: 'flex', alignItems: 'center', justifyContent: 'center', flexShrink: 0 }}>
-                <span style={{ fontFamily: 'var(--font-display)', fontSize: '0.8rem', color: '#fff' }}>{getInitials(myPlayer.name)}</span>
+              : <div style={{ width: 36, height: 36, borderRadius: '50%', background: getAvatarColor(me.name), display: 'flex', alignItems: 'center', justifyContent: 'center', flexShrink: 0 }}>
+                <span style={{ fontFamily: 'var(--font-display)', fontSize: '0.8rem', color: '#fff' }}>{getInitials(me.name)}</span>
               </div>
           )}
           <div style={{ textAlign: 'right' }}>
             <p style={{ fontFamily: 'var(--font-display)', fontSize: '0.7rem', color: 'var(--noir-gold)' }}>
-              {myPlayer?.name ?? '—'}
+              {me?.name ?? '—'}
             </p>
             {roleInfo && started && (
               <p style={{
@@ -359,7 +375,12 @@ export function Room({ api }: RoomProps) {
                 {roleInfo.icon} {roleInfo.label}
               </p>
             )}
-            {!isAlive && started && (
+            {myLynchTarget && started && (
+              <p style={{ fontSize: '0.6rem', color: 'var(--noir-text-dim)', letterSpacing: '0.06em' }}>
+                🎯 Mark: {myLynchTarget.name}
+              </p>
+            )}
+            {(isSpectator || (!isAlive && started)) && (
               <span className="spectator-badge">SPECTATOR</span>
             )}
           </div>
@@ -438,11 +459,31 @@ export function Room({ api }: RoomProps) {
               })}
             </div>
 
+            {/* Observers — spectators have no seat and no role */}
+            {spectators.length > 0 && (
+              <div style={{ marginBottom: '1rem' }}>
+                <p style={{ fontFamily: 'var(--font-display)', fontSize: '0.62rem', color: 'var(--noir-text-dim)', letterSpacing: '0.15em', marginBottom: '0.4rem' }}>
+                  👁 OBSERVERS ({spectators.length})
+                </p>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.35rem' }}>
+                  {spectators.map((spectator) => (
+                    <span
+                      key={spectator.id}
+                      style={{ fontSize: '0.7rem', padding: '0.15rem 0.5rem', borderRadius: 3, border: `1px solid ${spectator.id === myId ? 'rgba(255,215,0,0.4)' : 'rgba(255,215,0,0.1)'}`, color: spectator.connected ? 'var(--noir-text)' : 'var(--noir-text-dim)' }}
+                    >
+                      {spectator.name}
+                      {spectator.id === myId && <span style={{ color: 'var(--noir-text-dim)', marginLeft: 4, fontSize: '0.6rem' }}>(you)</span>}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="divider-gold" />
 
             <div className="flex items-center justify-between gap-3 mt-4">
               <p style={{ color: 'var(--noir-text-dim)', fontSize: '0.75rem' }}>
-                {players.length}/12 players · Min 4 to start
+                {players.length}/{settings?.maxPlayers ?? 12} players · Min {minPlayers} to start
               </p>
               <div className="flex items-center gap-2">
                 {isHost && (
@@ -451,7 +492,7 @@ export function Room({ api }: RoomProps) {
                     whileTap={{ scale: 0.96 }}
                     className="btn-noir btn-filled-red"
                     style={{ fontSize: '0.75rem', padding: '0.55rem 1.2rem' }}
-                    disabled={players.length < 4}
+                    disabled={players.length < minPlayers}
                     onClick={() => roomCode && startGame(roomCode)}
                   >
                     ⚔ START GAME
@@ -459,7 +500,7 @@ export function Room({ api }: RoomProps) {
                 )}
                 {!isHost && (
                   <p style={{ color: 'var(--noir-text-dim)', fontSize: '0.75rem', fontStyle: 'italic' }}>
-                    Waiting for host to start...
+                    {isSpectator ? 'Watching — waiting for host to start...' : 'Waiting for host to start...'}
                   </p>
                 )}
               </div>
@@ -472,6 +513,27 @@ export function Room({ api }: RoomProps) {
             animate={{ opacity: 1, x: 0 }}
             style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: '1rem' }}
           >
+            {/* Room settings — editable by host, read-only for everyone else */}
+            {settings && (
+              <RoomSettingsPanel
+                settings={settings}
+                isHost={isHost}
+                setupFixed={setupFixed}
+                onChange={(patch) => roomCode && updateSettings(roomCode, patch)}
+              />
+            )}
+
+            {/* Role setup — presets, JSON import/export */}
+            {setup && roomCode && (
+              <SetupPanel
+                setup={setup}
+                setupFixed={setupFixed}
+                isHost={isHost}
+                onSelect={(name) => selectSetup(roomCode, name)}
+                onImport={(raw) => importSetup(roomCode, raw)}
+              />
+            )}
+
             {/* Leaderboard panel — only shows after Play Again */}
             {lobbyLeaderboard && lobbyLeaderboard.length > 0 && (
               <div className="glass-card" style={{ padding: '1rem', flexShrink: 0 }}>
@@ -512,6 +574,8 @@ export function Room({ api }: RoomProps) {
               myId={myId}
               myRole={myRole}
               alive={true}
+              spectator={isSpectator}
+              graveyard={false}
               roomCode={roomCode ?? ''}
               onSend={sendChat}
               aliveMafiaCount={0}
@@ -569,7 +633,7 @@ export function Room({ api }: RoomProps) {
                 </p>
               </div>
 
-              {phase === 'day' && isHost && (
+              {phase === 'day' && canSkipDiscussion && (
                 <div style={{ position: 'absolute', top: '0.75rem', right: '1rem', zIndex: 5 }}>
                   <motion.button
                     whileHover={{ scale: 1.05 }}
@@ -600,6 +664,7 @@ export function Room({ api }: RoomProps) {
                     voteTally={voteTally}
                     phase={phase}
                     onPlayerClick={phase === 'vote' && isAlive ? handleVote : undefined}
+                    observers={spectators}
                   />
                 )}
               </div>
@@ -682,7 +747,10 @@ export function Room({ api }: RoomProps) {
                     myRole={myRole}
                     myId={myId ?? ''}
                     players={players}
+                    teammateIds={myMafiaTeam.map((m) => m.id)}
+                    selfTargeting={settings?.rules.selfTargeting ?? true}
                     submitted={nightActionSubmitted}
+                    teamVotes={mafiaVotes}
                     roomCode={roomCode}
                     onSubmit={handleNightAction}
                   />
@@ -701,31 +769,32 @@ export function Room({ api }: RoomProps) {
                     onVote={handleVote}
                     phase={phase}
                     isHost={isHost}
-                    onSkipDiscussion={() => roomCode && skipDiscussion(roomCode)}
+                    onSkipDiscussion={canSkipDiscussion ? () => roomCode && skipDiscussion(roomCode) : undefined}
                   />
                 </div>
               )}
 
-              {/* Detective results history */}
-              {myRole === 'detective' && detectiveResults.length > 0 && (
-                <div style={{ flexShrink: 0, padding: '0.5rem', background: 'rgba(0,0,0,0.3)', borderRadius: 4, border: '1px solid rgba(0, 212, 255, 0.2)' }}>
-                  <h4 style={{ fontFamily: 'var(--font-display)', fontSize: '0.6rem', color: 'var(--noir-neon-blue)', letterSpacing: '0.15em', marginBottom: '0.5rem' }}>
-                    🕵️ INVESTIGATION NOTES
-                  </h4>
-                  {detectiveResults.map((r, i) => (
-                    <p key={i} style={{ fontSize: '0.7rem', marginBottom: '0.2rem' }}>
-                      <span style={{ color: 'var(--noir-gold)' }}>{r.targetName}</span>
-                      {' — '}
-                      <span style={{ color: r.isMafia ? 'var(--noir-red)' : '#00ff88' }}>
-                        {r.isMafia ? '🔴 MAFIA' : '✅ INNOCENT'}
-                      </span>
-                    </p>
-                  ))}
+              {/* Roleblock notice — the day after the night it happened */}
+              {(phase === 'day' || phase === 'vote') && roleblockedRound === round && (
+                <div style={{ flexShrink: 0, padding: '0.5rem', background: 'rgba(0,0,0,0.3)', borderRadius: 4, border: '1px solid rgba(255,105,180,0.3)' }}>
+                  <p style={{ fontSize: '0.7rem', color: '#ff69b4' }}>
+                    💋 Someone kept you busy all night — whatever you planned never happened.
+                  </p>
                 </div>
               )}
 
+              {/* Notebook — investigation results and lookout / tracker reports */}
+              {(detectiveResults.length > 0 || visitReports.length > 0) && (
+                <NotebookPanel detectiveResults={detectiveResults} visitReports={visitReports} />
+              )}
+
+              {/* Last will — private until death, editable in any phase */}
+              {isAlive && roomCode && settings?.rules.lastWills && (
+                <LastWillPanel will={myWill} onSave={(text) => setWill(roomCode, text)} />
+              )}
+
               {/* Mafia team visibility */}
-              {myRole === 'mafia' && myMafiaTeam.length > 1 && (
+              {isMafia && myMafiaTeam.length > 1 && (
                 <div style={{ flexShrink: 0, padding: '0.5rem', background: 'rgba(0,0,0,0.3)', borderRadius: 4, border: '1px solid rgba(255, 0, 0, 0.2)' }}>
                   <h4 style={{ fontFamily: 'var(--font-display)', fontSize: '0.6rem', color: 'var(--noir-red)', letterSpacing: '0.15em', marginBottom: '0.5rem' }}>
                     🕶️ YOUR SYNDICATE
@@ -770,9 +839,11 @@ export function Room({ api }: RoomProps) {
                 myId={myId}
                 myRole={myRole}
                 alive={isAlive}
+                spectator={isSpectator}
+                graveyard={isSpectator || !isAlive}
                 roomCode={roomCode ?? ''}
                 onSend={sendChat}
-                aliveMafiaCount={myRole === 'mafia' ? mafiaAliveCount : 0}
+                aliveMafiaCount={isMafia ? mafiaAliveCount : 0}
               />
             </div>
           </div>
@@ -0,0 +1,172 @@
+// =============================================================================
+// components/RoomSettingsPanel.tsx – Lobby room settings (host edits, others view)
+// Values are validated server-side; the panel only mirrors the allowed ranges.
+// =============================================================================
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { MafiaKillRule, RoleReveal, RoomRules, RoomSettings } from '../types/game';
+
+interface RoomSettingsPanelProps {
+  settings: RoomSettings;
+  isHost: boolean;
+  /** A fixed setup pins the player limits to its role count */
+  setupFixed: boolean;
+  onChange: (patch: Partial<RoomSettings>) => void;
+}
+
+type NumericKey = Exclude<keyof RoomSettings, 'rules' | 'allowSpectators'>;
+
+/** Display unit per field: stored value = shown value × scale */
+const FIELDS: Array<{
+  key: NumericKey;
+  label: string;
+  unit: string;
+  scale: number;
+  min: number;
+  max: number;
+}> = [
+  { key: 'nightDurationMs', label: 'Night', unit: 's', scale: 1000, min: 15, max: 180 },
+  { key: 'dayDurationMs', label: 'Discussion', unit: 's', scale: 1000, min: 30, max: 300 },
+  { key: 'voteDurationMs', label: 'Vote', unit: 's', scale: 1000, min: 15, max: 120 },
+  { key: 'minPlayers', label: 'Min players', unit: '', scale: 1, min: 4, max: 12 },
+  { key: 'maxPlayers', label: 'Max players', unit: '', scale: 1, min: 4, max: 12 },
+  { key: 'mafiaRatio', label: 'Mafia share', unit: '%', scale: 0.01, min: 15, max: 50 },
+];
+
+/** Fields locked while a fixed setup is selected */
+const SETUP_LOCKED: ReadonlySet<NumericKey> = new Set<NumericKey>(['minPlayers', 'maxPlayers']);
+
+/** On/off rules (the rest are choices with their own control) */
+type ToggleRule = Exclude<keyof RoomRules, 'mafiaKillRule' | 'roleReveal'>;
+
+const RULES: Array<{ key: ToggleRule; label: string }> = [
+  { key: 'selfTargeting', label: 'Self-targeting at night' },
+  { key: 'hostCanSkipDiscussion', label: 'Host can skip discussion' },
+  { key: 'lastWills', label: 'Last wills' },
+];
+
+const KILL_RULES: Array<{ value: MafiaKillRule; label: string }> = [
+  { value: 'majority', label: 'Majority' },
+  { value: 'unanimous', label: 'Unanimous' },
+  { value: 'shooter', label: 'Designated shooter' },
+];
+
+const ROLE_REVEALS: Array<{ value: RoleReveal; label: string }> = [
+  { value: 'full', label: 'Exact role' },
+  { value: 'faction', label: 'Town / mafia only' },
+  { value: 'hidden', label: 'Nothing' },
+];
+
+function toDisplay(settings: RoomSettings, key: NumericKey, scale: number): string {
+  return String(Math.round(settings[key] / scale));
+}
+
+export function RoomSettingsPanel({ settings, isHost, setupFixed, onChange }: RoomSettingsPanelProps) {
+  // Draft strings so the host can type freely; committed on blur / Enter
+  const [draft, setDraft] = useState<Record<string, string>>({});
+
+  // Server broadcast wins — drop any stale draft
+  useEffect(() => { setDraft({}); }, [settings]);
+
+  const commit = (key: NumericKey, scale: number) => {
+    const raw = draft[key];
+    if (raw === undefined) return;
+    const parsed = Number(raw);
+    if (!Number.isFinite(parsed)) {
+      setDraft((d) => { const { [key]: _, ...rest } = d; return rest; });
+      return;
+    }
+    // Round away float noise (e.g. 33 × 0.01)
+    const value = Math.round(parsed * scale * 1000) / 1000;
+    if (value !== settings[key]) onChange({ [key]: value });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass-card"
+      style={{ padding: '1rem', flexShrink: 0 }}
+    >
+      <h3 style={{ fontFamily: 'var(--font-display)', color: 'var(--noir-gold)', fontSize: '0.7rem', letterSpacing: '0.15em', textTransform: 'uppercase', marginBottom: '0.75rem', textAlign: 'center' }}>
+        ⚙ Room Settings {!isHost && <span style={{ color: 'var(--noir-text-dim)', fontSize: '0.55rem' }}>(host only)</span>}
+      </h3>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, minmax(0, 1fr))', gap: '0.5rem' }}>
+        {FIELDS.map(({ key, label, unit, scale, min, max }) => (
+          <label key={key} style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+            <span style={{ fontSize: '0.55rem', color: 'var(--noir-text-dim)', letterSpacing: '0.1em', fontFamily: 'var(--font-display)', textTransform: 'uppercase' }}>
+              {label}{unit && ` (${unit})`}
+            </span>
+            {isHost && !(setupFixed && SETUP_LOCKED.has(key)) ? (
+              <input
+                className="input-noir"
+                type="number"
+                min={min}
+                max={max}
+                value={draft[key] ?? toDisplay(settings, key, scale)}
+                onChange={(e) => setDraft((d) => ({ ...d, [key]: e.target.value }))}
+                onBlur={() => commit(key, scale)}
+                onKeyDown={(e) => { if (e.key === 'Enter') commit(key, scale); }}
+                style={{ fontSize: '0.8rem', padding: '0.3rem 0.5rem' }}
+              />
+            ) : (
+              <span style={{ fontFamily: 'var(--font-display)', fontSize: '0.85rem', color: 'var(--noir-text)' }}>
+                {toDisplay(settings, key, scale)}{unit}
+              </span>
+            )}
+          </label>
+        ))}
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.4rem 1rem', marginTop: '0.75rem' }}>
+        {RULES.map(({ key, label }) => (
+          <label key={key} style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontSize: '0.7rem', color: 'var(--noir-text)', cursor: isHost ? 'pointer' : 'default' }}>
+            <input
+              type="checkbox"
+              checked={settings.rules[key]}
+              disabled={!isHost}
+              onChange={(e) => onChange({ rules: { ...settings.rules, [key]: e.target.checked } })}
+            />
+            {label}
+          </label>
+        ))}
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontSize: '0.7rem', color: 'var(--noir-text)', cursor: isHost ? 'pointer' : 'default' }}>
+          <input
+            type="checkbox"
+            checked={settings.allowSpectators}
+            disabled={!isHost}
+            onChange={(e) => onChange({ allowSpectators: e.target.checked })}
+          />
+          Allow spectators
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontSize: '0.7rem', color: 'var(--noir-text)' }}>
+          Mafia kill
+          <select
+            className="input-noir"
+            value={settings.rules.mafiaKillRule}
+            disabled={!isHost}
+            onChange={(e) => onChange({ rules: { ...settings.rules, mafiaKillRule: e.target.value as MafiaKillRule } })}
+            style={{ fontSize: '0.7rem', padding: '0.15rem 0.4rem', width: 'auto' }}
+          >
+            {KILL_RULES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontSize: '0.7rem', color: 'var(--noir-text)' }}>
+          On death reveal
+          <select
+            className="input-noir"
+            value={settings.rules.roleReveal}
+            disabled={!isHost}
+            onChange={(e) => onChange({ rules: { ...settings.rules, roleReveal: e.target.value as RoleReveal } })}
+            style={{ fontSize: '0.7rem', padding: '0.15rem 0.4rem', width: 'auto' }}
+          >
+            {ROLE_REVEALS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,154 @@
+// =============================================================================
+// components/SetupPanel.tsx – Lobby role setup: presets + JSON import/export
+// The host picks a named preset or pastes setup JSON; the server validates it.
+// Everyone sees the role list the game will be dealt.
+// =============================================================================
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ROLES } from '../lib/roles';
+import type { Ack, GameSetup, Role } from '../types/game';
+
+interface SetupPanelProps {
+  setup: GameSetup;
+  setupFixed: boolean;
+  isHost: boolean;
+  /** Select a preset by name, or null for auto-deal */
+  onSelect: (name: string | null) => void;
+  /** Send pasted setup JSON to the server for validation */
+  onImport: (setup: unknown) => Promise<Ack>;
+}
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL ?? 'http://localhost:3001';
+
+const AUTO = '';
+
+const labelStyle = {
+  fontSize: '0.55rem',
+  color: 'var(--noir-text-dim)',
+  letterSpacing: '0.1em',
+  fontFamily: 'var(--font-display)',
+  textTransform: 'uppercase' as const,
+};
+
+export function SetupPanel({ setup, setupFixed, isHost, onSelect, onImport }: SetupPanelProps) {
+  const [presets, setPresets] = useState<GameSetup[]>([]);
+  const [mode, setMode] = useState<'idle' | 'import' | 'export'>('idle');
+  const [json, setJson] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`${BACKEND_URL}/setups`)
+      .then((r) => r.json())
+      .then((data: GameSetup[]) => setPresets(data))
+      .catch(() => setPresets([]));
+  }, []);
+
+  /** Role → count, in registry order */
+  const roleCounts = useMemo(() => {
+    const counts = new Map<Role, number>();
+    for (const role of setup.roles) counts.set(role, (counts.get(role) ?? 0) + 1);
+    return Array.from(counts.entries());
+  }, [setup.roles]);
+
+  const exportJson = () => {
+    const text = JSON.stringify(setup, null, 2);
+    setJson(text);
+    setMode('export');
+    navigator.clipboard?.writeText(text).catch(() => { /* textarea fallback stays visible */ });
+  };
+
+  const submitImport = () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      setParseError('That is not valid JSON.');
+      return;
+    }
+    setParseError(null);
+    // Close the box once the server accepts the setup; a rejection keeps the pasted text
+    void onImport(parsed).then((res) => {
+      if (res.ok) setMode('idle');
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass-card"
+      style={{ padding: '1rem', flexShrink: 0 }}
+    >
+      <h3 style={{ fontFamily: 'var(--font-display)', color: 'var(--noir-gold)', fontSize: '0.7rem', letterSpacing: '0.15em', textTransform: 'uppercase', marginBottom: '0.75rem', textAlign: 'center' }}>
+        🃏 Setup — {setup.name} {!isHost && <span style={{ color: 'var(--noir-text-dim)', fontSize: '0.55rem' }}>(host only)</span>}
+      </h3>
+
+      {isHost && (
+        <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.75rem' }}>
+          <select
+            className="input-noir"
+            value={setupFixed ? setup.name : AUTO}
+            onChange={(e) => onSelect(e.target.value === AUTO ? null : e.target.value)}
+            style={{ flex: 1, fontSize: '0.75rem', padding: '0.3rem 0.5rem' }}
+          >
+            <option value={AUTO}>Auto (by mafia share)</option>
+            {presets.map((p) => (
+              <option key={p.name} value={p.name}>{p.name} · {p.roles.length} players</option>
+            ))}
+            {setupFixed && !presets.some((p) => p.name === setup.name) && (
+              <option value={setup.name}>{setup.name} (imported)</option>
+            )}
+          </select>
+          <button className="btn-noir" style={{ fontSize: '0.6rem', padding: '0.3rem 0.6rem' }} onClick={exportJson}>
+            Export
+          </button>
+          <button
+            className="btn-noir"
+            style={{ fontSize: '0.6rem', padding: '0.3rem 0.6rem' }}
+            onClick={() => { setJson(''); setParseError(null); setMode(mode === 'import' ? 'idle' : 'import'); }}
+          >
+            Import
+          </button>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.4rem' }}>
+        {roleCounts.map(([role, count]) => (
+          <span
+            key={role}
+            style={{ fontSize: '0.7rem', padding: '0.2rem 0.5rem', border: `1px solid ${ROLES[role].color}`, borderRadius: 4, color: ROLES[role].color }}
+          >
+            {ROLES[role].icon} {ROLES[role].label} × {count}
+          </span>
+        ))}
+      </div>
+
+      {mode !== 'idle' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.4rem', marginTop: '0.75rem' }}>
+          <span style={labelStyle}>
+            {mode === 'export' ? 'Setup JSON (copied to clipboard)' : 'Paste setup JSON'}
+          </span>
+          <textarea
+            className="input-noir"
+            rows={6}
+            value={json}
+            readOnly={mode === 'export'}
+            onChange={(e) => setJson(e.target.value)}
+            style={{ fontFamily: 'monospace', fontSize: '0.7rem', resize: 'vertical' }}
+          />
+          {parseError && <span style={{ color: 'var(--noir-red)', fontSize: '0.7rem' }}>{parseError}</span>}
+          <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+            {mode === 'import' && (
+              <button className="btn-noir btn-gold" style={{ fontSize: '0.6rem', padding: '0.3rem 0.6rem' }} onClick={submitImport}>
+                Apply
+              </button>
+            )}
+            <button className="btn-noir" style={{ fontSize: '0.6rem', padding: '0.3rem 0.6rem' }} onClick={() => setMode('idle')}>
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
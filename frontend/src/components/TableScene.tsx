@@ -15,7 +15,8 @@ import { Html, OrbitControls, Sky, Stars, useGLTF } from '@react-three/drei';
 import * as THREE from 'three';
 import { clone as cloneSkeleton } from 'three/examples/jsm/utils/SkeletonUtils.js';
 import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
-import type { Phase, PublicPlayer, Role } from '../types/game';
+import type { Faction, Phase, PublicPlayer, PublicSpectator, Role } from '../types/game';
+import { ROLES } from '../lib/roles';
 
 interface TableSceneProps {
   players: PublicPlayer[];
@@ -26,6 +27,8 @@ interface TableSceneProps {
   onPlayerClick?: (playerId: string) => void;
   /** Hide player name labels during cutscenes / role-reveal overlays */
   showLabels?: boolean;
+  /** Spectators watching the table (listed in a corner, not seated) */
+  observers?: PublicSpectator[];
 }
 
 type VisibilityMode = 'day' | 'night-clear' | 'night-obscured';
@@ -58,6 +61,15 @@ const HUD_HINT_STYLE: CSSProperties = {
   textTransform: 'uppercase',
 };
 
+const OBSERVERS_STYLE: CSSProperties = {
+  left: 'auto',
+  right: 12,
+  maxWidth: '45%',
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+  whiteSpace: 'nowrap',
+};
+
 const NAME_LABEL_BASE: CSSProperties = {
   padding: '2px 7px',
   borderRadius: 999,
@@ -69,6 +81,54 @@ const NAME_LABEL_BASE: CSSProperties = {
   backdropFilter: 'blur(2px)',
 };
 
+/** A dead player's revealed role or faction, under their name */
+const IDENTITY_TAG_STYLE: CSSProperties = {
+  marginTop: 3,
+  fontFamily: 'var(--font-display)',
+  fontSize: '0.45rem',
+  letterSpacing: '0.1em',
+  textAlign: 'center',
+  textTransform: 'uppercase',
+  textShadow: '0 1px 3px rgba(0,0,0,0.9)',
+  whiteSpace: 'nowrap',
+};
+
+const FACTION_TAGS: Record<Faction, { label: string; color: string }> = {
+  town: { label: 'Town', color: '#8fc7ff' },
+  mafia: { label: 'Mafia', color: '#ff6b6b' },
+  neutral: { label: 'Neutral', color: '#d8b4ff' },
+  killer: { label: 'Killer', color: '#ff2d8a' },
+};
+
+/** What the room's roleReveal rule lets everyone see of a dead player */
+function IdentityTag({ role, faction }: { role: Role | null; faction: Faction | null }) {
+  if (role) {
+    const def = ROLES[role];
+    return <div style={{ ...IDENTITY_TAG_STYLE, color: def.color }}>{def.icon} {def.label}</div>;
+  }
+  if (faction) {
+    const tag = FACTION_TAGS[faction];
+    return <div style={{ ...IDENTITY_TAG_STYLE, color: tag.color }}>{tag.label}</div>;
+  }
+  return null;
+}
+
+/** A dead player's revealed last will, pinned under their name */
+const WILL_NOTE_STYLE: CSSProperties = {
+  marginTop: 4,
+  maxWidth: 180,
+  padding: '4px 7px',
+  borderRadius: 4,
+  border: '1px solid rgba(214,190,140,0.55)',
+  background: 'rgba(40, 30, 16, 0.82)',
+  color: '#eadbb8',
+  fontFamily: 'var(--font-typewriter)',
+  fontSize: '0.45rem',
+  lineHeight: 1.35,
+  whiteSpace: 'pre-wrap',
+  overflowWrap: 'anywhere',
+};
+
 function getVisibilityMode(phase: Phase): VisibilityMode {
   if (phase !== 'night') return 'day';
   return 'night-clear';
@@ -1395,6 +1455,8 @@ function AvatarSeat({
             {voteCount > 0 ? ` • ${voteCount}` : ''}
             {!player.connected && player.alive ? ' • offline' : ''}
           </div>
+          <IdentityTag role={player.role} faction={player.faction} />
+          {player.will && <div style={WILL_NOTE_STYLE}>📜 {player.will}</div>}
         </Html>
       )}
     </group>
@@ -1539,6 +1601,7 @@ export const TableScene = memo(function TableScene({
   phase,
   onPlayerClick,
   showLabels = true,
+  observers = [],
 }: TableSceneProps) {
   useEffect(() => {
     players.forEach((player) => {
@@ -1598,6 +1661,12 @@ export const TableScene = memo(function TableScene({
 
       <div style={hudHintStyle}>Drag to rotate • Scroll to zoom</div>
 
+      {observers.length > 0 && (
+        <div style={{ ...hudHintStyle, ...OBSERVERS_STYLE }} title={observers.map((o) => o.name).join(', ')}>
+          👁 Watching: {observers.map((o) => o.name).join(', ')}
+        </div>
+      )}
+
       <div
         style={{
           position: 'absolute',
@@ -3,26 +3,38 @@
 // =============================================================================
 import { motion, AnimatePresence } from 'framer-motion';
 import type { VoiceState } from '../hooks/useVoiceChat';
-import type { PublicPlayer } from '../types/game';
+import type { PublicPlayer, PublicSpectator } from '../types/game';
 import { getHeadshotUrl, getAvatarColor, getInitials } from '../lib/avatarUtils';
 
 interface VoiceBarProps {
     voice: VoiceState;
     players: PublicPlayer[];
+    /** Spectators can share the graveyard channel with eliminated players */
+    spectators: PublicSpectator[];
     myId: string | null;
     phase: string;
 }
 
+/** Anyone who can be in a voice channel */
+type VoiceMember = PublicPlayer | PublicSpectator;
+
 const CHANNEL_LABELS: Record<string, string> = {
     general: 'CITY RADIO',
     mafia: 'SYNDICATE',
+    dead: 'GRAVEYARD',
 };
 const CHANNEL_COLORS: Record<string, string> = {
     general: 'var(--noir-gold)',
     mafia: 'var(--noir-red)',
+    dead: '#9a8cff',
+};
+const CHANNEL_ICONS: Record<string, string> = {
+    general: '📡',
+    mafia: '🔴',
+    dead: '👻',
 };
 
-function PeerAvatar({ player, speaking }: { player: PublicPlayer; speaking: boolean }) {
+function PeerAvatar({ player, speaking }: { player: VoiceMember; speaking: boolean }) {
     const hs = player.avatar?.url ? getHeadshotUrl(player.avatar.url) : '';
     return (
         <div style={{ position: 'relative' }}>
@@ -70,8 +82,8 @@ function PeerAvatar({ player, speaking }: { player: PublicPlayer; speaking: bool
     );
 }
 
-export function VoiceBar({ voice, players, myId, phase }: VoiceBarProps) {
-    const { micOn, channel, speaking, peers, hasPermission, toggleMic } = voice;
+export function VoiceBar({ voice, players, spectators, myId, phase }: VoiceBarProps) {
+    const { micOn, channel, speaking, peers, hasPermission, toggleMic, channelOptions, switchChannel } = voice;
 
     const channelLabel = CHANNEL_LABELS[channel] ?? 'RADIO';
     const channelColor = CHANNEL_COLORS[channel] ?? 'var(--noir-gold)';
@@ -79,13 +91,14 @@ export function VoiceBar({ voice, players, myId, phase }: VoiceBarProps) {
     // Phases where mic is blocked by game rules
     const phaseMuted = phase === 'night' && channel === 'general' && !micOn;
 
-    // Peers in channel (their player objects)
+    // Peers in channel (their player / spectator objects)
+    const members: VoiceMember[] = [...players, ...spectators];
     const peerPlayers = peers
-        .map((pid) => players.find((p) => p.id === pid))
-        .filter(Boolean) as PublicPlayer[];
+        .map((pid) => members.find((p) => p.id === pid))
+        .filter(Boolean) as VoiceMember[];
 
     // My own player
-    const me = players.find((p) => p.id === myId);
+    const me = members.find((p) => p.id === myId);
 
     return (
         <motion.div
@@ -110,7 +123,32 @@ export function VoiceBar({ voice, players, myId, phase }: VoiceBarProps) {
                 minWidth: 180,
             }}
         >
-            {/* Channel badge */}
+            {/* Channel badge — tabs when the dead / spectators can pick */}
+            {channelOptions.length > 1 ? (
+                <div style={{ display: 'flex', gap: '0.3rem', paddingRight: '0.4rem', borderRight: '1px solid rgba(255,255,255,0.08)' }}>
+                    {channelOptions.map((option) => (
+                        <button
+                            key={option}
+                            onClick={() => switchChannel(option)}
+                            title={option === 'dead' ? 'Talk with the eliminated and spectators' : 'Listen to the living (mic off)'}
+                            style={{
+                                fontFamily: 'var(--font-display)',
+                                fontSize: '0.52rem',
+                                letterSpacing: '0.14em',
+                                textTransform: 'uppercase',
+                                background: 'transparent',
+                                border: 'none',
+                                borderBottom: `1px solid ${option === channel ? CHANNEL_COLORS[option] : 'transparent'}`,
+                                color: option === channel ? CHANNEL_COLORS[option] : 'var(--noir-text-dim)',
+                                cursor: 'pointer',
+                                padding: '0.1rem 0.2rem',
+                            }}
+                        >
+                            {CHANNEL_ICONS[option]} {CHANNEL_LABELS[option]}
+                        </button>
+                    ))}
+                </div>
+            ) : (
             <div style={{
                 fontFamily: 'var(--font-display)',
                 fontSize: '0.52rem',
@@ -121,8 +159,9 @@ export function VoiceBar({ voice, players, myId, phase }: VoiceBarProps) {
                 paddingRight: '0.4rem',
                 borderRight: '1px solid rgba(255,255,255,0.08)',
             }}>
-                {channel === 'mafia' ? '🔴' : '📡'} {channelLabel}
+                {CHANNEL_ICONS[channel] ?? '📡'} {channelLabel}
             </div>
+            )}
 
             {/* Mic toggle button */}
             <motion.button
@@ -3,17 +3,32 @@
 // =============================================================================
 import { useState, useEffect, useCallback } from 'react';
 import { useSocket } from './useSocket';
+import { useServerClock } from './useServerClock';
+import { ERROR_CATALOG, type ClientToServerEvents, type HandshakeErrorData } from '@wlt/protocol';
 import type {
+  Avatar,
   GameState,
-  PublicPlayer,
+  ChatChannel,
   ChatMessage,
   CutscenePayload,
   GameEndPayload,
   GameStartPayload,
   NarratePayload,
   VoteUpdatePayload,
+  MafiaVotesPayload,
+  ReconnectedPayload,
+  DeadlinePayload,
+  PhaseChangedPayload,
   DetectiveResult,
-  Phase,
+  ErrorPayload,
+  NightActionType,
+  PlayerEliminatedPayload,
+  RoleblockedPayload,
+  RoomEnteredPayload,
+  RoomResetPayload,
+  RoomSettings,
+  RoomUpdatePayload,
+  VisitReportPayload,
 } from '../types/game';
 
 const DEFAULT_STATE: GameState = {
@@ -22,25 +37,54 @@ const DEFAULT_STATE: GameState = {
   mySessionId: null,
   myRole: null,
   myMafiaTeam: [],
+  myLynchTarget: null,
+  isSpectator: false,
   players: [],
+  spectators: [],
+  myWill: '',
   phase: 'lobby',
   round: 0,
-  timer: 0,
+  deadline: { step: null, endsAt: null },
   votes: {},
   voteTally: {},
   messages: [],
   narratorText: null,
   narratorOutcome: null,
-  cutscene: null,
+  cutscenes: [],
   gameEnd: null,
   detectiveResults: [],
+  visitReports: [],
+  roleblockedRound: null,
   error: null,
   started: false,
   nightActionSubmitted: false,
+  mafiaVotes: null,
+  settings: null,
+  setup: null,
+  setupFixed: false,
 };
 
+/** How long an action waits for the server's acknowledgement */
+const ACK_TIMEOUT_MS = 8_000;
+
+/** How long an error toast stays up */
+const ERROR_TOAST_MS = 4_000;
+
+/** Codes after which a stored session can never rejoin its room */
+const DEAD_SESSION_CODES = new Set(['ROOM_NOT_FOUND', 'SESSION_NOT_FOUND', 'RECONNECT_EXPIRED']);
+
+/** Client events that take an acknowledgement callback */
+type AckEvent = {
+  [E in keyof ClientToServerEvents]: Parameters<ClientToServerEvents[E]>[1] extends undefined ? never : E;
+}[keyof ClientToServerEvents];
+
+type AckPayload<E extends AckEvent> = Parameters<ClientToServerEvents[E]>[0];
+/** What the server acknowledges an event with (Ack<{ code }> for create / join) */
+type AckReply<E extends AckEvent> = Parameters<NonNullable<Parameters<ClientToServerEvents[E]>[1]>>[0];
+
 export function useGameState() {
   const socket = useSocket();
+  useServerClock();
   const [state, setState] = useState<GameState>(() => {
     // Restore session from localStorage on mount
     const saved = localStorage.getItem('wlt_session');
@@ -73,8 +117,67 @@ export function useGameState() {
     setState((s) => ({ ...s, error: null }));
   }, []);
 
+  /** Show an error toast (cleared after a few seconds unless replaced) */
+  const showError = useCallback((error: ErrorPayload) => {
+    setState((s) => ({ ...s, error }));
+    setTimeout(() => setState((s) => (s.error === error ? { ...s, error: null } : s)), ERROR_TOAST_MS);
+  }, []);
+
+  /**
+   * Send an action and wait for its acknowledgement (TIMEOUT if none comes);
+   * a rejection is also shown as a toast. Callers branch on `error.code` for
+   * anything more specific.
+   */
+  const request = useCallback(
+    async <E extends AckEvent>(event: E, data: AckPayload<E>): Promise<AckReply<E>> => {
+      let res: AckReply<E>;
+      try {
+        // socket.io can't infer replies for optional callbacks — AckReply spells it out
+        res = (await socket.timeout(ACK_TIMEOUT_MS).emitWithAck(event, ...([data] as never))) as AckReply<E>;
+      } catch {
+        res = { ok: false, error: { code: 'TIMEOUT', message: ERROR_CATALOG.TIMEOUT } };
+      }
+      if (!res.ok) showError(res.error);
+      return res;
+    },
+    [socket, showError]
+  );
+
+  /** Rejoin with a stored session; forget it if the server says it is gone for good */
+  const rejoin = useCallback(
+    async (sessionId: string, code: string) => {
+      const res = await request('reconnect_player', { sessionId, code });
+      if (!res.ok && DEAD_SESSION_CODES.has(res.error.code)) {
+        localStorage.removeItem('wlt_session');
+        setState((s) => ({ ...DEFAULT_STATE, error: s.error }));
+      }
+      return res;
+    },
+    [socket, request]
+  );
+
+  // After a dropped connection (or a server restart) the socket comes back with
+  // a new ID — rejoin the room with the stored session so the seat is kept
+  useEffect(() => {
+    const onReconnect = () => {
+      const saved = localStorage.getItem('wlt_session');
+      if (!saved) return;
+      try {
+        const { mySessionId, roomCode } = JSON.parse(saved);
+        if (mySessionId && roomCode) void rejoin(mySessionId, roomCode);
+      } catch {
+        /* ignore */
+      }
+    };
+    socket.io.on('reconnect', onReconnect);
+    return () => {
+      socket.io.off('reconnect', onReconnect);
+    };
+  }, [socket, rejoin]);
+
+  /** The cutscene on screen finished — move on to the next one, if any */
   const clearCutscene = useCallback(() => {
-    setState((s) => ({ ...s, cutscene: null }));
+    setState((s) => ({ ...s, cutscenes: s.cutscenes.slice(1) }));
   }, []);
 
   const clearNarrator = useCallback(() => {
@@ -83,7 +186,7 @@ export function useGameState() {
 
   useEffect(() => {
     // ── Room events ──────────────────────────────────────────────────────────
-    socket.on('room_created', (data: { code: string; playerId: string; sessionId: string }) => {
+    socket.on('room_created', (data: RoomEnteredPayload) => {
       setState((s) => ({
         ...s,
         roomCode: data.code,
@@ -94,30 +197,33 @@ export function useGameState() {
       }));
     });
 
-    socket.on('room_joined', (data: { code: string; playerId: string; sessionId: string }) => {
+    // Spectators joining mid-game are hydrated by the `reconnected` snapshot that follows
+    socket.on('room_joined', (data: RoomEnteredPayload) => {
       setState((s) => ({
         ...s,
         roomCode: data.code,
         myId: data.playerId,
         mySessionId: data.sessionId,
+        isSpectator: data.spectator,
         phase: 'lobby',
         started: false,
       }));
     });
 
-    socket.on(
-      'room_updated',
-      (data: { code: string; phase: Phase; round: number; players: PublicPlayer[]; started: boolean }) => {
-        setState((s) => ({
-          ...s,
-          players: data.players,
-          phase: data.phase,
-          round: data.round,
-          started: data.started,
-          roomCode: data.code,
-        }));
-      }
-    );
+    socket.on('room_updated', (data: RoomUpdatePayload) => {
+      setState((s) => ({
+        ...s,
+        players: data.players,
+        spectators: data.spectators,
+        phase: data.phase,
+        round: data.round,
+        started: data.started,
+        roomCode: data.code,
+        settings: data.settings,
+        setup: data.setup,
+        setupFixed: data.setupFixed,
+      }));
+    });
 
     // ── Game start ───────────────────────────────────────────────────────────
     socket.on('game_started', (data: GameStartPayload) => {
@@ -125,32 +231,42 @@ export function useGameState() {
         ...s,
         myRole: data.role,
         myMafiaTeam: data.mafiaTeam,
+        myLynchTarget: data.lynchTarget,
         players: data.players,
         phase: data.phase,
         started: true,
         nightActionSubmitted: false,
-        cutscene: null,
+        mafiaVotes: null,
+        cutscenes: [],
         narratorText: null,
         gameEnd: null,
         detectiveResults: [],
+        visitReports: [],
+        roleblockedRound: null,
         votes: {},
         voteTally: {},
       }));
     });
 
     // ── Phase changes ────────────────────────────────────────────────────────
-    socket.on('phase_changed', (data: { phase: Phase; round: number; timer: number }) => {
+    socket.on('phase_changed', (data: PhaseChangedPayload) => {
       setState((s) => ({
         ...s,
         phase: data.phase,
         round: data.round,
-        timer: data.timer,
+        deadline: { ...s.deadline, endsAt: data.endsAt },
         nightActionSubmitted: data.phase === 'night' ? false : s.nightActionSubmitted,
+        mafiaVotes: data.phase === 'night' ? null : s.mafiaVotes,
         votes: data.phase === 'night' ? {} : s.votes,
         voteTally: data.phase === 'night' ? {} : s.voteTally,
       }));
     });
 
+    // Any reschedule (cutscene delay, early resolution, pause…) moves the countdown
+    socket.on('deadline_updated', (data: DeadlinePayload) => {
+      setState((s) => ({ ...s, deadline: data }));
+    });
+
     // ── Night actions ────────────────────────────────────────────────────────
     socket.on('detective_result', (data: DetectiveResult) => {
       setState((s) => ({
@@ -159,6 +275,18 @@ export function useGameState() {
       }));
     });
 
+    socket.on('visit_report', (data: VisitReportPayload) => {
+      setState((s) => ({ ...s, visitReports: [...s.visitReports, data] }));
+    });
+
+    socket.on('roleblocked', (data: RoleblockedPayload) => {
+      setState((s) => ({ ...s, roleblockedRound: data.round }));
+    });
+
+    socket.on('mafia_votes_updated', (data: MafiaVotesPayload) => {
+      setState((s) => ({ ...s, mafiaVotes: data }));
+    });
+
     // ── Narrator ─────────────────────────────────────────────────────────────
     socket.on('narrate', (data: NarratePayload) => {
       setState((s) => ({
@@ -170,7 +298,7 @@ export function useGameState() {
 
     // ── Cutscene ─────────────────────────────────────────────────────────────
     socket.on('cutscene', (data: CutscenePayload) => {
-      setState((s) => ({ ...s, cutscene: data }));
+      setState((s) => ({ ...s, cutscenes: [...s.cutscenes, data] }));
     });
 
     // ── Voting ───────────────────────────────────────────────────────────────
@@ -206,17 +334,16 @@ export function useGameState() {
     });
 
     // ── Eliminate ────────────────────────────────────────────────────────────
-    socket.on(
-      'player_eliminated',
-      (data: { playerId: string; playerName: string; cause: string }) => {
-        setState((s) => ({
-          ...s,
-          players: s.players.map((p) =>
-            p.id === data.playerId ? { ...p, alive: false } : p
-          ),
-        }));
-      }
-    );
+    socket.on('player_eliminated', (data: PlayerEliminatedPayload) => {
+      setState((s) => ({
+        ...s,
+        players: s.players.map((p) =>
+          p.id === data.playerId
+            ? { ...p, alive: false, will: data.will, role: data.role, faction: data.faction }
+            : p
+        ),
+      }));
+    });
 
     // ── Chat ─────────────────────────────────────────────────────────────────
     socket.on('chat', (msg: ChatMessage) => {
@@ -232,22 +359,40 @@ export function useGameState() {
     });
 
     // ── Reconnect ────────────────────────────────────────────────────────────
-    socket.on(
-      'reconnected',
-      (data: { code: string; playerId: string; role: string; phase: Phase; players: PublicPlayer[] }) => {
-        setState((s) => ({
-          ...s,
-          roomCode: data.code,
-          myId: data.playerId,
-          myRole: data.role as any,
-          phase: data.phase,
-          players: data.players,
-        }));
-      }
-    );
+    // Hydrate everything from the server snapshot — a refresh looks like nothing happened
+    socket.on('reconnected', (data: ReconnectedPayload) => {
+      setState((s) => ({
+        ...s,
+        roomCode: data.code,
+        myId: data.playerId,
+        isSpectator: data.spectator,
+        myRole: data.started ? data.role : null,
+        myMafiaTeam: data.mafiaTeam,
+        myLynchTarget: data.lynchTarget,
+        phase: data.phase,
+        round: data.round,
+        started: data.started,
+        players: data.players,
+        spectators: data.spectators,
+        myWill: data.will,
+        deadline: data.deadline,
+        votes: data.votes.votes,
+        voteTally: data.votes.tally,
+        mafiaVotes: data.mafiaVotes,
+        nightActionSubmitted: data.nightActionSubmitted,
+        detectiveResults: data.detectiveResults,
+        visitReports: data.visitReports,
+        roleblockedRound: data.roleblockedRound,
+        narratorText: data.narration?.text ?? null,
+        narratorOutcome: data.narration?.outcome ?? null,
+        messages: data.messages,
+        gameEnd: data.gameEnd,
+        cutscenes: [],
+      }));
+    });
 
     // ── Room reset (play again) ─────────────────────────────────────────────
-    socket.on('room_reset', (data: { code: string; players: PublicPlayer[] }) => {
+    socket.on('room_reset', (data: RoomResetPayload) => {
       setState((s) => ({
         ...s,
         phase: 'lobby',
@@ -255,24 +400,35 @@ export function useGameState() {
         started: false,
         myRole: null,
         myMafiaTeam: [],
+        myLynchTarget: null,
+        myWill: '',
         players: data.players,
         gameEnd: null,
-        cutscene: null,
+        cutscenes: [],
         narratorText: null,
         narratorOutcome: null,
         votes: {},
         voteTally: {},
         messages: [],
         detectiveResults: [],
+        visitReports: [],
+        roleblockedRound: null,
         nightActionSubmitted: false,
+        mafiaVotes: null,
         error: null,
       }));
     });
 
     // ── Errors ───────────────────────────────────────────────────────────────
-    socket.on('error', (data: { message: string }) => {
-      setState((s) => ({ ...s, error: data.message }));
-      setTimeout(() => setState((s) => ({ ...s, error: null })), 4000);
+    // Failures of actions sent without an acknowledgement callback
+    socket.on('error', showError);
+
+    // Refused handshake: this bundle speaks another protocol version. Socket.io
+    // won't retry, so keep the server's message up until the player refreshes.
+    socket.on('connect_error', (err: Error & { data?: HandshakeErrorData }) => {
+      if (err.data?.code === 'protocol_mismatch') {
+        setState((s) => ({ ...s, error: { code: 'PROTOCOL_MISMATCH', message: err.message } }));
+      }
     });
 
     return () => {
@@ -281,7 +437,11 @@ export function useGameState() {
       socket.off('room_updated');
       socket.off('game_started');
       socket.off('phase_changed');
+      socket.off('deadline_updated');
       socket.off('detective_result');
+      socket.off('roleblocked');
+      socket.off('visit_report');
+      socket.off('mafia_votes_updated');
       socket.off('narrate');
       socket.off('cutscene');
       socket.off('vote_updated');
@@ -291,44 +451,71 @@ export function useGameState() {
       socket.off('reconnected');
       socket.off('room_reset');
       socket.off('error');
+      socket.off('connect_error');
     };
-  }, [socket]);
+  }, [socket, showError]);
 
   // ── Action dispatchers ────────────────────────────────────────────────────
+  // Each resolves with the server's acknowledgement (rejections are already
+  // toasted), so components can react to a specific error code.
 
   const createRoom = useCallback(
-    (username: string, avatar: import('../types/game').Avatar) => {
-      socket.emit('create_room', { username, avatar });
-    },
-    [socket]
+    (username: string, avatar: Avatar) =>
+      request('create_room', { username, avatar }),
+    [socket, request]
   );
 
   const joinRoom = useCallback(
-    (code: string, username: string, avatar: import('../types/game').Avatar) => {
-      socket.emit('join_room', { code: code.toUpperCase(), username, avatar });
-    },
-    [socket]
+    (code: string, username: string, avatar: Avatar) =>
+      request('join_room', { code: code.toUpperCase(), username, avatar }),
+    [socket, request]
+  );
+
+  const spectateRoom = useCallback(
+    (code: string, username: string, avatar: Avatar) =>
+      request('spectate_room', { code: code.toUpperCase(), username, avatar }),
+    [socket, request]
   );
 
   const startGame = useCallback(
-    (code: string) => {
-      socket.emit('start_game', { code });
-    },
-    [socket]
+    (code: string) => request('start_game', { code }),
+    [socket, request]
+  );
+
+  const updateSettings = useCallback(
+    (code: string, settings: Partial<RoomSettings>) =>
+      request('update_settings', { code, settings }),
+    [socket, request]
+  );
+
+  const selectSetup = useCallback(
+    (code: string, name: string | null) =>
+      request('select_setup', { code, name }),
+    [socket, request]
+  );
+
+  const importSetup = useCallback(
+    (code: string, setup: unknown) =>
+      request('import_setup', { code, setup }),
+    [socket, request]
   );
 
   const submitNightAction = useCallback(
-    (code: string, action: 'kill' | 'save' | 'investigate', targetId: string) => {
-      socket.emit('night_action', { code, action, targetId });
+    async (code: string, action: NightActionType, targetId: string) => {
       setState((s) => ({ ...s, nightActionSubmitted: true }));
+      const res = await request('night_action', { code, action, targetId });
+      // Rejected: reopen the modal so the player can pick again
+      if (!res.ok) setState((s) => ({ ...s, nightActionSubmitted: false }));
+      return res;
     },
-    [socket]
+    [socket, request]
   );
 
   const submitDayVote = useCallback(
-    (code: string, targetId: string) => {
-      socket.emit('day_vote', { code, targetId });
-      // Inject vote message immediately for the local player
+    async (code: string, targetId: string) => {
+      const res = await request('day_vote', { code, targetId });
+      if (!res.ok) return res;
+      // Inject vote message for the local player once the server accepted it
       setState((s) => {
         const voter = s.players.find((p) => p.id === s.myId);
         const target = s.players.find((p) => p.id === targetId);
@@ -342,26 +529,31 @@ export function useGameState() {
         };
         return { ...s, messages: [...s.messages.slice(-200), voteMsg] };
       });
+      return res;
     },
-    [socket]
+    [socket, request]
   );
 
   const sendChat = useCallback(
-    (code: string, text: string, channel: 'global' | 'mafia') => {
-      socket.emit('chat_message', { code, text, channel });
-    },
-    [socket]
+    (code: string, text: string, channel: ChatChannel) =>
+      request('chat_message', { code, text, channel }),
+    [socket, request]
   );
 
-  const attemptReconnect = useCallback(
-    (sessionId: string, code: string) => {
-      socket.emit('reconnect_player', { sessionId, code });
+  const setWill = useCallback(
+    async (code: string, text: string) => {
+      const res = await request('set_will', { code, text });
+      if (res.ok) setState((s) => ({ ...s, myWill: text.trim() }));
+      return res;
     },
-    [socket]
+    [socket, request]
   );
 
+  const attemptReconnect = rejoin;
+
   const leaveRoom = useCallback(
     (code: string) => {
+      // Fire-and-forget: the player is gone locally whatever the server says
       socket.emit('leave_room', { code });
       setState(DEFAULT_STATE);
       localStorage.removeItem('wlt_session');
@@ -370,17 +562,13 @@ export function useGameState() {
   );
 
   const skipDiscussion = useCallback(
-    (code: string) => {
-      socket.emit('skip_discussion', { code });
-    },
-    [socket]
+    (code: string) => request('skip_discussion', { code }),
+    [socket, request]
   );
 
   const playAgain = useCallback(
-    (code: string) => {
-      socket.emit('play_again', { code });
-    },
-    [socket]
+    (code: string) => request('play_again', { code }),
+    [socket, request]
   );
 
   return {
@@ -390,10 +578,15 @@ export function useGameState() {
     clearNarrator,
     createRoom,
     joinRoom,
+    spectateRoom,
     startGame,
+    updateSettings,
+    selectSetup,
+    importSetup,
     submitNightAction,
     submitDayVote,
     sendChat,
+    setWill,
     attemptReconnect,
     leaveRoom,
     skipDiscussion,
@@ -0,0 +1,56 @@
+// =============================================================================
+// hooks/useServerClock.ts – Server clock offset (time sync handshake)
+// Phase deadlines arrive as absolute server timestamps (`endsAt`). On every
+// connect we ping `time_sync` a few times and keep the offset from the
+// fastest round trip, so countdowns match across clients.
+// =============================================================================
+import { useEffect } from 'react';
+import { getSocket } from './useSocket';
+
+/** Round trips per sync; the one with the lowest latency wins */
+const SYNC_SAMPLES = 5;
+const SYNC_SPACING_MS = 250;
+
+/** serverTime − clientTime, in ms (shared by every component) */
+let offsetMs = 0;
+let bestRtt = Infinity;
+
+/** Current time on the server's clock */
+export function serverNow(): number {
+  return Date.now() + offsetMs;
+}
+
+/** Keep the offset in sync; mount once near the app root */
+export function useServerClock(): void {
+  useEffect(() => {
+    const socket = getSocket();
+    let pings: ReturnType<typeof setTimeout>[] = [];
+
+    const onSync = (data: { clientTime: number; serverTime: number }) => {
+      const now = Date.now();
+      const rtt = now - data.clientTime;
+      if (rtt < 0 || rtt >= bestRtt) return;
+      bestRtt = rtt;
+      // Assume the reply spent half the round trip in flight
+      offsetMs = data.serverTime + rtt / 2 - now;
+    };
+
+    const sync = () => {
+      bestRtt = Infinity;
+      pings.forEach(clearTimeout);
+      pings = Array.from({ length: SYNC_SAMPLES }, (_, i) =>
+        setTimeout(() => socket.emit('time_sync', { clientTime: Date.now() }), i * SYNC_SPACING_MS)
+      );
+    };
+
+    socket.on('time_sync', onSync);
+    socket.on('connect', sync);
+    if (socket.connected) sync();
+
+    return () => {
+      pings.forEach(clearTimeout);
+      socket.off('time_sync', onSync);
+      socket.off('connect', sync);
+    };
+  }, []);
+}
@@ -3,19 +3,31 @@
 // =============================================================================
 import { useEffect, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
+import {
+  PROTOCOL_VERSION,
+  type ClientToServerEvents,
+  type HandshakeAuth,
+  type ServerToClientEvents,
+} from '@wlt/protocol';
+
+/** Socket typed with the shared protocol's events */
+export type WltSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 // Connect to backend; in dev, requests are proxied via vite.config.ts
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3001';
 
-let socketInstance: Socket | null = null;
+let socketInstance: WltSocket | null = null;
 
-function getSocket(): Socket {
+function getSocket(): WltSocket {
   if (!socketInstance) {
     // Create once — never recreate on disconnect (that would change the socket ID
     // and break server-side room membership lookup)
+    const auth: HandshakeAuth = { protocolVersion: PROTOCOL_VERSION };
     socketInstance = io(SOCKET_URL, {
       autoConnect: true,
-      reconnectionAttempts: 5,
+      auth,
+      // Enough retries to outlast a server restart (backoff caps at 5s)
+      reconnectionAttempts: 10,
       reconnectionDelay: 1000,
     });
   }
@@ -23,8 +35,8 @@ function getSocket(): Socket {
 }
 
 /** Returns a stable Socket.io socket instance shared across the app */
-export function useSocket(): Socket {
-  const socketRef = useRef<Socket>(getSocket());
+export function useSocket(): WltSocket {
+  const socketRef = useRef<WltSocket>(getSocket());
 
   useEffect(() => {
     const socket = socketRef.current;
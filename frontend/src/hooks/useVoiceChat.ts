@@ -2,13 +2,16 @@
 // hooks/useVoiceChat.ts – WebRTC voice chat with phase-based channel switching
 // =============================================================================
 // Architecture:
-//   - Two audio channels: 'general' (everyone) and 'mafia' (mafias @ night)
+//   - Three audio channels: 'general' (everyone), 'mafia' (mafias @ night) and
+//     'dead' (the graveyard: eliminated players + spectators)
 //   - Socket.io backend relays WebRTC offers/answers/ICE (pure signaling)
 //   - Audio travels peer-to-peer via WebRTC (STUN + TURN for LAN + internet)
 //   - Phase transitions auto-switch channels and mute/unmute the local mic
 // =============================================================================
 import { useEffect, useRef, useState, useCallback } from 'react';
 import type { Socket } from 'socket.io-client';
+import { factionOf } from '../lib/roles';
+import type { Role } from '../types/game';
 
 // STUN = free LAN peer-to-peer
 // TURN = relayed fallback for internet / NAT traversal (Open Relay Project — free, no key needed)
@@ -33,7 +36,9 @@ const ICE_SERVERS: RTCIceServer[] = [
     },
 ];
 
-type AudioChannel = 'general' | 'mafia';
+type AudioChannel = 'general' | 'mafia' | 'dead';
+/** Where the dead and spectators can be: talking in the graveyard or listening to the living */
+type GhostChannel = 'dead' | 'general';
 
 export interface VoiceState {
     /** Whether the local mic track is enabled (unmuted) */
@@ -48,6 +53,10 @@ export interface VoiceState {
     hasPermission: boolean;
     /** Toggle mic on/off */
     toggleMic: () => void;
+    /** Channels the player can switch between (more than one only for the dead / spectators) */
+    channelOptions: AudioChannel[];
+    /** Switch to another of `channelOptions` */
+    switchChannel: (channel: AudioChannel) => void;
 }
 
 /**
@@ -56,12 +65,17 @@ export interface VoiceState {
  */
 function resolveChannel(
     phase: string,
-    myRole: string | null,
+    myRole: Role | null,
     alive: boolean,
     aliveMafiaCount: number,
+    ghostChannel: GhostChannel,
 ): { channel: AudioChannel; micAllowed: boolean } {
-    // Eliminated players: listen to general only, mic off
-    if (!alive) return { channel: 'general', micAllowed: false };
+    // Eliminated players and spectators: talk in the graveyard, or listen to
+    // general with the mic off (spectators in the lobby can only listen)
+    if (!alive) {
+        if (phase === 'lobby' || ghostChannel === 'general') return { channel: 'general', micAllowed: false };
+        return { channel: 'dead', micAllowed: true };
+    }
 
     switch (phase) {
         case 'lobby':
@@ -70,7 +84,7 @@ function resolveChannel(
         case 'ended':
             return { channel: 'general', micAllowed: true };
         case 'night':
-            if (myRole === 'mafia' && aliveMafiaCount >= 2) {
+            if (myRole && factionOf(myRole) === 'mafia' && aliveMafiaCount >= 2) {
                 return { channel: 'mafia', micAllowed: true };
             }
             // Non-mafia or solo mafia: muted during night
@@ -84,7 +98,7 @@ export function useVoiceChat(
     socket: Socket,
     roomCode: string | null,
     phase: string,
-    myRole: string | null,
+    myRole: Role | null,
     alive: boolean,
     aliveMafiaCount: number,
 ): VoiceState {
@@ -104,6 +118,7 @@ export function useVoiceChat(
     const [micOn, setMicOn] = useState(false);
     const [hasPermission, setHasPermission] = useState(false);
     const [channel, setChannel] = useState<AudioChannel>('general');
+    const [ghostChannel, setGhostChannel] = useState<GhostChannel>('dead');
     const [speaking, setSpeaking] = useState<Set<string>>(new Set());
     const [peers, setPeers] = useState<string[]>([]);
 
@@ -275,7 +290,7 @@ export function useVoiceChat(
     useEffect(() => {
         if (!roomCode || !hasPermission) return;
 
-        const { channel: targetChannel, micAllowed } = resolveChannel(phase, myRole, alive, aliveMafiaCount);
+        const { channel: targetChannel, micAllowed } = resolveChannel(phase, myRole, alive, aliveMafiaCount, ghostChannel);
 
         // Switch channel if changed
         const prevChannel = channel;
@@ -297,7 +312,7 @@ export function useVoiceChat(
             setMicOn(micAllowed);
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [phase, myRole, alive, aliveMafiaCount, roomCode, hasPermission]);
+    }, [phase, myRole, alive, aliveMafiaCount, ghostChannel, roomCode, hasPermission]);
 
     // ── Speaking detection — poll analysers at 10fps ───────────────────────────
     useEffect(() => {
@@ -320,13 +335,19 @@ export function useVoiceChat(
 
     // ── Manual mic toggle ───────────────────────────────────────────────────────
     const toggleMic = useCallback(() => {
-        const { micAllowed } = resolveChannel(phase, myRole, alive, aliveMafiaCount);
+        const { micAllowed } = resolveChannel(phase, myRole, alive, aliveMafiaCount, ghostChannel);
         if (!micAllowed) return; // phase rule blocks it
         const track = localStreamRef.current?.getAudioTracks()[0];
         if (!track) return;
         track.enabled = !track.enabled;
         setMicOn(track.enabled);
-    }, [phase, myRole, alive, aliveMafiaCount]);
+    }, [phase, myRole, alive, aliveMafiaCount, ghostChannel]);
+
+    // ── Graveyard ↔ general switch (the dead and spectators only) ──────────────
+    const channelOptions: AudioChannel[] = !alive && phase !== 'lobby' ? ['dead', 'general'] : [channel];
+    const switchChannel = useCallback((next: AudioChannel) => {
+        if (next === 'dead' || next === 'general') setGhostChannel(next);
+    }, []);
 
-    return { micOn, channel, speaking, peers, hasPermission, toggleMic };
+    return { micOn, channel, speaking, peers, hasPermission, toggleMic, channelOptions, switchChannel };
 }
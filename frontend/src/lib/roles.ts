@@ -0,0 +1,289 @@
+// =============================================================================
+// lib/roles.ts – Client-side role presentation
+// Icons, labels, colours and copy for every role. Factions and night rules
+// come from the shared protocol (ROLE_RULES); components read from here
+// instead of keeping their own per-role tables.
+// =============================================================================
+import { ROLE_RULES, type NightRules } from '@wlt/protocol';
+import type { Faction, Role } from '../types/game';
+
+/** Copy and styling of a night action in the action modal */
+export interface ClientNightAbility {
+  label: string;
+  description: string;
+  buttonClass: string;
+  icon: string;
+}
+
+/** Full-screen role reveal styling */
+export interface RoleRevealInfo {
+  title: string;
+  subtitle: string;
+  description: string;
+  objective: string;
+  color: string;
+  glowColor: string;
+  bgGradient: string;
+}
+
+export interface ClientRoleDefinition {
+  icon: string;
+  /** Short in-game label (header badge) */
+  label: string;
+  /** Upper-case label for dossiers / end screen */
+  title: string;
+  color: string;
+  /** Set for every role with night rules in ROLE_RULES */
+  night: ClientNightAbility | null;
+  reveal: RoleRevealInfo;
+}
+
+export const ROLES: Record<Role, ClientRoleDefinition> = {
+  mafia: {
+    icon: '🕶️',
+    label: 'Gangster',
+    title: 'GANGSTER',
+    color: 'var(--noir-red)',
+    night: {
+      label: 'Choose Your Target',
+      description: 'Select a citizen to eliminate tonight. The syndicate has spoken.',
+      buttonClass: 'btn-filled-red',
+      icon: '🔫',
+    },
+    reveal: {
+      title: 'GANGSTER',
+      subtitle: 'The Syndicate',
+      description: 'You are part of the criminal underworld. The city is yours to control.',
+      objective: 'Each night, choose a citizen to eliminate. Win when your numbers match the town.',
+      color: '#ff2222',
+      glowColor: 'rgba(255,0,0,0.6)',
+      bgGradient: 'radial-gradient(ellipse at center, #1a0000 0%, #050000 60%, #000 100%)',
+    },
+  },
+  doctor: {
+    icon: '💉',
+    label: 'Doctor',
+    title: 'DOCTOR',
+    color: '#00ff88',
+    night: {
+      label: 'Choose Who to Protect',
+      description: 'Select a player to shelter from the mob tonight. You can protect yourself.',
+      buttonClass: 'btn-filled-gold',
+      icon: '💉',
+    },
+    reveal: {
+      title: 'DOCTOR',
+      subtitle: 'The Underground Medic',
+      description: 'You move through the shadows with a needle and steady hands.',
+      objective: "Each night, choose one player to protect — including yourself. If the mafia targets them, they survive.",
+      color: '#00e676',
+      glowColor: 'rgba(0,230,118,0.6)',
+      bgGradient: 'radial-gradient(ellipse at center, #001a0a 0%, #000a05 60%, #000 100%)',
+    },
+  },
+  detective: {
+    icon: '🕵️',
+    label: 'Detective',
+    title: 'DETECTIVE',
+    color: 'var(--noir-neon-blue)',
+    night: {
+      label: 'Choose Who to Investigate',
+      description: 'Choose a suspect. At dawn you will learn if they look like mafia.',
+      buttonClass: 'btn-gold',
+      icon: '🕵️',
+    },
+    reveal: {
+      title: 'DETECTIVE',
+      subtitle: 'The Private Eye',
+      description: "You see through lies. The city's secrets are yours to uncover.",
+      objective: 'Each night, investigate one player. You will learn if they are in the mafia.',
+      color: '#00b8d9',
+      glowColor: 'rgba(0,184,217,0.6)',
+      bgGradient: 'radial-gradient(ellipse at center, #00101a 0%, #000508 60%, #000 100%)',
+    },
+  },
+  citizen: {
+    icon: '👤',
+    label: 'Citizen',
+    title: 'CITIZEN',
+    color: '#ffffff',
+    night: null,
+    reveal: {
+      title: 'CITIZEN',
+      subtitle: 'The Ordinary Folk',
+      description: 'You are an honest resident of this corrupt city — a rare thing.',
+      objective: 'Use the day phase to discuss, accuse, and vote out the mafia. You have no night action.',
+      color: '#ffd700',
+      glowColor: 'rgba(255,215,0,0.4)',
+      bgGradient: 'radial-gradient(ellipse at center, #1a1400 0%, #080600 60%, #000 100%)',
+    },
+  },
+  escort: {
+    icon: '💋',
+    label: 'Escort',
+    title: 'ESCORT',
+    color: '#ff69b4',
+    night: {
+      label: 'Choose Who to Distract',
+      description: 'Keep someone busy all night. Whatever they planned, they never get to do it.',
+      buttonClass: 'btn-gold',
+      icon: '💋',
+    },
+    reveal: {
+      title: 'ESCORT',
+      subtitle: 'The Lounge Singer',
+      description: 'Everyone in this city wants a minute of your time. Tonight, you choose who gets it.',
+      objective: "Each night, distract one player — a blocked gangster, doctor or detective loses their night action.",
+      color: '#ff69b4',
+      glowColor: 'rgba(255,105,180,0.55)',
+      bgGradient: 'radial-gradient(ellipse at center, #1a0010 0%, #080006 60%, #000 100%)',
+    },
+  },
+  lookout: {
+    icon: '👁️',
+    label: 'Lookout',
+    title: 'LOOKOUT',
+    color: '#7fdbff',
+    night: {
+      label: 'Choose Whose Door to Watch',
+      description: 'Stake out a house. At dawn you will know everyone who came calling.',
+      buttonClass: 'btn-gold',
+      icon: '👁️',
+    },
+    reveal: {
+      title: 'LOOKOUT',
+      subtitle: 'The Eyes on the Street',
+      description: 'A cold coffee, a dark window, and all night to watch.',
+      objective: 'Each night, watch one player. You learn who visited them — killers, medics and snoops alike.',
+      color: '#7fdbff',
+      glowColor: 'rgba(127,219,255,0.55)',
+      bgGradient: 'radial-gradient(ellipse at center, #00121a 0%, #000609 60%, #000 100%)',
+    },
+  },
+  tracker: {
+    icon: '👣',
+    label: 'Tracker',
+    title: 'TRACKER',
+    color: '#c8a2ff',
+    night: {
+      label: 'Choose Who to Tail',
+      description: 'Follow a player through the rain. At dawn you will know where they went.',
+      buttonClass: 'btn-gold',
+      icon: '👣',
+    },
+    reveal: {
+      title: 'TRACKER',
+      subtitle: 'The Shadow',
+      description: 'Nobody notices you — that is the whole point.',
+      objective: "Each night, tail one player. You learn whose door they went to, if anyone's.",
+      color: '#c8a2ff',
+      glowColor: 'rgba(200,162,255,0.55)',
+      bgGradient: 'radial-gradient(ellipse at center, #0e001a 0%, #050009 60%, #000 100%)',
+    },
+  },
+  jester: {
+    icon: '🃏',
+    label: 'Jester',
+    title: 'JESTER',
+    color: '#d86bff',
+    night: null,
+    reveal: {
+      title: 'JESTER',
+      subtitle: 'The Fool of the Speakeasy',
+      description: 'You belong to no one. The whole city is your stage.',
+      objective: 'Get yourself lynched by the town. If they hang you, you win — and the game goes on without you.',
+      color: '#d86bff',
+      glowColor: 'rgba(216,107,255,0.55)',
+      bgGradient: 'radial-gradient(ellipse at center, #14001a 0%, #070009 60%, #000 100%)',
+    },
+  },
+  executioner: {
+    icon: '⚖️',
+    label: 'Executioner',
+    title: 'EXECUTIONER',
+    color: '#ff9f43',
+    night: null,
+    reveal: {
+      title: 'EXECUTIONER',
+      subtitle: 'The Hired Grudge',
+      description: 'Someone in this town wronged you. You want them on the gallows.',
+      objective: 'Convince the town to lynch your mark while you are still alive. Then you win, whoever takes the city.',
+      color: '#ff9f43',
+      glowColor: 'rgba(255,159,67,0.55)',
+      bgGradient: 'radial-gradient(ellipse at center, #1a0c00 0%, #090400 60%, #000 100%)',
+    },
+  },
+  serial_killer: {
+    icon: '🔪',
+    label: 'Serial Killer',
+    title: 'SERIAL KILLER',
+    color: '#b30059',
+    night: {
+      label: 'Choose Your Victim',
+      description: 'Pick someone to carve up tonight. A doctor at their bedside will spoil the job.',
+      buttonClass: 'btn-filled-red',
+      icon: '🔪',
+    },
+    reveal: {
+      title: 'SERIAL KILLER',
+      subtitle: 'The Lone Wolf',
+      description: "You answer to no boss and no badge. The detective's files will call you clean.",
+      objective: 'Each night, kill one player. Win only as the last one standing — the mafia is prey too.',
+      color: '#ff2d8a',
+      glowColor: 'rgba(255,45,138,0.55)',
+      bgGradient: 'radial-gradient(ellipse at center, #1a000c 0%, #080004 60%, #000 100%)',
+    },
+  },
+  godfather: {
+    icon: '🎩',
+    label: 'Godfather',
+    title: 'GODFATHER',
+    color: '#c9302c',
+    night: {
+      label: 'Choose Your Target',
+      description: 'Name the hit. The family votes together, and nobody suspects the one in the good suit.',
+      buttonClass: 'btn-filled-red',
+      icon: '🔫',
+    },
+    reveal: {
+      title: 'GODFATHER',
+      subtitle: 'Head of the Family',
+      description: 'You run the syndicate from behind a spotless reputation.',
+      objective: "Vote on the family's hit each night. The detective's files will call you clean. Win when your numbers match the town.",
+      color: '#ff3b30',
+      glowColor: 'rgba(255,59,48,0.6)',
+      bgGradient: 'radial-gradient(ellipse at center, #1a0300 0%, #070100 60%, #000 100%)',
+    },
+  },
+  framer: {
+    icon: '🖋️',
+    label: 'Framer',
+    title: 'FRAMER',
+    color: '#e05a47',
+    night: {
+      label: 'Choose Who to Frame',
+      description: 'Plant the evidence. Anyone investigating them tonight will find a gangster.',
+      buttonClass: 'btn-filled-red',
+      icon: '🖋️',
+    },
+    reveal: {
+      title: 'FRAMER',
+      subtitle: 'The Forger',
+      description: 'You keep the family clean by dirtying everyone else.',
+      objective: 'Each night, frame one player so investigations read them as mafia. Win when your numbers match the town.',
+      color: '#ff6f5c',
+      glowColor: 'rgba(255,111,92,0.55)',
+      bgGradient: 'radial-gradient(ellipse at center, #1a0804 0%, #080302 60%, #000 100%)',
+    },
+  },
+};
+
+/** Faction of a role */
+export function factionOf(role: Role): Faction {
+  return ROLE_RULES[role].faction;
+}
+
+/** Night action and targeting rules of a role, or null if it sleeps through the night */
+export function nightRulesOf(role: Role): NightRules | null {
+  return ROLE_RULES[role].night;
+}
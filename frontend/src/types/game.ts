@@ -1,70 +1,77 @@
 // =============================================================================
-// types/game.ts – Shared TypeScript interfaces (mirrors backend gameState.ts)
+// types/game.ts – Client-side game types
+// Everything that crosses the wire comes from the shared protocol module
+// (`protocol/index.ts`, also used by the backend); only local view state is
+// declared here.
 // =============================================================================
+import type {
+  ChatMessage,
+  CutscenePayload,
+  DeadlinePayload,
+  DetectiveResultPayload,
+  ErrorPayload,
+  GameEndPayload,
+  GameSetup,
+  LynchTarget,
+  MafiaTeammate,
+  MafiaVotesPayload,
+  NightOutcome,
+  Phase,
+  PublicPlayer,
+  PublicSpectator,
+  Role,
+  RoomSettings,
+  VisitReportPayload,
+} from '@wlt/protocol';
 
-export type Role = 'mafia' | 'doctor' | 'detective' | 'citizen';
-export type Phase = 'lobby' | 'night' | 'day' | 'vote' | 'ended';
-export type CutsceneVariant = 'back_alley' | 'rooftop' | 'car_ambush' | 'neon_club';
-export type NightOutcome = 'killed' | 'saved' | 'no_kill';
-export type ChatChannel = 'global' | 'mafia';
+export type {
+  Ack,
+  Avatar,
+  ChatChannel,
+  ChatMessage,
+  CutscenePayload,
+  CutsceneVariant,
+  DeadlinePayload,
+  EliminationCause,
+  ErrorCode,
+  ErrorPayload,
+  Faction,
+  GameEndPayload,
+  GameSetup,
+  GameStartPayload,
+  LynchTarget,
+  MafiaKillRule,
+  MafiaTeammate,
+  MafiaVotesPayload,
+  NarratePayload,
+  NightActionType,
+  NightOutcome,
+  Phase,
+  PhaseChangedPayload,
+  PhaseStep,
+  PlayerEliminatedPayload,
+  PublicPlayer,
+  PublicSpectator,
+  RecapNightAction,
+  RecapRound,
+  ReconnectedPayload,
+  Role,
+  RoleReveal,
+  RoleblockedPayload,
+  RoomEnteredPayload,
+  RoomResetPayload,
+  RoomRules,
+  RoomSettings,
+  RoomSettingsUpdate,
+  RoomUpdatePayload,
+  SetupTimings,
+  VisitReportAction,
+  VisitReportPayload,
+  VoteUpdatePayload,
+} from '@wlt/protocol';
 
-export interface Avatar {
-  url: string; // Ready Player Me GLB URL: https://models.readyplayer.me/{id}.glb
-               // Empty string = no avatar created yet (shows initials fallback)
-}
-
-export interface PublicPlayer {
-  id: string;
-  name: string;
-  avatar: Avatar;
-  alive: boolean;
-  connected: boolean;
-  isHost: boolean;
-}
-
-export interface ChatMessage {
-  senderId: string;
-  senderName: string;
-  text: string;
-  channel: ChatChannel;
-  timestamp: number;
-}
-
-export interface NarratePayload {
-  text: string;
-  outcome: NightOutcome;
-}
-
-export interface CutscenePayload {
-  variant: CutsceneVariant;
-  victimId: string | null;
-  victimName: string | null;
-  victimAvatar: Avatar | null;
-  saved: boolean;
-}
-
-export interface VoteUpdatePayload {
-  votes: Record<string, string>;
-  tally: Record<string, number>;
-}
-
-export interface GameEndPayload {
-  winner: 'mafia' | 'town';
-  roles: Array<{ id: string; name: string; role: Role }>;
-}
-
-export interface GameStartPayload {
-  role: Role;
-  mafiaTeam: Array<{ id: string; name: string; avatar: Avatar }>;
-  players: PublicPlayer[];
-  phase: Phase;
-}
-
-export interface DetectiveResult {
-  targetId: string;
-  targetName: string;
-  isMafia: boolean;
-}
+/** An investigation result as shown to the detective */
+export type DetectiveResult = DetectiveResultPayload;
 
 /** Full local game state managed by the useGameState hook */
 export interface GameState {
@@ -72,20 +79,41 @@ export interface GameState {
   myId: string | null;
   mySessionId: string | null;
   myRole: Role | null;
-  myMafiaTeam: Array<{ id: string; name: string; avatar: Avatar }>;
+  myMafiaTeam: MafiaTeammate[];
+  /** The player I must get lynched (executioner only) */
+  myLynchTarget: LynchTarget | null;
+  /** Watching without a seat: no role, no actions, spectator chat only */
+  isSpectator: boolean;
   players: PublicPlayer[];
+  spectators: PublicSpectator[];
+  /** Own last will as last saved on the server */
+  myWill: string;
   phase: Phase;
   round: number;
-  timer: number; // ms remaining
+  /** Next scheduled server step and its absolute deadline (server clock) */
+  deadline: DeadlinePayload;
   votes: Record<string, string>;
   voteTally: Record<string, number>;
   messages: ChatMessage[];
   narratorText: string | null;
   narratorOutcome: NightOutcome | null;
-  cutscene: CutscenePayload | null;
+  /** Night cutscenes still to play, one per attack; the first is on screen */
+  cutscenes: CutscenePayload[];
   gameEnd: GameEndPayload | null;
   detectiveResults: DetectiveResult[];
-  error: string | null;
+  /** Lookout / tracker reports received this game (my notebook) */
+  visitReports: VisitReportPayload[];
+  /** Round of the night a roleblock last cancelled my action (noticed during that day) */
+  roleblockedRound: number | null;
+  /** Last failure reported by the server (shown as a toast) */
+  error: ErrorPayload | null;
   started: boolean;
   nightActionSubmitted: boolean;
+  /** Mafia only: the team's current kill votes this night */
+  mafiaVotes: MafiaVotesPayload | null;
+  settings: RoomSettings | null;
+  /** Current setup (fixed preset/import, or the auto-deal preview) */
+  setup: GameSetup | null;
+  /** Whether the setup is a fixed role list rather than auto-deal */
+  setupFixed: boolean;
 }
@@ -8,10 +8,15 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': fileURLToPath(new URL('./src', import.meta.url)),
+      // Socket protocol shared with the backend (lives outside this package)
+      '@wlt/protocol': fileURLToPath(new URL('../protocol/index.ts', import.meta.url)),
     },
   },
   server: {
     port: 5173,
+    fs: {
+      allow: ['..'],
+    },
     proxy: {
       '/socket.io': {
         target: 'http://localhost:3001',
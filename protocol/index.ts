@@ -0,0 +1,630 @@
+// =============================================================================
+// protocol/index.ts – Who Lies Tonight (WLT) socket protocol
+// The single definition of everything that crosses the wire: shared types,
+// every client→server and server→client event with its payload, and the
+// protocol version checked in the connection handshake. Imported by both the
+// backend (Server<…> generics) and the frontend (Socket<…> generics).
+// Types and constants only — no runtime dependencies.
+// =============================================================================
+
+/**
+ * Bump on any incompatible change to an event name or payload shape.
+ * The server refuses clients that connect with a different version.
+ */
+export const PROTOCOL_VERSION = 11;
+
+/** Sent by the client in `io(url, { auth })` */
+export interface HandshakeAuth {
+  protocolVersion: number;
+}
+
+/** `data` of the connect_error the server raises for a refused handshake */
+export interface HandshakeErrorData {
+  code: 'protocol_mismatch';
+  serverVersion: number;
+  clientVersion: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Game vocabulary
+// ---------------------------------------------------------------------------
+
+/** Registered role identifiers (order = assignment order on the server) */
+export const ROLE_IDS = ['mafia', 'doctor', 'detective', 'citizen', 'jester', 'executioner', 'serial_killer', 'godfather', 'framer', 'escort', 'lookout', 'tracker'] as const;
+
+/** Available player roles in WLT */
+export type Role = (typeof ROLE_IDS)[number];
+
+/**
+ * Teams a role can belong to (`neutral`: no team — each wins alone without
+ * ending the game; `killer`: the serial killer, a side of one)
+ */
+export type Faction = 'town' | 'mafia' | 'neutral' | 'killer';
+
+/** Night action identifiers understood by the night resolver */
+export const NIGHT_ACTIONS = ['kill', 'save', 'investigate', 'frame', 'block', 'watch', 'track'] as const;
+
+/** A night action identifier */
+export type NightActionType = (typeof NIGHT_ACTIONS)[number];
+
+/** Night actions that report who went where (lookout: visitors of the target, tracker: the target's destinations) */
+export type VisitReportAction = Extract<NightActionType, 'watch' | 'track'>;
+
+/** Who a night ability may be aimed at (dead players are never valid) */
+export interface TargetRule {
+  /** Whether the actor may target themselves */
+  allowSelf: boolean;
+  /** Whether the actor may target a member of their own faction */
+  allowTeammates: boolean;
+}
+
+/** What a night ability does and whom it may target */
+export interface NightRules {
+  action: NightActionType;
+  targets: TargetRule;
+  /** Faction-wide decision: every holder votes, teammates see the votes live and the server tallies them */
+  shared: boolean;
+}
+
+/** The rules of a role both sides apply: the server enforces them, the client offers only what they allow */
+export interface RoleRules {
+  faction: Faction;
+  night: NightRules | null;
+}
+
+/** The mafia's nightly hit — one object for every role on the kill team, whose votes are tallied together */
+const FAMILY_HIT: NightRules = {
+  action: 'kill',
+  targets: { allowSelf: false, allowTeammates: true },
+  shared: true,
+};
+
+/**
+ * Team and night rules of every role (the server adds priorities, win
+ * conditions and dealing). `satisfies` keeps each entry's own type, so the
+ * server registry cannot leave out the priority of a role that acts at night.
+ */
+export const ROLE_RULES = {
+  mafia: { faction: 'mafia', night: FAMILY_HIT },
+  doctor: {
+    faction: 'town',
+    night: { action: 'save', targets: { allowSelf: true, allowTeammates: true }, shared: false },
+  },
+  detective: {
+    faction: 'town',
+    night: { action: 'investigate', targets: { allowSelf: false, allowTeammates: true }, shared: false },
+  },
+  citizen: { faction: 'town', night: null },
+  jester: { faction: 'neutral', night: null },
+  executioner: { faction: 'neutral', night: null },
+  serial_killer: {
+    faction: 'killer',
+    night: { action: 'kill', targets: { allowSelf: false, allowTeammates: false }, shared: false },
+  },
+  godfather: { faction: 'mafia', night: FAMILY_HIT },
+  framer: {
+    faction: 'mafia',
+    night: { action: 'frame', targets: { allowSelf: false, allowTeammates: false }, shared: false },
+  },
+  escort: {
+    faction: 'town',
+    night: { action: 'block', targets: { allowSelf: false, allowTeammates: true }, shared: false },
+  },
+  lookout: {
+    faction: 'town',
+    night: { action: 'watch', targets: { allowSelf: false, allowTeammates: true }, shared: false },
+  },
+  tracker: {
+    faction: 'town',
+    night: { action: 'track', targets: { allowSelf: false, allowTeammates: true }, shared: false },
+  },
+} satisfies Record<Role, RoleRules>;
+
+/** Game phases */
+export type Phase = 'lobby' | 'night' | 'day' | 'vote' | 'ended';
+
+/** Scheduled phase transitions run by the server when their deadline passes */
+export type PhaseStep = 'start_night' | 'resolve_night' | 'start_day' | 'start_vote' | 'resolve_vote';
+
+/** Cutscene type identifiers */
+export type CutsceneVariant =
+  | 'back_alley'
+  | 'rooftop'
+  | 'car_ambush'
+  | 'neon_club';
+
+/** Why a player went from alive to dead */
+export type EliminationCause = 'night_kill' | 'lynch' | 'disconnect';
+
+/** Night outcome types used for narrator selection */
+export type NightOutcome = 'killed' | 'saved' | 'no_kill';
+
+/**
+ * Chat channels (`spectator`: the spectators' own channel, hidden from players;
+ * `dead`: the graveyard, for eliminated players and spectators only)
+ */
+export type ChatChannel = 'global' | 'mafia' | 'spectator' | 'dead';
+
+/** Voice channels (`dead` mirrors the graveyard chat) */
+export type RtcChannel = 'general' | 'mafia' | 'dead';
+
+/** Modular avatar definition */
+export interface Avatar {
+  /** Ready Player Me GLB URL; empty = no avatar yet (initials fallback) */
+  url: string;
+}
+
+// ---------------------------------------------------------------------------
+// Settings + setups
+// ---------------------------------------------------------------------------
+
+/**
+ * How the mafia's kill votes pick the night's target:
+ * - majority: most votes wins, ties broken at random
+ * - unanimous: every living mafia must pick the same target, otherwise no kill
+ * - shooter: the designated shooter's pick is final; teammates only advise
+ */
+export type MafiaKillRule = 'majority' | 'unanimous' | 'shooter';
+
+/**
+ * How much of an eliminated player's role is made public before the game ends:
+ * - full: the exact role
+ * - faction: only town or mafia
+ * - hidden: nothing until the end-of-game reveal
+ */
+export type RoleReveal = 'full' | 'faction' | 'hidden';
+
+/** Rule toggles (part of room settings and setups) */
+export interface RoomRules {
+  /** Roles whose ability allows it (doctor) may target themselves */
+  selfTargeting: boolean;
+  /** Host may skip the discussion phase straight to voting */
+  hostCanSkipDiscussion: boolean;
+  /** How the mafia team settles on its kill target */
+  mafiaKillRule: MafiaKillRule;
+  /** Players may write a last will, revealed when they die */
+  lastWills: boolean;
+  /** What the room learns of a player's role when they are eliminated */
+  roleReveal: RoleReveal;
+}
+
+/** Host-configurable room settings (edited in the lobby) */
+export interface RoomSettings {
+  /** Night phase duration in milliseconds */
+  nightDurationMs: number;
+  /** Day discussion phase duration in milliseconds */
+  dayDurationMs: number;
+  /** Day voting phase duration in milliseconds */
+  voteDurationMs: number;
+  /** Minimum players required to start */
+  minPlayers: number;
+  /** Maximum players allowed in the room */
+  maxPlayers: number;
+  /** Share of players dealt the mafia role (rounded down, min 1) */
+  mafiaRatio: number;
+  /** Whether newcomers may watch the room as spectators */
+  allowSpectators: boolean;
+  /** Rule toggles */
+  rules: RoomRules;
+}
+
+/** A partial settings change sent by the host */
+export type RoomSettingsUpdate = Partial<Omit<RoomSettings, 'rules'>> & { rules?: Partial<RoomRules> };
+
+/** Phase timings carried by a setup */
+export interface SetupTimings {
+  nightDurationMs: number;
+  dayDurationMs: number;
+  voteDurationMs: number;
+}
+
+/** A named, exact game setup (preset or host-imported JSON) */
+export interface GameSetup {
+  name: string;
+  /** Exact role list — one entry per seat */
+  roles: Role[];
+  timings: SetupTimings;
+  rules: RoomRules;
+}
+
+// ---------------------------------------------------------------------------
+// Server → client payloads
+// ---------------------------------------------------------------------------
+
+/** Public (role-hidden) player info for broadcasts */
+export interface PublicPlayer {
+  id: string;
+  name: string;
+  avatar: Avatar;
+  alive: boolean;
+  connected: boolean;
+  isHost: boolean;
+  /** Last will, once revealed by the player's death (null while alive or if none) */
+  will: string | null;
+  /** Role, once revealed by the player's death (null while alive or unless roleReveal is full) */
+  role: Role | null;
+  /** Faction, once revealed by the player's death (null while alive or if roleReveal is hidden) */
+  faction: Faction | null;
+}
+
+/** Someone watching the room without a seat */
+export interface PublicSpectator {
+  id: string;
+  name: string;
+  avatar: Avatar;
+  connected: boolean;
+}
+
+/** A mafia member as their teammates see them */
+export interface MafiaTeammate {
+  id: string;
+  name: string;
+  avatar: Avatar;
+}
+
+/** An executioner's assigned mark */
+export interface LynchTarget {
+  id: string;
+  name: string;
+}
+
+/** Sent privately to the creator / joiner of a room */
+export interface RoomEnteredPayload {
+  code: string;
+  playerId: string;
+  /** Stable session ID to store for reconnects */
+  sessionId: string;
+  /** Entered as a spectator (no seat, public information only) */
+  spectator: boolean;
+}
+
+/** Payload sent to clients when a room is updated */
+export interface RoomUpdatePayload {
+  code: string;
+  phase: Phase;
+  round: number;
+  players: PublicPlayer[];
+  spectators: PublicSpectator[];
+  started: boolean;
+  settings: RoomSettings;
+  /** Current setup: the fixed one, or the auto-deal for the current player count */
+  setup: GameSetup;
+  /** Whether `setup` is a fixed setup (preset / import) rather than auto-deal */
+  setupFixed: boolean;
+}
+
+/** Room back in the lobby after "play again" */
+export interface RoomResetPayload {
+  code: string;
+  players: PublicPlayer[];
+}
+
+/** Game-start payload sent privately to each player */
+export interface GameStartPayload {
+  /** Null for spectators */
+  role: Role | null;
+  /** Only populated for mafia players */
+  mafiaTeam: MafiaTeammate[];
+  /** The player this role must get lynched (executioner only, null otherwise) */
+  lynchTarget: LynchTarget | null;
+  players: PublicPlayer[];
+  phase: Phase;
+}
+
+/**
+ * Full snapshot sent privately to a returning player (role-redacted), and to a
+ * spectator when they start watching
+ */
+export interface ReconnectedPayload {
+  code: string;
+  playerId: string;
+  /** Whether `playerId` is a spectator rather than a seated player */
+  spectator: boolean;
+  /** The player's role (null for spectators) */
+  role: Role | null;
+  /** Known mafia teammates (empty unless the player is mafia) */
+  mafiaTeam: MafiaTeammate[];
+  /** The player's lynch target (executioner only, null otherwise) */
+  lynchTarget: LynchTarget | null;
+  phase: Phase;
+  round: number;
+  started: boolean;
+  players: PublicPlayer[];
+  spectators: PublicSpectator[];
+  /** Next scheduled step and its absolute deadline */
+  deadline: DeadlinePayload;
+  /** Day votes and tally of the current vote */
+  votes: VoteUpdatePayload;
+  /** The mafia's kill votes this night (mafia only, null otherwise) */
+  mafiaVotes: MafiaVotesPayload | null;
+  /** Whether this player already used their night ability this night */
+  nightActionSubmitted: boolean;
+  /** Every investigation result this player received this game */
+  detectiveResults: DetectiveResultPayload[];
+  /** Round of the night this player was last roleblocked this game (null if never) */
+  roleblockedRound: number | null;
+  /** Every lookout / tracker report this player received this game */
+  visitReports: VisitReportPayload[];
+  /** The current day's narration (null outside of day / vote) */
+  narration: NarratePayload | null;
+  /** Chat history since the room last reset, minus channels the player can't see */
+  messages: ChatMessage[];
+  /** Final result once the game has ended */
+  gameEnd: GameEndPayload | null;
+  /** The player's own last will as last saved ('' for none / spectators) */
+  will: string;
+}
+
+/** Phase change broadcast */
+export interface PhaseChangedPayload {
+  phase: Phase;
+  round: number;
+  /** Server epoch ms when the phase ends (null if it has no timer) */
+  endsAt: number | null;
+}
+
+/** The room's next scheduled step and when it runs (server epoch ms) */
+export interface DeadlinePayload {
+  step: PhaseStep | null;
+  endsAt: number | null;
+}
+
+/** Elimination broadcast */
+export interface PlayerEliminatedPayload {
+  playerId: string;
+  playerName: string;
+  cause: 'night_kill' | 'lynch';
+  /** The player's last will (null if none, or wills are off) */
+  will: string | null;
+  /** The player's role (null unless roleReveal is full) */
+  role: Role | null;
+  /** The player's faction (null if roleReveal is hidden) */
+  faction: Faction | null;
+}
+
+/** Chat message payload */
+export interface ChatMessage {
+  senderId: string;
+  senderName: string;
+  text: string;
+  channel: ChatChannel;
+  timestamp: number;
+}
+
+/** Narrator event payload */
+export interface NarratePayload {
+  text: string;
+  outcome: NightOutcome;
+}
+
+/** Cutscene trigger payload — one per night attack; several play back to back */
+export interface CutscenePayload {
+  variant: CutsceneVariant;
+  victimId: string | null;
+  victimName: string | null;
+  victimAvatar: Avatar | null;
+  saved: boolean;
+}
+
+/** Vote update payload */
+export interface VoteUpdatePayload {
+  votes: Record<string, string>; // voterSocketId → targetSocketId
+  tally: Record<string, number>; // targetSocketId → count
+}
+
+/** Mafia-only live view of the team's kill votes */
+export interface MafiaVotesPayload {
+  votes: Record<string, string>; // mafiaSocketId → targetSocketId
+  rule: MafiaKillRule;
+  /** Whose pick is final under the `shooter` rule (null otherwise) */
+  shooterId: string | null;
+}
+
+/** Private detective result payload, sent when the night resolves (after any framing) */
+export interface DetectiveResultPayload {
+  targetId: string;
+  targetName: string;
+  isMafia: boolean;
+}
+
+/** Private lookout / tracker result, sent when the night resolves */
+export interface VisitReportPayload {
+  round: number;
+  action: VisitReportAction;
+  targetId: string;
+  targetName: string;
+  /** Who visited the target (watch), or whom the target visited (track) */
+  seen: Array<{ id: string; name: string }>;
+}
+
+/** Private notice that a roleblock cancelled this player's night */
+export interface RoleblockedPayload {
+  round: number;
+}
+
+/** One night action as shown in the post-game recap */
+export interface RecapNightAction {
+  actorId: string;
+  action: NightActionType;
+  targetId: string;
+  /** Investigation result as the detective received it (investigate only) */
+  isMafia?: boolean;
+  /** Cancelled because the actor was roleblocked */
+  blocked?: boolean;
+}
+
+/** One round of the post-game recap (player IDs are the final, post-reconnect IDs) */
+export interface RecapRound {
+  round: number;
+  /** Every night action submitted, in submission order */
+  nightActions: RecapNightAction[];
+  /** Every kill attempt of the night in resolution order, and whether it was protected */
+  attacks: Array<{ targetId: string; saved: boolean }>;
+  /** Final day vote of each voter */
+  dayVotes: Array<{ voterId: string; targetId: string }>;
+  eliminations: Array<{ playerId: string; cause: EliminationCause }>;
+}
+
+/** Game-end payload */
+export interface GameEndPayload {
+  /** The side whose win ended the game (`neutral`: every side was wiped out, nobody won) */
+  winner: Faction;
+  /**
+   * Every seat with its role and result. Several players can win at once:
+   * the winning side plus any neutral who reached their own goal.
+   */
+  roles: Array<{ id: string; name: string; role: Role; won: boolean }>;
+  /** Round-by-round recap of the game */
+  timeline: RecapRound[];
+}
+
+/** Clock sync reply (the client's own timestamp echoed back) */
+export interface TimeSyncReply {
+  clientTime: number;
+  serverTime: number;
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/**
+ * Every failure the server reports, with its default message. Codes are
+ * stable across protocol versions — clients branch on the code and show the
+ * message (which the server may make more specific).
+ */
+export const ERROR_CATALOG = {
+  ROOM_NOT_FOUND: 'Room not found.',
+  ROOM_FULL: 'Room is full.',
+  SPECTATORS_DISABLED: 'This room does not allow spectators.',
+  GAME_IN_PROGRESS: 'Game already in progress.',
+  INVALID_NAME: 'Invalid username (3–16 chars).',
+  NAME_TAKEN: 'Username already taken in this room.',
+  NOT_HOST: 'Only the host can do that.',
+  INVALID_SETTINGS: 'Invalid settings.',
+  INVALID_SETUP: 'Invalid setup.',
+  WRONG_PLAYER_COUNT: 'Not the right number of players to start.',
+  WRONG_PHASE: 'You cannot do that right now.',
+  NOT_ALIVE: 'You are not alive.',
+  ACTION_NOT_ALLOWED: 'You cannot do that.',
+  ALREADY_ACTED: 'You already submitted a night action.',
+  INVALID_TARGET: 'Invalid target.',
+  RATE_LIMITED: 'Slow down!',
+  NOT_IN_ROOM: 'You are not in this room.',
+  SESSION_NOT_FOUND: 'Session not found.',
+  RECONNECT_EXPIRED: 'Reconnect window expired.',
+  INVALID_PAYLOAD: 'Malformed request.',
+  ROOM_BUSY: 'Room is busy. Try again.',
+  /** Refused handshake (see HandshakeErrorData) */
+  PROTOCOL_MISMATCH: 'This game client is out of date. Refresh the page to get the latest version.',
+  /** Client-side only: no acknowledgement arrived in time */
+  TIMEOUT: 'The server did not respond. Try again.',
+  SERVER_ERROR: 'Something went wrong.',
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CATALOG;
+
+/** Any user-facing failure (the `error` event, or a rejected acknowledgement) */
+export interface ErrorPayload {
+  code: ErrorCode;
+  message: string;
+}
+
+/**
+ * Reply to a client action's acknowledgement callback. An action sent with a
+ * callback is always answered through it — success or failure — and never
+ * with an `error` event; without one, failures arrive as `error` events.
+ */
+export type Ack<T extends object = object> = ({ ok: true } & T) | { ok: false; error: ErrorPayload };
+
+/** Acknowledgement callback an action may pass as its last argument */
+export type AckCallback<T extends object = object> = (res: Ack<T>) => void;
+
+// ---------------------------------------------------------------------------
+// WebRTC signaling (relayed verbatim between peers)
+// ---------------------------------------------------------------------------
+
+/** Structural copy of the DOM's RTCSessionDescriptionInit */
+export interface RtcSessionDescription {
+  type: 'offer' | 'answer' | 'pranswer' | 'rollback';
+  sdp?: string;
+}
+
+/** Structural copy of the DOM's RTCIceCandidateInit */
+export interface RtcIceCandidate {
+  candidate?: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+/** Server → client event name → payload */
+export interface ServerEventPayloads {
+  room_created: RoomEnteredPayload;
+  room_joined: RoomEnteredPayload;
+  room_updated: RoomUpdatePayload;
+  room_reset: RoomResetPayload;
+  reconnected: ReconnectedPayload;
+  game_started: GameStartPayload;
+  phase_changed: PhaseChangedPayload;
+  deadline_updated: DeadlinePayload;
+  player_eliminated: PlayerEliminatedPayload;
+  cutscene: CutscenePayload;
+  narrate: NarratePayload;
+  vote_updated: VoteUpdatePayload;
+  mafia_votes_updated: MafiaVotesPayload;
+  detective_result: DetectiveResultPayload;
+  roleblocked: RoleblockedPayload;
+  visit_report: VisitReportPayload;
+  chat: ChatMessage;
+  game_ended: GameEndPayload;
+  error: ErrorPayload;
+  time_sync: TimeSyncReply;
+  'rtc:peer-joined': { peerId: string; channel: RtcChannel };
+  'rtc:peer-exists': { peerId: string; channel: RtcChannel };
+  'rtc:peer-left': { peerId: string };
+  'rtc:offer': { from: string; offer: RtcSessionDescription };
+  'rtc:answer': { from: string; answer: RtcSessionDescription };
+  'rtc:ice': { from: string; candidate: RtcIceCandidate };
+}
+
+/** Socket.io listener map for server → client events */
+export type ServerToClientEvents = {
+  [K in keyof ServerEventPayloads]: (payload: ServerEventPayloads[K]) => void;
+};
+
+/** Client → server events */
+export interface ClientToServerEvents {
+  create_room: (data: { username: string; avatar: Avatar }, ack?: AckCallback<{ code: string }>) => void;
+  join_room: (data: { code: string; username: string; avatar: Avatar }, ack?: AckCallback<{ code: string }>) => void;
+  /** Watch a room (lobby or mid-game) without taking a seat */
+  spectate_room: (data: { code: string; username: string; avatar: Avatar }, ack?: AckCallback<{ code: string }>) => void;
+  start_game: (data: { code: string }, ack?: AckCallback) => void;
+  /** Host only, lobby only */
+  update_settings: (data: { code: string; settings: RoomSettingsUpdate }, ack?: AckCallback) => void;
+  /** Host only, lobby only; null name = back to auto-deal */
+  select_setup: (data: { code: string; name: string | null }, ack?: AckCallback) => void;
+  /** Host only, lobby only; validated on the server */
+  import_setup: (data: { code: string; setup: unknown }, ack?: AckCallback) => void;
+  night_action: (data: { code: string; action: NightActionType; targetId: string }, ack?: AckCallback) => void;
+  day_vote: (data: { code: string; targetId: string }, ack?: AckCallback) => void;
+  /** Host only */
+  skip_discussion: (data: { code: string }, ack?: AckCallback) => void;
+  /** Host only */
+  play_again: (data: { code: string }, ack?: AckCallback) => void;
+  chat_message: (data: { code: string; text: string; channel: ChatChannel }, ack?: AckCallback) => void;
+  /** Write (or clear, with '') the sender's last will */
+  set_will: (data: { code: string; text: string }, ack?: AckCallback) => void;
+  reconnect_player: (data: { sessionId: string; code: string }, ack?: AckCallback) => void;
+  leave_room: (data: { code: string }, ack?: AckCallback) => void;
+  time_sync: (data: { clientTime: number }) => void;
+  'rtc:join': (data: { code: string; channel: RtcChannel }) => void;
+  'rtc:leave': (data: { code: string }) => void;
+  'rtc:offer': (data: { to: string; offer: RtcSessionDescription }) => void;
+  'rtc:answer': (data: { to: string; answer: RtcSessionDescription }) => void;
+  'rtc:ice': (data: { to: string; candidate: RtcIceCandidate }) => void;
+}